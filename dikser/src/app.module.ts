@@ -12,42 +12,84 @@ import { BadgesModule } from './badges/badges.module'
 import { MailingModule } from './mailing/mailing.module'
 import { CommentsModule } from './comments/comments.module'
 import { QueuesModule } from './queues/queues.module'
+import { LoadersModule } from './loaders/loaders.module'
+import { SearchModule } from './search/search.module'
+import { TagsModule } from './tags/tags.module'
+import { UploadsModule } from './uploads/uploads.module'
+import { BookmarksModule } from './bookmarks/bookmarks.module'
+import { LoadersService } from './loaders/loaders.service'
+import { User } from './users/entities/user.entity'
+import { readSessionUser } from './shared/utils/session'
+import { IncomingMessage } from 'http'
 
 @Module({
 	imports: [
 		DatabaseModule,
 		UsersModule,
 		PassportModule.register({ session: true }),
-		GraphQLModule.forRoot({
-			// GraphQl subscriptions over WebSocket
-			installSubscriptionHandlers: true,
-			subscriptions: {
-				path: '/subscriptions',
-			},
-			playground: process.env.NODE_ENV !== 'production',
-			autoSchemaFile: join(process.cwd(), 'src/schema.gql'),
-			cors: {
-				origin: [process.env.CLIENT_ORIGIN!, process.env.A_ORIGIN!],
-				credentials: true,
-				allowedHeaders: ['Content-Type', 'key'],
-			},
-			/**
-			 * Intercept graphql error, bind a custom json object
-			 * @Example BadRequestException | UnauthorizedException | InvalidRequestException | etc
-			 * @returns custom message object for better error handling
-			 */
-			formatError: (error: GraphQLError) => {
-				const graphQLFormattedError: GraphQLFormattedError = {
-					message:
-						error.extensions?.exception?.response?.message ||
-						error.message,
-					extensions: {
-						error: error.extensions?.exception?.response?.error,
-						status: error.extensions?.exception?.status,
-					},
-				}
-				return graphQLFormattedError
-			},
+		GraphQLModule.forRootAsync({
+			imports: [LoadersModule],
+			inject: [LoadersService],
+			useFactory: (loadersService: LoadersService) => ({
+				// GraphQl subscriptions over WebSocket
+				installSubscriptionHandlers: true,
+				subscriptions: {
+					path: '/subscriptions',
+					/**
+					 * Read the user once when the socket connects,
+					 * subscriptions use it to apply the post policy
+					 */
+					onConnect: async (
+						_params: unknown,
+						_websocket: unknown,
+						{ request }: { request: IncomingMessage }
+					) => ({ user: await readSessionUser(request) }),
+				},
+				playground: process.env.NODE_ENV !== 'production',
+				autoSchemaFile: join(process.cwd(), 'src/schema.gql'),
+				cors: {
+					origin: [process.env.CLIENT_ORIGIN!, process.env.A_ORIGIN!],
+					credentials: true,
+					allowedHeaders: ['Content-Type', 'key'],
+				},
+				/**
+				 * Intercept graphql error, bind a custom json object
+				 * @Example BadRequestException | UnauthorizedException | InvalidRequestException | etc
+				 * @returns custom message object for better error handling
+				 */
+				formatError: (error: GraphQLError) => {
+					const graphQLFormattedError: GraphQLFormattedError = {
+						message:
+							error.extensions?.exception?.response?.message ||
+							error.message,
+						extensions: {
+							error: error.extensions?.exception?.response?.error,
+							status: error.extensions?.exception?.status,
+						},
+					}
+					return graphQLFormattedError
+				},
+				/**
+				 * Bind the current user and a fresh set of DataLoaders
+				 * to every request and subscription
+				 * @see loaders/loaders.service.ts
+				 */
+				context: ({
+					req,
+					connection,
+				}: {
+					req?: { user?: User }
+					connection?: { context: { user?: User } }
+				}) => {
+					const user = connection
+						? connection.context.user
+						: req?.user
+					return {
+						user,
+						loaders: loadersService.createLoaders(user?.id),
+					}
+				},
+			}),
 		}),
 		AuthModule,
 		PostsModule,
@@ -56,6 +98,10 @@ import { QueuesModule } from './queues/queues.module'
 		MailingModule,
 		CommentsModule,
 		QueuesModule,
+		SearchModule,
+		TagsModule,
+		UploadsModule,
+		BookmarksModule,
 	],
 	controllers: [],
 	providers: [],
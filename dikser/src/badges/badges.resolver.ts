@@ -1,4 +1,11 @@
-import { Resolver, Query, Mutation, Args } from '@nestjs/graphql'
+import {
+	Resolver,
+	Query,
+	Mutation,
+	Args,
+	ResolveField,
+	Parent,
+} from '@nestjs/graphql'
 import { BadgesService } from './badges.service'
 import { Badge } from './entities/badge.entity'
 import { CreateBadgeInput } from './dto/create-badge.input'
@@ -7,6 +14,8 @@ import { AddUserABadgeInput } from './dto/adduser-badge.input'
 import { DeleteBadgeResponse } from './dto/badge-delete.dto'
 import { UseGuards } from '@nestjs/common'
 import { AGuard } from '../shared/guards/a.guard'
+import { Loaders } from '../shared/decorators/loaders.decorator'
+import { DataLoaders } from '../loaders/loaders.service'
 
 @UseGuards(AGuard)
 @Resolver(() => Badge)
@@ -51,4 +60,13 @@ export class BadgesResolver {
 	): Promise<any> {
 		return await this.badgesService.removeBadgeFromUser(label, userId)
 	}
+
+	/**
+	 * @ResolveFields
+	 * Badge owners are batch-loaded by DataLoaders
+	 */
+	@ResolveField(() => [User], { nullable: true })
+	async owners(@Parent() badge: Badge, @Loaders() loaders: DataLoaders) {
+		return badge.owners ?? loaders.badgeOwners.load(badge.id)
+	}
 }
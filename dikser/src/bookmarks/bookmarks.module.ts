@@ -0,0 +1,18 @@
+import { Module } from '@nestjs/common'
+import { TypeOrmModule } from '@nestjs/typeorm'
+import { PostsModule } from '../posts/posts.module'
+import { UsersModule } from '../users/users.module'
+import { BookmarksResolver } from './bookmarks.resolver'
+import { BookmarksService } from './bookmarks.service'
+import { BookmarkCollection } from './entities/bookmark-collection.entity'
+import { Bookmark } from './entities/bookmark.entity'
+
+@Module({
+	imports: [
+		TypeOrmModule.forFeature([Bookmark, BookmarkCollection]),
+		UsersModule,
+		PostsModule,
+	],
+	providers: [BookmarksResolver, BookmarksService],
+})
+export class BookmarksModule {}
@@ -0,0 +1,87 @@
+import { UseGuards } from '@nestjs/common'
+import { Args, Mutation, Query, Resolver } from '@nestjs/graphql'
+import { AuthStatusGuard } from '../auth/guards/auth.guard'
+import { Post } from '../posts/entities/post.entity'
+import { CurrentUser } from '../shared/decorators/current-user.decorator'
+import { PaginationArgs } from '../shared/dto/pagination.args'
+import { User } from '../users/entities/user.entity'
+import { BookmarksService } from './bookmarks.service'
+import { CreateBookmarkCollectionInput } from './dto/create-bookmark-collection.input'
+import { PaginatedBookmarks } from './dto/paginated-bookmarks.dto'
+import { BookmarkCollection } from './entities/bookmark-collection.entity'
+import { Bookmark } from './entities/bookmark.entity'
+
+@Resolver(() => Bookmark)
+export class BookmarksResolver {
+	constructor(private readonly bookmarksService: BookmarksService) {}
+
+	@Mutation(() => Post)
+	@UseGuards(AuthStatusGuard)
+	async bookmarkPost(
+		@CurrentUser() currentUser: User,
+		@Args('postId') postId: string,
+		@Args('collectionId', { nullable: true }) collectionId?: string
+	): Promise<Post> {
+		return await this.bookmarksService.bookmark(
+			currentUser,
+			postId,
+			collectionId
+		)
+	}
+
+	@Mutation(() => Post)
+	@UseGuards(AuthStatusGuard)
+	async unbookmarkPost(
+		@CurrentUser() currentUser: User,
+		@Args('postId') postId: string
+	): Promise<Post> {
+		return await this.bookmarksService.unbookmark(currentUser, postId)
+	}
+
+	@Query(() => PaginatedBookmarks, { name: 'myBookmarks' })
+	@UseGuards(AuthStatusGuard)
+	async findMine(
+		@CurrentUser() currentUser: User,
+		@Args() paginationArgs: PaginationArgs,
+		@Args('collectionId', { nullable: true }) collectionId?: string
+	): Promise<PaginatedBookmarks> {
+		return await this.bookmarksService.findMine(
+			currentUser,
+			paginationArgs,
+			collectionId
+		)
+	}
+
+	@Query(() => [BookmarkCollection], { name: 'myBookmarkCollections' })
+	@UseGuards(AuthStatusGuard)
+	async findCollections(
+		@CurrentUser() currentUser: User
+	): Promise<BookmarkCollection[]> {
+		return await this.bookmarksService.findCollections(currentUser)
+	}
+
+	@Mutation(() => BookmarkCollection)
+	@UseGuards(AuthStatusGuard)
+	async createBookmarkCollection(
+		@CurrentUser() currentUser: User,
+		@Args('createBookmarkCollectionInput')
+		createCollectionInput: CreateBookmarkCollectionInput
+	): Promise<BookmarkCollection> {
+		return await this.bookmarksService.createCollection(
+			currentUser,
+			createCollectionInput
+		)
+	}
+
+	@Mutation(() => BookmarkCollection)
+	@UseGuards(AuthStatusGuard)
+	async removeBookmarkCollection(
+		@CurrentUser() currentUser: User,
+		@Args('collectionId') collectionId: string
+	): Promise<BookmarkCollection> {
+		return await this.bookmarksService.removeCollection(
+			currentUser,
+			collectionId
+		)
+	}
+}
@@ -0,0 +1,214 @@
+import { NotFoundException } from '@nestjs/common'
+import { Test, TestingModule } from '@nestjs/testing'
+import { getRepositoryToken } from '@nestjs/typeorm'
+import { PostPolicyService } from '../posts/post-policy.service'
+import { PostsService } from '../posts/posts.service'
+import { User } from '../users/entities/user.entity'
+import { UsersService } from '../users/users.service'
+import { BookmarksService } from './bookmarks.service'
+import { BookmarkCollection } from './entities/bookmark-collection.entity'
+import { Bookmark } from './entities/bookmark.entity'
+
+describe('BookmarksService', () => {
+	let service: BookmarksService
+
+	const currentUser = Object.assign(new User(), { id: 'testing id' })
+
+	// * Query Builder Mocking
+	const mockQueryBuilder: Record<string, any> = {
+		alias: 'bookmark',
+		expressionMap: { mainAlias: { metadata: { tableName: 'bookmark' } } },
+		innerJoinAndSelect: jest.fn(() => mockQueryBuilder),
+		leftJoinAndSelect: jest.fn(() => mockQueryBuilder),
+		where: jest.fn(() => mockQueryBuilder),
+		andWhere: jest.fn(() => mockQueryBuilder),
+		orderBy: jest.fn(() => mockQueryBuilder),
+		addOrderBy: jest.fn(() => mockQueryBuilder),
+		take: jest.fn(() => mockQueryBuilder),
+		getOne: jest.fn(() => Promise.resolve(undefined)),
+		getMany: jest.fn(() =>
+			Promise.resolve([{ id: 'bookmark id', post: { id: 'post id' } }])
+		),
+	}
+
+	const mockBookmarksRepository = {
+		createQueryBuilder: jest.fn(() => mockQueryBuilder),
+		create: jest.fn((bookmark) => bookmark),
+		save: jest.fn((bookmark) => Promise.resolve(bookmark)),
+		delete: jest.fn(() => Promise.resolve({})),
+	}
+
+	const mockCollectionsRepository = {
+		createQueryBuilder: jest.fn(() => mockQueryBuilder),
+		create: jest.fn((collection) => collection),
+		save: jest.fn((collection) =>
+			Promise.resolve({ id: 'collection id', ...collection })
+		),
+		delete: jest.fn(() => Promise.resolve({})),
+	}
+
+	const mockPostsService = {
+		findById: jest.fn((postId: string) =>
+			postId === 'hidden post id'
+				? Promise.reject(new NotFoundException())
+				: Promise.resolve({ id: postId })
+		),
+	}
+
+	const mockUsersService = {
+		findById: jest.fn(() =>
+			Promise.resolve({
+				id: 'testing id',
+				relationship: { id: 'relationship id' },
+			})
+		),
+	}
+
+	const mockPostPolicyService = {
+		whereViewable: jest.fn((query) => query),
+	}
+
+	beforeEach(async () => {
+		const module: TestingModule = await Test.createTestingModule({
+			providers: [
+				BookmarksService,
+				{
+					provide: getRepositoryToken(Bookmark),
+					useValue: mockBookmarksRepository,
+				},
+				{
+					provide: getRepositoryToken(BookmarkCollection),
+					useValue: mockCollectionsRepository,
+				},
+				{ provide: PostsService, useValue: mockPostsService },
+				{ provide: UsersService, useValue: mockUsersService },
+				{ provide: PostPolicyService, useValue: mockPostPolicyService },
+			],
+		}).compile()
+
+		service = module.get<BookmarksService>(BookmarksService)
+		jest.clearAllMocks()
+	})
+
+	it('should be defined', () => {
+		expect(service).toBeDefined()
+	})
+
+	describe('bookmark()', () => {
+		it('should bookmark the post for the current user', async () => {
+			const post = await service.bookmark(currentUser, 'post id')
+
+			expect(mockBookmarksRepository.save).toHaveBeenCalledWith({
+				user: currentUser,
+				post: expect.objectContaining({ id: 'post id' }),
+				collection: null,
+			})
+			expect(post.isBookmarked).toBe(true)
+		})
+
+		it('should move an existing bookmark into the collection', async () => {
+			mockQueryBuilder.getOne
+				.mockImplementationOnce(() =>
+					Promise.resolve({ id: 'collection id' })
+				)
+				.mockImplementationOnce(() =>
+					Promise.resolve({ id: 'bookmark id', collection: null })
+				)
+
+			await service.bookmark(currentUser, 'post id', 'collection id')
+
+			expect(mockBookmarksRepository.create).not.toHaveBeenCalled()
+			expect(mockBookmarksRepository.save).toHaveBeenCalledWith({
+				id: 'bookmark id',
+				collection: { id: 'collection id' },
+			})
+		})
+
+		it('should not bookmark post the user could not see', async () => {
+			await expect(
+				service.bookmark(currentUser, 'hidden post id')
+			).rejects.toBeInstanceOf(NotFoundException)
+			expect(mockBookmarksRepository.save).not.toHaveBeenCalled()
+		})
+
+		it('should not bookmark into collection of another user', async () => {
+			await expect(
+				service.bookmark(currentUser, 'post id', 'collection id')
+			).rejects.toBeInstanceOf(NotFoundException)
+			expect(mockBookmarksRepository.save).not.toHaveBeenCalled()
+		})
+	})
+
+	describe('unbookmark()', () => {
+		it('should delete the bookmark', async () => {
+			mockQueryBuilder.getOne.mockImplementationOnce(() =>
+				Promise.resolve({ id: 'bookmark id' })
+			)
+
+			const post = await service.unbookmark(currentUser, 'post id')
+
+			expect(mockBookmarksRepository.delete).toHaveBeenCalledWith(
+				'bookmark id'
+			)
+			expect(post.isBookmarked).toBe(false)
+		})
+
+		it('should throw when the post is not bookmarked', async () => {
+			await expect(
+				service.unbookmark(currentUser, 'post id')
+			).rejects.toBeInstanceOf(NotFoundException)
+		})
+
+		it('should keep the bookmark of a post the user could not see', async () => {
+			await expect(
+				service.unbookmark(currentUser, 'hidden post id')
+			).rejects.toBeInstanceOf(NotFoundException)
+			expect(mockQueryBuilder.getOne).not.toHaveBeenCalled()
+			expect(mockBookmarksRepository.delete).not.toHaveBeenCalled()
+		})
+	})
+
+	describe('findMine()', () => {
+		it('should only list bookmarks of posts the user could see', async () => {
+			const bookmarks = await service.findMine(currentUser, { first: 10 })
+
+			expect(mockPostPolicyService.whereViewable).toHaveBeenCalledWith(
+				mockQueryBuilder,
+				'post',
+				'testing id',
+				'relationship id'
+			)
+			expect(bookmarks.edges).toHaveLength(1)
+		})
+
+		it('should narrow bookmarks down to the collection', async () => {
+			await service.findMine(currentUser, { first: 10 }, 'collection id')
+
+			expect(mockQueryBuilder.andWhere).toHaveBeenCalledWith(
+				'collection.id = :collectionId',
+				{ collectionId: 'collection id' }
+			)
+		})
+	})
+
+	describe('collections', () => {
+		it('should create collection owned by the current user', async () => {
+			const collection = await service.createCollection(currentUser, {
+				name: 'Holiday',
+			})
+
+			expect(collection).toEqual({
+				id: 'collection id',
+				name: 'Holiday',
+				owner: currentUser,
+			})
+		})
+
+		it('should only remove own collection', async () => {
+			await expect(
+				service.removeCollection(currentUser, 'collection id')
+			).rejects.toBeInstanceOf(NotFoundException)
+			expect(mockCollectionsRepository.delete).not.toHaveBeenCalled()
+		})
+	})
+})
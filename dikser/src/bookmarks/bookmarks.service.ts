@@ -0,0 +1,163 @@
+import { Injectable, NotFoundException } from '@nestjs/common'
+import { InjectRepository } from '@nestjs/typeorm'
+import { Repository } from 'typeorm'
+import { PostPolicyService } from '../posts/post-policy.service'
+import { PostsService } from '../posts/posts.service'
+import { PaginationArgs } from '../shared/dto/pagination.args'
+import { paginateQuery, toConnection } from '../shared/utils/pagination'
+import { User } from '../users/entities/user.entity'
+import { UsersService } from '../users/users.service'
+import { CreateBookmarkCollectionInput } from './dto/create-bookmark-collection.input'
+import { BookmarkCollection } from './entities/bookmark-collection.entity'
+import { Bookmark } from './entities/bookmark.entity'
+
+@Injectable()
+export class BookmarksService {
+	constructor(
+		@InjectRepository(Bookmark)
+		private readonly bookmarksRepository: Repository<Bookmark>,
+		@InjectRepository(BookmarkCollection)
+		private readonly collectionsRepository: Repository<BookmarkCollection>,
+		private readonly postsService: PostsService,
+		private readonly usersService: UsersService,
+		private readonly postPolicy: PostPolicyService
+	) {}
+
+	/**
+	 * Bookmark a post the user could read,
+	 * bookmarking it again only moves it into the given collection
+	 */
+	async bookmark(currentUser: User, postId: string, collectionId?: string) {
+		// post the user could not see is not found
+		const relatedPost = await this.postsService.findById(
+			postId,
+			currentUser.id
+		)
+		const collection = collectionId
+			? await this.findOwnCollection(currentUser, collectionId)
+			: null
+
+		const bookmark =
+			(await this.findOwnBookmark(currentUser, postId)) ??
+			this.bookmarksRepository.create({
+				user: currentUser,
+				post: relatedPost,
+			})
+		bookmark.collection = collection
+		await this.bookmarksRepository.save(bookmark)
+
+		relatedPost.isBookmarked = true
+		return relatedPost
+	}
+
+	/**
+	 * Bookmark is only removed while its post could be read,
+	 * just like it is only listed then @see findMine
+	 */
+	async unbookmark(currentUser: User, postId: string) {
+		const relatedPost = await this.postsService.findById(
+			postId,
+			currentUser.id
+		)
+		const bookmark = await this.findOwnBookmark(currentUser, postId)
+		if (!bookmark) throw new NotFoundException()
+
+		await this.bookmarksRepository.delete(bookmark.id)
+
+		relatedPost.isBookmarked = false
+		return relatedPost
+	}
+
+	/**
+	 * Bookmarks of the current user, the latest saved first.
+	 * Bookmarks whose post has been deleted or could not be read
+	 * by the user anymore are left out, they show up again
+	 * once the post is restored or visible again
+	 */
+	async findMine(
+		currentUser: User,
+		paginationArgs: PaginationArgs,
+		collectionId?: string
+	) {
+		const relationshipId = (
+			await this.usersService.findById(currentUser.id)
+		).relationship?.id
+
+		const query = this.bookmarksRepository
+			.createQueryBuilder('bookmark')
+			.innerJoinAndSelect('bookmark.post', 'post')
+			.leftJoinAndSelect('bookmark.collection', 'collection')
+			.where('bookmark.user = :userId', { userId: currentUser.id })
+		if (collectionId)
+			query.andWhere('collection.id = :collectionId', { collectionId })
+
+		const bookmarks = await paginateQuery(
+			this.postPolicy.whereViewable(
+				query,
+				'post',
+				currentUser.id,
+				relationshipId
+			),
+			paginationArgs
+		).getMany()
+
+		return toConnection(bookmarks, paginationArgs.first)
+	}
+
+	/**
+	 * @Collections
+	 * Named groups of bookmarks, only visible to their owner
+	 */
+	async findCollections(currentUser: User) {
+		return await this.collectionsRepository
+			.createQueryBuilder('collection')
+			.where('collection.owner = :ownerId', { ownerId: currentUser.id })
+			.orderBy('collection.created_at', 'ASC')
+			.getMany()
+	}
+
+	async createCollection(
+		currentUser: User,
+		createCollectionInput: CreateBookmarkCollectionInput
+	) {
+		const collection = this.collectionsRepository.create({
+			...createCollectionInput,
+			owner: currentUser,
+		})
+
+		return await this.collectionsRepository.save(collection)
+	}
+
+	async removeCollection(currentUser: User, collectionId: string) {
+		const collection = await this.findOwnCollection(
+			currentUser,
+			collectionId
+		)
+
+		// bookmarks of the collection are kept uncategorized
+		await this.collectionsRepository.delete(collection.id)
+
+		return collection
+	}
+
+	private async findOwnBookmark(currentUser: User, postId: string) {
+		return await this.bookmarksRepository
+			.createQueryBuilder('bookmark')
+			.where('bookmark.user = :userId', { userId: currentUser.id })
+			.andWhere('bookmark.post = :postId', { postId })
+			.getOne()
+	}
+
+	private async findOwnCollection(currentUser: User, collectionId: string) {
+		const collection = await this.collectionsRepository
+			.createQueryBuilder('collection')
+			.where('collection.id = :collectionId', { collectionId })
+			.andWhere('collection.owner = :ownerId', {
+				ownerId: currentUser.id,
+			})
+			.getOne()
+
+		if (!collection) throw new NotFoundException()
+		return collection
+	}
+}
@@ -0,0 +1,9 @@
+import { Field, InputType } from '@nestjs/graphql'
+import { Length } from 'class-validator'
+
+@InputType()
+export class CreateBookmarkCollectionInput {
+	@Field()
+	@Length(1, 50)
+	name: string
+}
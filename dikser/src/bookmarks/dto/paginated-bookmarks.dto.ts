@@ -0,0 +1,6 @@
+import { ObjectType } from '@nestjs/graphql'
+import { Paginated } from '../../shared/dto/paginated.dto'
+import { Bookmark } from '../entities/bookmark.entity'
+
+@ObjectType()
+export class PaginatedBookmarks extends Paginated(Bookmark) {}
@@ -0,0 +1,42 @@
+import { Field, ObjectType } from '@nestjs/graphql'
+import {
+	Column,
+	CreateDateColumn,
+	Entity,
+	ManyToOne,
+	OneToMany,
+	PrimaryGeneratedColumn,
+} from 'typeorm'
+import { User } from '../../users/entities/user.entity'
+import { Bookmark } from './bookmark.entity'
+
+/**
+ * Named group of bookmarks created by a user,
+ * bookmarks are kept uncategorized when their collection is removed
+ */
+@ObjectType()
+@Entity()
+export class BookmarkCollection {
+	@Field()
+	@PrimaryGeneratedColumn('uuid')
+	id: string
+
+	@Field()
+	@Column()
+	name: string
+
+	@Field({ nullable: true })
+	@CreateDateColumn({
+		type: 'timestamp with time zone',
+	})
+	created_at: Date
+
+	@ManyToOne((_) => User, {
+		onDelete: 'CASCADE',
+	})
+	owner: User
+
+	// bookmarks of a collection are queried with myBookmarks
+	@OneToMany((_) => Bookmark, (bookmark: Bookmark) => bookmark.collection)
+	bookmarks: Bookmark[]
+}
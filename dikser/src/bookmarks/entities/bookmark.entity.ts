@@ -0,0 +1,52 @@
+import { Field, ObjectType } from '@nestjs/graphql'
+import {
+	CreateDateColumn,
+	Entity,
+	ManyToOne,
+	PrimaryGeneratedColumn,
+	Unique,
+} from 'typeorm'
+import { Post } from '../../posts/entities/post.entity'
+import { User } from '../../users/entities/user.entity'
+import { BookmarkCollection } from './bookmark-collection.entity'
+
+/**
+ * Post saved by a user to look at later,
+ * a post could only be bookmarked once by the same user
+ */
+@ObjectType()
+@Entity()
+@Unique(['user', 'post'])
+export class Bookmark {
+	@Field()
+	@PrimaryGeneratedColumn('uuid')
+	id: string
+
+	@Field({ nullable: true })
+	@CreateDateColumn({
+		type: 'timestamp with time zone',
+	})
+	created_at: Date
+
+	@ManyToOne((_) => User, {
+		onDelete: 'CASCADE',
+	})
+	user: User
+
+	@Field((_) => Post)
+	@ManyToOne((_) => Post, {
+		onDelete: 'CASCADE',
+	})
+	post: Post
+
+	// null when the bookmark is not in any collection
+	@Field((_) => BookmarkCollection, { nullable: true })
+	@ManyToOne(
+		(_) => BookmarkCollection,
+		(collection: BookmarkCollection) => collection.bookmarks,
+		{
+			onDelete: 'SET NULL',
+		}
+	)
+	collection: BookmarkCollection | null
+}
@@ -1,19 +1,39 @@
 import { UseGuards } from '@nestjs/common'
-import { Args, Int, Mutation, Resolver, Subscription } from '@nestjs/graphql'
+import {
+	Args,
+	Int,
+	Mutation,
+	Parent,
+	Query,
+	ResolveField,
+	Resolver,
+	Subscription,
+} from '@nestjs/graphql'
 import { RedisPubSub } from 'graphql-redis-subscriptions'
 import { AuthStatusGuard } from '../auth/guards/auth.guard'
 import { CurrentUser } from '../shared/decorators/current-user.decorator'
 import { configureRedisPubSub } from '../shared/utils/redispubsub'
 import { User } from '../users/entities/user.entity'
 import { CommentsService } from './comments.service'
+import { CommentsArgs } from './dto/comments.args'
 import { CommentsDTO } from './dto/comments.dto'
 import { CreateCommentInput } from './dto/create-comment.input'
+import { PaginatedComments } from './dto/paginated-comments.dto'
+import { ReplyToCommentInput } from './dto/reply-to-comment.input'
+import { UpdateCommentInput } from './dto/update-comment.input'
 import { Comment } from './entities/comment.entity'
+import { Loaders } from '../shared/decorators/loaders.decorator'
+import { DataLoaders } from '../loaders/loaders.service'
+import { Post } from '../posts/entities/post.entity'
+import { PostPolicyService } from '../posts/post-policy.service'
 
 @Resolver(() => Comment)
 export class CommentsResolver {
 	private pubSub: RedisPubSub
-	constructor(private readonly commentsService: CommentsService) {
+	constructor(
+		private readonly commentsService: CommentsService,
+		private readonly postPolicy: PostPolicyService
+	) {
 		/**
 		 * Redis Pub/Sub configurations
 		 * @see https://github.com/davidyaha/graphql-redis-subscriptions
@@ -22,6 +42,15 @@ export class CommentsResolver {
 		this.pubSub = configureRedisPubSub()
 	}
 
+	@Query(() => PaginatedComments, { name: 'comments' })
+	@UseGuards(AuthStatusGuard)
+	async findByPost(
+		@CurrentUser() user: User,
+		@Args() commentsArgs: CommentsArgs
+	): Promise<PaginatedComments> {
+		return this.commentsService.findByPost(commentsArgs, user.id)
+	}
+
 	@Mutation(() => Int)
 	@UseGuards(AuthStatusGuard)
 	async createComment(
@@ -41,6 +70,44 @@ export class CommentsResolver {
 		return 200
 	}
 
+	@Mutation(() => Int)
+	@UseGuards(AuthStatusGuard)
+	async replyToComment(
+		@CurrentUser() user: User,
+		@Args('replyToCommentInput') replyToCommentInput: ReplyToCommentInput
+	): Promise<number> {
+		const newCommentsValue = await this.commentsService.replyToComment(
+			replyToCommentInput,
+			user.id
+		)
+
+		// send value via web socket (subscriptions)
+		await this.pubSub.publish('commentsSubscriptions', {
+			commentsSubscription: newCommentsValue,
+		})
+
+		return 200
+	}
+
+	@Mutation(() => Int)
+	@UseGuards(AuthStatusGuard)
+	async updateComment(
+		@CurrentUser() user: User,
+		@Args('updateCommentInput') updateCommentInput: UpdateCommentInput
+	): Promise<number> {
+		const newCommentsValue = await this.commentsService.updateComment(
+			updateCommentInput,
+			user.id
+		)
+
+		// send value via web socket (subscriptions)
+		await this.pubSub.publish('commentsSubscriptions', {
+			commentsSubscription: newCommentsValue,
+		})
+
+		return 200
+	}
+
 	@Mutation(() => Int)
 	@UseGuards(AuthStatusGuard)
 	async deleteComment(
@@ -63,13 +130,50 @@ export class CommentsResolver {
 	/**
 	 * @Subscriptions
 	 * Graphql subscriptions for comments,
-	 * provide real-time update
+	 * provide real-time update to users who could see the post
+	 * @see PostPolicyService.canSubscribe
 	 */
 	@Subscription(() => CommentsDTO, {
-		filter: (payload, variables) =>
-			payload.commentsSubscription.postId === variables.postId,
+		filter(this: CommentsResolver, payload, variables, context) {
+			return (
+				payload.commentsSubscription.postId === variables.postId &&
+				this.postPolicy.canSubscribe(variables.postId, context.user?.id)
+			)
+		},
 	})
 	commentsSubscription(@Args('postId') _postId: string) {
 		return this.pubSub.asyncIterator('commentsSubscriptions')
 	}
+
+	/**
+	 * @ResolveFields
+	 * Comment relations are batch-loaded by DataLoaders
+	 */
+	@ResolveField(() => User)
+	async author(@Parent() comment: Comment, @Loaders() loaders: DataLoaders) {
+		return comment.author ?? loaders.commentAuthor.load(comment.id)
+	}
+
+	@ResolveField(() => Post)
+	async post(@Parent() comment: Comment, @Loaders() loaders: DataLoaders) {
+		return comment.post ?? loaders.commentPost.load(comment.id)
+	}
+
+	@ResolveField(() => Comment, { nullable: true })
+	async parent(@Parent() comment: Comment, @Loaders() loaders: DataLoaders) {
+		return comment.parent ?? loaders.commentParent.load(comment.id)
+	}
+
+	@ResolveField(() => [Comment])
+	async replies(@Parent() comment: Comment, @Loaders() loaders: DataLoaders) {
+		return comment.replies ?? loaders.commentReplies.load(comment.id)
+	}
+
+	@ResolveField(() => Int)
+	async replyCount(
+		@Parent() comment: Comment,
+		@Loaders() loaders: DataLoaders
+	) {
+		return comment.replyCount ?? loaders.commentReplyCount.load(comment.id)
+	}
 }
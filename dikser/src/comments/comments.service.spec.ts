@@ -0,0 +1,416 @@
+import { BadRequestException, NotFoundException } from '@nestjs/common'
+import { Test, TestingModule } from '@nestjs/testing'
+import { getRepositoryToken } from '@nestjs/typeorm'
+import { Post } from '../posts/entities/post.entity'
+import { PostPolicyService } from '../posts/post-policy.service'
+import { PostsService } from '../posts/posts.service'
+import { UsersService } from '../users/users.service'
+import { CommentsService, MAX_COMMENT_DEPTH } from './comments.service'
+import { CommentOrder } from './dto/comment-order.enum'
+import { Comment } from './entities/comment.entity'
+
+describe('CommentsService', () => {
+	let commentService: CommentsService
+
+	// a public post anyone could view and comment on
+	const createPost = (postId: string) => ({
+		id: postId,
+		type: 'public',
+		scheduled: false,
+		author: { id: 'author id' },
+	})
+
+	// * Query Builder Mocking
+	const mockQueryBuilder: Record<string, any> = {
+		alias: 'comment',
+		expressionMap: { mainAlias: { metadata: { tableName: 'comment' } } },
+		leftJoinAndSelect: jest.fn(() => mockQueryBuilder),
+		where: jest.fn(() => mockQueryBuilder),
+		andWhere: jest.fn(() => mockQueryBuilder),
+		orderBy: jest.fn(() => mockQueryBuilder),
+		addOrderBy: jest.fn(() => mockQueryBuilder),
+		take: jest.fn(() => mockQueryBuilder),
+		getCount: jest.fn(() => Promise.resolve(3)),
+		getMany: jest.fn(() =>
+			Promise.resolve([
+				{
+					id: '4500fdce-c3ff-4646-bad5-d1b7748f4b54',
+					text: 'first comment',
+				},
+				{
+					id: 'c85ea02a-2d5b-4842-90dd-9e0be3235620',
+					text: 'second comment',
+				},
+			])
+		),
+	}
+
+	// * Comment Repository Mocking
+	const mockCommentsRepository = {
+		createQueryBuilder: jest.fn(() => mockQueryBuilder),
+		findOne: jest.fn((commentId: string) =>
+			Promise.resolve({
+				id: commentId,
+				text: 'testing comment',
+				depth: 0,
+				post: { id: 'post id' },
+			})
+		),
+		create: jest.fn((comment: Partial<Comment>) => comment),
+		save: jest.fn((comment: Partial<Comment>) => Promise.resolve(comment)),
+		count: jest.fn(() => Promise.resolve(2)),
+		delete: jest.fn(() => Promise.resolve({})),
+	}
+
+	// post of a comment in the trash is loaded as null
+	const mockTrashedComment = () =>
+		mockCommentsRepository.findOne.mockImplementationOnce(
+			(commentId: string) =>
+				Promise.resolve({
+					id: commentId,
+					text: 'testing comment',
+					depth: 0,
+					author: { id: 'current user id' },
+					post: null as any,
+				})
+		)
+
+	// PostsService Mocking
+	const mockPostsService = {
+		findViewable: jest.fn((postId: string) =>
+			Promise.resolve(createPost(postId))
+		),
+		refreshScore: jest.fn(() => Promise.resolve()),
+	}
+
+	// UsersService Mocking
+	const mockUsersService = {
+		findById: jest.fn((id: string) => ({
+			id,
+			email: 'testing email',
+			username: 'testing username',
+		})),
+	}
+
+	beforeEach(async () => {
+		const module: TestingModule = await Test.createTestingModule({
+			providers: [
+				CommentsService,
+				PostPolicyService,
+				{
+					provide: getRepositoryToken(Comment),
+					useValue: mockCommentsRepository,
+				},
+				{
+					provide: getRepositoryToken(Post),
+					useValue: {},
+				},
+				{
+					provide: PostsService,
+					useValue: mockPostsService,
+				},
+				{
+					provide: UsersService,
+					useValue: mockUsersService,
+				},
+			],
+		}).compile()
+
+		commentService = module.get<CommentsService>(CommentsService)
+		jest.clearAllMocks()
+	})
+
+	it('should be defined', () => {
+		expect(commentService).toBeDefined()
+	})
+
+	describe('replyToComment()', () => {
+		it('should nest the reply one level below its parent', async () => {
+			const result = await commentService.replyToComment(
+				{ commentId: 'parent id', text: 'testing reply' },
+				'current user id'
+			)
+
+			expect(mockCommentsRepository.create).toHaveBeenCalledWith(
+				expect.objectContaining({
+					text: 'testing reply',
+					parent: expect.objectContaining({ id: 'parent id' }),
+					depth: 1,
+				})
+			)
+			expect(result).toEqual(
+				expect.objectContaining({
+					postId: 'post id',
+					parentId: 'parent id',
+					commentsSum: 2,
+					type: 'added',
+				})
+			)
+		})
+
+		it('should refuse a parent which does not exist', async () => {
+			mockCommentsRepository.findOne.mockImplementationOnce(() =>
+				Promise.resolve(undefined as any)
+			)
+
+			await expect(
+				commentService.replyToComment(
+					{ commentId: 'missing id', text: 'testing reply' },
+					'current user id'
+				)
+			).rejects.toBeInstanceOf(NotFoundException)
+			expect(mockCommentsRepository.save).not.toHaveBeenCalled()
+		})
+
+		it('should refuse replies nested deeper than the limit', async () => {
+			mockCommentsRepository.findOne.mockImplementationOnce(
+				(commentId: string) =>
+					Promise.resolve({
+						id: commentId,
+						text: 'testing comment',
+						depth: MAX_COMMENT_DEPTH,
+						post: { id: 'post id' },
+					})
+			)
+
+			await expect(
+				commentService.replyToComment(
+					{ commentId: 'deepest id', text: 'testing reply' },
+					'current user id'
+				)
+			).rejects.toBeInstanceOf(BadRequestException)
+			expect(mockCommentsRepository.save).not.toHaveBeenCalled()
+		})
+
+		it('should add the reply to the post of its parent', async () => {
+			mockCommentsRepository.findOne.mockImplementationOnce(
+				(commentId: string) =>
+					Promise.resolve({
+						id: commentId,
+						text: 'testing comment',
+						depth: 0,
+						post: { id: 'other post id' },
+					})
+			)
+
+			const result = await commentService.replyToComment(
+				{ commentId: 'parent id', text: 'testing reply' },
+				'current user id'
+			)
+
+			expect(mockPostsService.findViewable).toHaveBeenCalledWith(
+				'other post id',
+				'current user id'
+			)
+			expect(mockCommentsRepository.create).toHaveBeenCalledWith(
+				expect.objectContaining({
+					post: expect.objectContaining({ id: 'other post id' }),
+				})
+			)
+			expect(result.postId).toEqual('other post id')
+		})
+
+		it('should refuse a reply on a post the user could not see', async () => {
+			mockPostsService.findViewable.mockImplementationOnce(() =>
+				Promise.reject(new NotFoundException())
+			)
+
+			await expect(
+				commentService.replyToComment(
+					{ commentId: 'parent id', text: 'testing reply' },
+					'current user id'
+				)
+			).rejects.toBeInstanceOf(NotFoundException)
+			expect(mockCommentsRepository.save).not.toHaveBeenCalled()
+		})
+	})
+
+	describe('updateComment()', () => {
+		// comment written by the current user
+		const mockOwnComment = () =>
+			mockCommentsRepository.findOne.mockImplementationOnce(
+				(commentId: string) =>
+					Promise.resolve({
+						id: commentId,
+						text: 'testing comment',
+						depth: 1,
+						author: { id: 'current user id' },
+						post: { id: 'post id' },
+						parent: { id: 'parent id' },
+					})
+			)
+
+		it('should only let the author edit the comment', async () => {
+			mockOwnComment()
+
+			await expect(
+				commentService.updateComment(
+					{ id: 'comment id', text: 'updated comment' },
+					'another user id'
+				)
+			).rejects.toBeInstanceOf(NotFoundException)
+			expect(mockCommentsRepository.save).not.toHaveBeenCalled()
+		})
+
+		it('should mark the comment as edited', async () => {
+			mockOwnComment()
+
+			await commentService.updateComment(
+				{ id: 'comment id', text: 'updated comment' },
+				'current user id'
+			)
+
+			expect(mockCommentsRepository.save).toHaveBeenCalledWith(
+				expect.objectContaining({
+					id: 'comment id',
+					text: 'updated comment',
+					edited_at: expect.any(Date),
+				})
+			)
+		})
+
+		it('should return the payload of the edited event', async () => {
+			mockOwnComment()
+
+			const result = await commentService.updateComment(
+				{ id: 'comment id', text: 'updated comment' },
+				'current user id'
+			)
+
+			expect(result).toEqual({
+				postId: 'post id',
+				parentId: 'parent id',
+				comment: expect.objectContaining({
+					id: 'comment id',
+					text: 'updated comment',
+				}),
+				commentsSum: 2,
+				type: 'edited',
+			})
+		})
+	})
+
+	describe('findByPost()', () => {
+		it('should return a page of comments with the total count', async () => {
+			const result = await commentService.findByPost(
+				{ postId: 'post id', first: 1 },
+				'current user id'
+			)
+
+			expect(mockQueryBuilder.where).toHaveBeenCalledWith(
+				'comment.post = :postId',
+				{ postId: 'post id' }
+			)
+			expect(mockQueryBuilder.take).toHaveBeenCalledWith(2)
+			expect(result).toEqual({
+				edges: [
+					{
+						cursor: expect.any(String),
+						node: expect.objectContaining({
+							id: '4500fdce-c3ff-4646-bad5-d1b7748f4b54',
+						}),
+					},
+				],
+				pageInfo: {
+					hasNextPage: true,
+					endCursor: expect.any(String),
+				},
+				totalCount: 3,
+			})
+		})
+
+		it('should list the oldest comments first by default', async () => {
+			await commentService.findByPost(
+				{ postId: 'post id', first: 10 },
+				'current user id'
+			)
+
+			expect(mockQueryBuilder.orderBy).toHaveBeenCalledWith(
+				'comment.created_at',
+				'ASC'
+			)
+		})
+
+		it('should list the newest comments first when asked', async () => {
+			await commentService.findByPost(
+				{ postId: 'post id', first: 10, order: CommentOrder.NEWEST },
+				'current user id'
+			)
+
+			expect(mockQueryBuilder.orderBy).toHaveBeenCalledWith(
+				'comment.created_at',
+				'DESC'
+			)
+		})
+
+		it('should continue after the given cursor', async () => {
+			const firstPage = await commentService.findByPost(
+				{ postId: 'post id', first: 1 },
+				'current user id'
+			)
+
+			await commentService.findByPost(
+				{
+					postId: 'post id',
+					first: 1,
+					after: firstPage.pageInfo.endCursor,
+				},
+				'current user id'
+			)
+
+			expect(mockQueryBuilder.andWhere).toHaveBeenCalledWith(
+				expect.any(String),
+				{ cursorId: '4500fdce-c3ff-4646-bad5-d1b7748f4b54' }
+			)
+		})
+
+		it('should refuse comments of a post the user could not see', async () => {
+			mockPostsService.findViewable.mockImplementationOnce(() =>
+				Promise.reject(new NotFoundException())
+			)
+
+			await expect(
+				commentService.findByPost(
+					{ postId: 'private post id', first: 10 },
+					'current user id'
+				)
+			).rejects.toBeInstanceOf(NotFoundException)
+			expect(mockQueryBuilder.getMany).not.toHaveBeenCalled()
+		})
+	})
+
+	describe('comments of trashed posts', () => {
+		it('should refuse replies', async () => {
+			mockTrashedComment()
+
+			await expect(
+				commentService.replyToComment(
+					{ commentId: 'parent id', text: 'testing reply' },
+					'current user id'
+				)
+			).rejects.toBeInstanceOf(NotFoundException)
+			expect(mockCommentsRepository.save).not.toHaveBeenCalled()
+		})
+
+		it('should refuse edits', async () => {
+			mockTrashedComment()
+
+			await expect(
+				commentService.updateComment(
+					{ id: 'comment id', text: 'updated comment' },
+					'current user id'
+				)
+			).rejects.toBeInstanceOf(NotFoundException)
+			expect(mockCommentsRepository.save).not.toHaveBeenCalled()
+		})
+
+		it('should refuse deletes', async () => {
+			mockTrashedComment()
+
+			await expect(
+				commentService.deleteComment('comment id', 'current user id')
+			).rejects.toBeInstanceOf(NotFoundException)
+			expect(mockCommentsRepository.delete).not.toHaveBeenCalled()
+		})
+	})
+})
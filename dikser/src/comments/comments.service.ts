@@ -1,79 +1,205 @@
-import { Injectable, NotFoundException } from '@nestjs/common'
+import {
+	BadRequestException,
+	Injectable,
+	NotFoundException,
+} from '@nestjs/common'
 import { InjectRepository } from '@nestjs/typeorm'
 import { Repository } from 'typeorm'
+import { PostPolicyService } from '../posts/post-policy.service'
 import { PostsService } from '../posts/posts.service'
+import { paginateQuery, toConnection } from '../shared/utils/pagination'
 import { UsersService } from '../users/users.service'
+import { CommentOrder } from './dto/comment-order.enum'
+import { CommentsArgs } from './dto/comments.args'
 import { CommentsDTO } from './dto/comments.dto'
 import { CreateCommentInput } from './dto/create-comment.input'
+import { ReplyToCommentInput } from './dto/reply-to-comment.input'
+import { UpdateCommentInput } from './dto/update-comment.input'
 import { Comment } from './entities/comment.entity'
 
+// Replies could be nested this many levels below the comments on a post
+export const MAX_COMMENT_DEPTH = 3
+
 @Injectable()
 export class CommentsService {
 	constructor(
 		@InjectRepository(Comment)
 		private commentsRepository: Repository<Comment>,
 		private readonly postsService: PostsService,
+		private readonly postPolicy: PostPolicyService,
 		private readonly usersService: UsersService
 	) {}
 
+	/**
+	 * Comments of a post, a page at a time.
+	 * Replies are paginated along with the comments they reply to,
+	 * so in OLDEST order a reply never comes before its parent
+	 */
+	async findByPost(
+		{ postId, order, ...paginationArgs }: CommentsArgs,
+		userId: string
+	) {
+		await this.postsService.findViewable(postId, userId)
+
+		const query = this.commentsRepository
+			.createQueryBuilder('comment')
+			.leftJoinAndSelect('comment.author', 'author')
+			.leftJoinAndSelect('comment.parent', 'parent')
+			.where('comment.post = :postId', { postId })
+		const totalCount = await query.getCount()
+
+		const comments = await paginateQuery(
+			query,
+			paginationArgs,
+			order === CommentOrder.NEWEST ? 'DESC' : 'ASC'
+		).getMany()
+
+		return {
+			...toConnection(comments, paginationArgs.first),
+			totalCount,
+		}
+	}
+
 	async createComment(
 		createCommentInput: CreateCommentInput,
 		userId: string
 	) {
-		// find post
-		const targetPost = await this.postsService.findById(
-			createCommentInput.postId
+		return this.addComment(
+			createCommentInput.postId,
+			createCommentInput.text,
+			userId
+		)
+	}
+
+	async replyToComment(
+		replyToCommentInput: ReplyToCommentInput,
+		userId: string
+	) {
+		// find the comment replied to
+		const parent = await this.commentsRepository.findOne(
+			replyToCommentInput.commentId,
+			{ relations: ['post'] }
+		)
+		// post in the trash is not loaded, so its comments could not be replied to
+		if (!parent?.post) throw new NotFoundException()
+
+		if (parent.depth >= MAX_COMMENT_DEPTH)
+			throw new BadRequestException(
+				`Replies could only be nested ${MAX_COMMENT_DEPTH} levels deep`
+			)
+
+		return this.addComment(
+			parent.post.id,
+			replyToCommentInput.text,
+			userId,
+			parent
 		)
+	}
+
+	/**
+	 * Comments and replies are added the same way,
+	 * the post of a reply is always the post of its parent
+	 */
+	private async addComment(
+		postId: string,
+		text: string,
+		userId: string,
+		parent?: Comment
+	) {
+		// find post
+		const targetPost = await this.postsService.findViewable(postId, userId)
 
 		// author target
 		const author = await this.usersService.findById(userId)
 
 		if (!targetPost || !author) throw new NotFoundException()
+		if (!this.postPolicy.canComment(targetPost, author.id))
+			throw new NotFoundException()
 
 		// create comment
 		const createComment = this.commentsRepository.create({
-			text: createCommentInput.text,
+			text,
 			author: author,
 			post: targetPost,
+			parent: parent ?? null,
+			depth: parent ? parent.depth + 1 : 0,
 		})
 		await this.commentsRepository.save(createComment)
-
-		// find result
-		const result = await this.postsService.findById(
-			createCommentInput.postId
-		)
+		await this.postsService.refreshScore(targetPost.id)
 
 		return new CommentsDTO(
-			result.id,
+			targetPost.id,
 			createComment,
-			result.comments.length,
+			await this.countComments(targetPost.id),
 			'added'
 		)
 	}
 
+	/**
+	 * Only the text could be changed, the comment keeps its place
+	 * in the thread and is marked as edited
+	 */
+	async updateComment(
+		updateCommentInput: UpdateCommentInput,
+		userId: string
+	) {
+		// find comment
+		const targetComment = await this.commentsRepository.findOne(
+			updateCommentInput.id,
+			{ relations: ['post', 'author', 'parent'] }
+		)
+
+		// post in the trash is not loaded, its comments are left as they are
+		if (!targetComment?.post) throw new NotFoundException()
+		if (!this.postPolicy.canEditComment(targetComment, userId))
+			throw new NotFoundException()
+
+		// the post must still be visible to the author of the comment
+		await this.postsService.findViewable(targetComment.post.id, userId)
+
+		// update comment
+		targetComment.text = updateCommentInput.text
+		targetComment.edited_at = new Date()
+		await this.commentsRepository.save(targetComment)
+
+		return new CommentsDTO(
+			targetComment.post.id,
+			targetComment,
+			await this.countComments(targetComment.post.id),
+			'edited'
+		)
+	}
+
 	async deleteComment(commentId: string, userId: string) {
 		// find comment
 		const targetComment = await this.commentsRepository.findOne(commentId, {
-			relations: ['post', 'author'],
+			relations: ['post', 'author', 'parent'],
 		})
 
 		// find author
 		const author = await this.usersService.findById(userId)
 
-		if (!targetComment || !author) throw new NotFoundException()
-		if (targetComment.author.id !== author.id) throw new NotFoundException()
+		// comments of a post in the trash are purged along with it
+		if (!targetComment?.post || !author) throw new NotFoundException()
+		if (!this.postPolicy.canDeleteComment(targetComment, author.id))
+			throw new NotFoundException()
 
 		// delete comment
 		await this.commentsRepository.delete(targetComment.id)
-
-		// find result
-		const result = await this.postsService.findById(targetComment.post.id)
+		await this.postsService.refreshScore(targetComment.post.id)
 
 		return new CommentsDTO(
-			result.id,
+			targetComment.post.id,
 			targetComment,
-			result.comments.length,
+			await this.countComments(targetComment.post.id),
 			'removed'
 		)
 	}
+
+	// comments and replies of the post, sent along with every change
+	private async countComments(postId: string) {
+		return await this.commentsRepository.count({
+			where: { post: postId },
+		})
+	}
 }
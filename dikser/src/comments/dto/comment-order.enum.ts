@@ -0,0 +1,12 @@
+import { registerEnumType } from '@nestjs/graphql'
+
+export enum CommentOrder {
+	OLDEST = 'OLDEST',
+	NEWEST = 'NEWEST',
+}
+
+registerEnumType(CommentOrder, {
+	name: 'CommentOrder',
+	description:
+		'Order of comments by creation date, OLDEST keeps replies after the comments they reply to',
+})
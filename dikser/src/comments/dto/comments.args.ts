@@ -0,0 +1,16 @@
+import { ArgsType, Field } from '@nestjs/graphql'
+import { IsEnum, IsOptional, IsUUID } from 'class-validator'
+import { PaginationArgs } from '../../shared/dto/pagination.args'
+import { CommentOrder } from './comment-order.enum'
+
+@ArgsType()
+export class CommentsArgs extends PaginationArgs {
+	@Field()
+	@IsUUID()
+	postId: string
+
+	@Field(() => CommentOrder, { defaultValue: CommentOrder.OLDEST })
+	@IsEnum(CommentOrder)
+	@IsOptional()
+	order?: CommentOrder = CommentOrder.OLDEST
+}
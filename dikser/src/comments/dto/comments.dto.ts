@@ -7,20 +7,26 @@ export class CommentsDTO {
 		postId: string,
 		comment: Comment,
 		commentsSum: number,
-		type: 'added' | 'removed'
+		type: 'added' | 'edited' | 'removed'
 	) {
 		this.postId = postId
 		this.comment = comment
 		this.type = type
 		this.commentsSum = commentsSum
+		this.parentId = comment.parent?.id ?? null
 	}
 
 	@Field()
 	postId: string
 
+	// comment replied to, null when the comment is on the post itself
+	@Field(() => String, { nullable: true })
+	parentId: string | null
+
 	@Field(() => Comment)
 	comment: Comment
 
+	// added, edited or removed
 	@Field()
 	type: string
 
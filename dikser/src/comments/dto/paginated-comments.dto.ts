@@ -0,0 +1,10 @@
+import { Field, Int, ObjectType } from '@nestjs/graphql'
+import { Paginated } from '../../shared/dto/paginated.dto'
+import { Comment } from '../entities/comment.entity'
+
+@ObjectType()
+export class PaginatedComments extends Paginated(Comment) {
+	// comments and replies of the post across every page
+	@Field(() => Int)
+	totalCount: number
+}
@@ -0,0 +1,14 @@
+import { InputType, Field } from '@nestjs/graphql'
+import { IsString, IsUUID } from 'class-validator'
+
+@InputType()
+export class ReplyToCommentInput {
+	@Field()
+	@IsString()
+	text: string
+
+	// comment being replied to
+	@Field()
+	@IsUUID()
+	commentId: string
+}
@@ -0,0 +1,13 @@
+import { CreateCommentInput } from './create-comment.input'
+import { InputType, Field, OmitType } from '@nestjs/graphql'
+import { IsUUID } from 'class-validator'
+
+@InputType()
+export class UpdateCommentInput extends OmitType(CreateCommentInput, [
+	// a comment never moves to another post
+	'postId',
+] as const) {
+	@Field()
+	@IsUUID('all')
+	id: string
+}
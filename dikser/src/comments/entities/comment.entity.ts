@@ -1,23 +1,29 @@
-import { Field, ObjectType } from '@nestjs/graphql'
+import { Field, Int, ObjectType } from '@nestjs/graphql'
 import {
 	Column,
 	CreateDateColumn,
 	Entity,
+	Index,
 	ManyToOne,
+	OneToMany,
 	PrimaryGeneratedColumn,
 	UpdateDateColumn,
 } from 'typeorm'
 import { Post } from '../../posts/entities/post.entity'
 import { User } from '../../users/entities/user.entity'
 
+// comments of a post are paginated by creation date
 @ObjectType()
 @Entity()
+@Index(['post', 'created_at'])
 export class Comment {
 	@Field()
 	@PrimaryGeneratedColumn('uuid')
 	id: string
 
+	// full-text search index, @see SearchIndexes migration
 	@Field()
+	@Index('comment_text_search_idx', { synchronize: false })
 	@Column('text')
 	text: string
 
@@ -33,6 +39,14 @@ export class Comment {
 	})
 	updated_at: Date
 
+	// when the author last changed the text, null if never edited
+	@Field({ nullable: true })
+	@Column({
+		type: 'timestamp with time zone',
+		nullable: true,
+	})
+	edited_at: Date
+
 	@Field((_) => User)
 	@ManyToOne((_) => User, (author: User) => author.comments)
 	author: User
@@ -42,4 +56,28 @@ export class Comment {
 		onDelete: 'CASCADE',
 	})
 	post: Post
+
+	/**
+	 * Comment this comment replies to, null for comments on the post.
+	 * Replies are removed along with the comment they reply to
+	 */
+	@Field((_) => Comment, { nullable: true })
+	@ManyToOne((_) => Comment, (comment: Comment) => comment.replies, {
+		nullable: true,
+		onDelete: 'CASCADE',
+	})
+	parent: Comment | null
+
+	@Field((_) => [Comment], { nullable: true })
+	@OneToMany((_) => Comment, (comment: Comment) => comment.parent)
+	replies: Comment[]
+
+	// nesting level of the comment, 0 for comments on the post
+	@Field(() => Int)
+	@Column({ type: 'int', default: 0 })
+	depth: number
+
+	// Count of direct replies, not a column, @see LoadersService
+	@Field(() => Int, { nullable: true })
+	replyCount: number
 }
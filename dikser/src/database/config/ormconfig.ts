@@ -18,6 +18,9 @@ const config: PostgresConnectionOptions = {
 	// __dirname is either dist or src folder, meaning either
 	// the compiled js in prod or the ts in dev.
 	migrations: ['dist/database/migrations/**/*.js'],
+
+	// migrations run right after synchronization, on every start
+	migrationsRun: true,
 	cli: {
 		// Location of migration should be inside src folder
 		// to be compiled into dist/ folder.
@@ -0,0 +1,27 @@
+import { MigrationInterface, QueryRunner } from 'typeorm'
+
+/**
+ * Full-text search indexes of post captions and comment texts.
+ * TypeORM could not synchronize GIN expression indexes,
+ * so they are created here and marked as synchronize: false in the entities.
+ * Expressions must be the same as the ones used by @see SearchService
+ */
+export class SearchIndexes1792337465808 implements MigrationInterface {
+	async up(queryRunner: QueryRunner): Promise<void> {
+		await queryRunner.query(
+			`CREATE INDEX IF NOT EXISTS "post_caption_search_idx" ON "post" USING GIN (to_tsvector('simple', "caption"))`
+		)
+		await queryRunner.query(
+			`CREATE INDEX IF NOT EXISTS "comment_text_search_idx" ON "comment" USING GIN (to_tsvector('simple', "text"))`
+		)
+	}
+
+	async down(queryRunner: QueryRunner): Promise<void> {
+		await queryRunner.query(
+			`DROP INDEX IF EXISTS "comment_text_search_idx"`
+		)
+		await queryRunner.query(
+			`DROP INDEX IF EXISTS "post_caption_search_idx"`
+		)
+	}
+}
@@ -0,0 +1,29 @@
+import { MigrationInterface, QueryRunner } from 'typeorm'
+
+/**
+ * Compute ranking scores of posts created before they existed,
+ * newer posts keep their scores up to date by themselves.
+ * Weights and decay must be the same as @see shared/utils/post-ranking.ts
+ */
+export class PostRankingScores1792400000000 implements MigrationInterface {
+	async up(queryRunner: QueryRunner): Promise<void> {
+		await queryRunner.query(
+			`UPDATE "post" SET "score" =
+				(SELECT COUNT(*) FROM "user_upvotes_post" WHERE "postId" = "post"."id")
+				- (SELECT COUNT(*) FROM "user_downvotes_post" WHERE "postId" = "post"."id")
+				+ 2 * (SELECT COUNT(*) FROM "comment" WHERE "postId" = "post"."id")
+				+ 0.1 * (SELECT COUNT(*) FROM "post_reachs_user" WHERE "postId" = "post"."id")`
+		)
+		await queryRunner.query(
+			`UPDATE "post" SET "hot_score" =
+				SIGN("score") * LOG(GREATEST(ABS("score"), 1))
+				+ EXTRACT(EPOCH FROM "created_at") / 45000`
+		)
+	}
+
+	async down(queryRunner: QueryRunner): Promise<void> {
+		await queryRunner.query(
+			`UPDATE "post" SET "score" = 0, "hot_score" = 0`
+		)
+	}
+}
@@ -0,0 +1,22 @@
+import { MigrationInterface, QueryRunner } from 'typeorm'
+
+/**
+ * Copy reachs of posts into post views, reachs are no longer written.
+ * When the post was seen was never recorded,
+ * so the creation date of the post stands for it.
+ */
+export class PostViews1792500000000 implements MigrationInterface {
+	async up(queryRunner: QueryRunner): Promise<void> {
+		await queryRunner.query(
+			`INSERT INTO "post_view" ("userId", "postId", "first_seen", "last_seen", "count")
+				SELECT "reach"."userId", "reach"."postId", "post"."created_at", "post"."created_at", 1
+				FROM "post_reachs_user" "reach"
+				INNER JOIN "post" ON "post"."id" = "reach"."postId"
+			ON CONFLICT ("userId", "postId") DO NOTHING`
+		)
+	}
+
+	async down(queryRunner: QueryRunner): Promise<void> {
+		await queryRunner.query(`DELETE FROM "post_view"`)
+	}
+}
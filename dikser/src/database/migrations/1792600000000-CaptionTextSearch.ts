@@ -0,0 +1,54 @@
+import { MigrationInterface, QueryRunner } from 'typeorm'
+import { captionToText } from '../../shared/utils/hashtags'
+
+// posts whose caption text is written by one query
+const BACKFILL_BATCH_SIZE = 500
+const NIL_UUID = '00000000-0000-0000-0000-000000000000'
+
+/**
+ * Search plain text of captions instead of the raw Draft.js content states,
+ * keys and styles of the blocks were matched and highlighted before.
+ * Newer posts write their caption text by themselves.
+ * Expression must be the same as the one used by @see SearchService
+ */
+export class CaptionTextSearch1792600000000 implements MigrationInterface {
+	async up(queryRunner: QueryRunner): Promise<void> {
+		await queryRunner.query(
+			`ALTER TABLE "post" ADD COLUMN IF NOT EXISTS "caption_text" text NOT NULL DEFAULT ''`
+		)
+
+		// posts are walked by their id, so each batch starts after the last one
+		let posts: { id: string; caption: string }[] = []
+		do {
+			posts = await queryRunner.query(
+				`SELECT "id", "caption" FROM "post"
+					WHERE "id" > $1 ORDER BY "id" LIMIT ${BACKFILL_BATCH_SIZE}`,
+				[posts.length ? posts[posts.length - 1].id : NIL_UUID]
+			)
+			for (const post of posts)
+				await queryRunner.query(
+					`UPDATE "post" SET "caption_text" = $1 WHERE "id" = $2`,
+					[captionToText(post.caption), post.id]
+				)
+		} while (posts.length)
+
+		await queryRunner.query(
+			`DROP INDEX IF EXISTS "post_caption_search_idx"`
+		)
+		await queryRunner.query(
+			`CREATE INDEX IF NOT EXISTS "post_caption_text_search_idx" ON "post" USING GIN (to_tsvector('simple', "caption_text"))`
+		)
+	}
+
+	async down(queryRunner: QueryRunner): Promise<void> {
+		await queryRunner.query(
+			`DROP INDEX IF EXISTS "post_caption_text_search_idx"`
+		)
+		await queryRunner.query(
+			`CREATE INDEX IF NOT EXISTS "post_caption_search_idx" ON "post" USING GIN (to_tsvector('simple', "caption"))`
+		)
+		await queryRunner.query(
+			`ALTER TABLE "post" DROP COLUMN IF EXISTS "caption_text"`
+		)
+	}
+}
@@ -0,0 +1,31 @@
+import { Module } from '@nestjs/common'
+import { TypeOrmModule } from '@nestjs/typeorm'
+import { Badge } from '../badges/entities/badge.entity'
+import { Bookmark } from '../bookmarks/entities/bookmark.entity'
+import { Comment } from '../comments/entities/comment.entity'
+import { Post } from '../posts/entities/post.entity'
+import { PostView } from '../posts/entities/post-view.entity'
+import { Reaction } from '../posts/entities/reaction.entity'
+import { PostsModule } from '../posts/posts.module'
+import { Relationship } from '../relationship/entities/relationship.entity'
+import { User } from '../users/entities/user.entity'
+import { LoadersService } from './loaders.service'
+
+@Module({
+	imports: [
+		TypeOrmModule.forFeature([
+			Post,
+			User,
+			Comment,
+			Relationship,
+			Badge,
+			Bookmark,
+			Reaction,
+			PostView,
+		]),
+		PostsModule,
+	],
+	providers: [LoadersService],
+	exports: [LoadersService],
+})
+export class LoadersModule {}
@@ -0,0 +1,154 @@
+import { Test, TestingModule } from '@nestjs/testing'
+import { getRepositoryToken } from '@nestjs/typeorm'
+import { Badge } from '../badges/entities/badge.entity'
+import { Bookmark } from '../bookmarks/entities/bookmark.entity'
+import { Comment } from '../comments/entities/comment.entity'
+import { Post } from '../posts/entities/post.entity'
+import { PostView } from '../posts/entities/post-view.entity'
+import { Reaction } from '../posts/entities/reaction.entity'
+import { PostPolicyService } from '../posts/post-policy.service'
+import { Relationship } from '../relationship/entities/relationship.entity'
+import { User } from '../users/entities/user.entity'
+import { LoadersService } from './loaders.service'
+
+describe('LoadersService', () => {
+	let service: LoadersService
+
+	// * Query Builder Mocking
+	const mockQueryBuilder: Record<string, any> = {
+		select: jest.fn(() => mockQueryBuilder),
+		loadRelationCountAndMap: jest.fn(() => mockQueryBuilder),
+		leftJoinAndSelect: jest.fn(() => mockQueryBuilder),
+		innerJoinAndSelect: jest.fn(() => mockQueryBuilder),
+		whereInIds: jest.fn(() => mockQueryBuilder),
+		where: jest.fn(() => mockQueryBuilder),
+		andWhere: jest.fn(() => mockQueryBuilder),
+		orderBy: jest.fn(() => mockQueryBuilder),
+		getMany: jest.fn(() =>
+			Promise.resolve([
+				{
+					id: 'first user id',
+					contents: [
+						{ id: 'public post id', type: 'public' },
+						{ id: 'private post id', type: 'private' },
+					],
+				},
+				{ id: 'second user id', contents: [] },
+			])
+		),
+	}
+
+	const mockRepository = {
+		createQueryBuilder: jest.fn(() => mockQueryBuilder),
+	}
+
+	const mockPostPolicyService = {
+		canList: jest.fn((post: Post) => post.type !== 'private'),
+	}
+
+	beforeEach(async () => {
+		const module: TestingModule = await Test.createTestingModule({
+			providers: [
+				LoadersService,
+				...[
+					Post,
+					User,
+					Comment,
+					Relationship,
+					Badge,
+					Bookmark,
+					Reaction,
+					PostView,
+				].map((entity) => ({
+					provide: getRepositoryToken(entity),
+					useValue: mockRepository,
+				})),
+				{
+					provide: PostPolicyService,
+					useValue: mockPostPolicyService,
+				},
+			],
+		}).compile()
+
+		service = module.get<LoadersService>(LoadersService)
+		jest.clearAllMocks()
+	})
+
+	it('should be defined', () => {
+		expect(service).toBeDefined()
+	})
+
+	it('should batch relations of many parents into one query', async () => {
+		const loaders = service.createLoaders()
+
+		const [first, second] = await Promise.all([
+			loaders.userContents.load('first user id'),
+			loaders.userContents.load('second user id'),
+		])
+
+		expect(mockQueryBuilder.getMany).toHaveBeenCalledTimes(1)
+		expect(mockQueryBuilder.whereInIds).toHaveBeenCalledWith([
+			'first user id',
+			'second user id',
+		])
+		expect(first).toEqual([{ id: 'public post id', type: 'public' }])
+		expect(second).toEqual([])
+	})
+
+	it('should not share cached values between requests', async () => {
+		await service.createLoaders().userContents.load('first user id')
+		await service.createLoaders().userContents.load('first user id')
+
+		expect(mockQueryBuilder.getMany).toHaveBeenCalledTimes(2)
+	})
+
+	it('should list pinned posts first on profiles', async () => {
+		await service.createLoaders().userContents.load('first user id')
+
+		expect(mockQueryBuilder.orderBy).toHaveBeenCalledWith({
+			'related.pinned_at': { order: 'ASC', nulls: 'NULLS LAST' },
+			'related.created_at': 'DESC',
+		})
+	})
+
+	it('should not count reposts in the trash', async () => {
+		mockQueryBuilder.getMany.mockImplementationOnce(() =>
+			Promise.resolve([{ id: 'post id', relationCount: 1 }])
+		)
+
+		expect(
+			await service.createLoaders().postRepostCount.load('post id')
+		).toEqual(1)
+
+		const [, relation, alias, where] =
+			mockQueryBuilder.loadRelationCountAndMap.mock.calls[0]
+		expect([relation, alias]).toEqual(['parent.reposts', 'related'])
+		where(mockQueryBuilder)
+		expect(mockQueryBuilder.andWhere).toHaveBeenCalledWith(
+			'related.deleted_at IS NULL'
+		)
+	})
+
+	it('should group pinned posts by their visible author', async () => {
+		mockQueryBuilder.getMany.mockImplementationOnce(() =>
+			Promise.resolve([
+				{ id: 'first post id', author: { id: 'first user id' } },
+				{
+					id: 'private post id',
+					type: 'private',
+					author: { id: 'first user id' },
+				},
+				{ id: 'second post id', author: { id: 'second user id' } },
+			])
+		)
+		const loaders = service.createLoaders()
+
+		const [first, second] = await Promise.all([
+			loaders.userPinnedPosts.load('first user id'),
+			loaders.userPinnedPosts.load('second user id'),
+		])
+
+		expect(first.map((post) => post.id)).toEqual(['first post id'])
+		expect(second.map((post) => post.id)).toEqual(['second post id'])
+	})
+})
@@ -0,0 +1,365 @@
+import { Injectable } from '@nestjs/common'
+import { InjectRepository } from '@nestjs/typeorm'
+import * as DataLoader from 'dataloader'
+import { Repository } from 'typeorm'
+import { Badge } from '../badges/entities/badge.entity'
+import { Bookmark } from '../bookmarks/entities/bookmark.entity'
+import { Comment } from '../comments/entities/comment.entity'
+import { Post } from '../posts/entities/post.entity'
+import { PostView } from '../posts/entities/post-view.entity'
+import { Reaction } from '../posts/entities/reaction.entity'
+import { ReactionCount } from '../posts/dto/reactions/reaction-count.dto'
+import { VoteDirection } from '../posts/dto/votes/vote-direction.enum'
+import { PostPolicyService } from '../posts/post-policy.service'
+import { Relationship } from '../relationship/entities/relationship.entity'
+import {
+	createCountLoader,
+	createRelationLoader,
+} from '../shared/utils/relation-loader'
+import { User } from '../users/entities/user.entity'
+
+export type DataLoaders = ReturnType<LoadersService['createLoaders']>
+
+@Injectable()
+export class LoadersService {
+	constructor(
+		@InjectRepository(Post)
+		private readonly postsRepository: Repository<Post>,
+		@InjectRepository(User)
+		private readonly usersRepository: Repository<User>,
+		@InjectRepository(Comment)
+		private readonly commentsRepository: Repository<Comment>,
+		@InjectRepository(Relationship)
+		private readonly relationshipRepository: Repository<Relationship>,
+		@InjectRepository(Badge)
+		private readonly badgesRepository: Repository<Badge>,
+		@InjectRepository(Bookmark)
+		private readonly bookmarksRepository: Repository<Bookmark>,
+		@InjectRepository(Reaction)
+		private readonly reactionsRepository: Repository<Reaction>,
+		@InjectRepository(PostView)
+		private readonly viewsRepository: Repository<PostView>,
+		private readonly postPolicy: PostPolicyService
+	) {}
+
+	/**
+	 * Create a fresh set of DataLoaders for every request,
+	 * so cached entities never leak between users.
+	 * @param userId current user, used to hide posts the user can not see
+	 */
+	createLoaders(userId?: string) {
+		// posts are joined with its author and partnership to apply the policy
+		const postJoins: [string, string][] = [
+			['related.author', 'author'],
+			['related.relationship', 'relationship'],
+			['relationship.partnership', 'partnership'],
+		]
+		const isPostVisible = (post: Post) =>
+			this.postPolicy.canList(post, userId)
+		const isPostReadable = (post: Post) =>
+			this.postPolicy.canView(post, userId)
+		const isCommentVisible = (comment: Comment) =>
+			this.postPolicy.canList(comment.post, userId)
+
+		return {
+			// Post relations
+			postAuthor: createRelationLoader(this.postsRepository, 'author'),
+			postAttachments: createRelationLoader(
+				this.postsRepository,
+				'attachments'
+			),
+			postMedia: createRelationLoader(this.postsRepository, 'media'),
+			postRelationship: createRelationLoader(
+				this.postsRepository,
+				'relationship'
+			),
+			postComments: createRelationLoader(
+				this.postsRepository,
+				'comments'
+			),
+			postUpvoter: createRelationLoader(this.postsRepository, 'upvoter'),
+			postDownvoter: createRelationLoader(
+				this.postsRepository,
+				'downvoter'
+			),
+			// Viewers of each post, the first viewer first
+			postReachs: new DataLoader<string, User[]>(async (ids) => {
+				const views = await this.viewsRepository
+					.createQueryBuilder('view')
+					.innerJoinAndSelect('view.user', 'user')
+					.innerJoin('view.post', 'post')
+					.addSelect('post.id')
+					.where('post.id IN (:...ids)', { ids })
+					.orderBy('view.first_seen', 'ASC')
+					.getMany()
+
+				return ids.map((id) =>
+					views
+						.filter((view) => view.post.id === id)
+						.map((view) => view.user)
+				)
+			}),
+			postRevisions: createRelationLoader(
+				this.postsRepository,
+				'revisions'
+			),
+			postTags: createRelationLoader(this.postsRepository, 'tags'),
+			postOriginal: createRelationLoader(
+				this.postsRepository,
+				'original',
+				{ joins: postJoins, filter: isPostReadable }
+			),
+
+			/**
+			 * Aggregated values of posts which were not queried
+			 * through PostsService.withCounts, e.g profile posts
+			 */
+			postUpvoteCount: createCountLoader(this.postsRepository, 'upvoter'),
+			postDownvoteCount: createCountLoader(
+				this.postsRepository,
+				'downvoter'
+			),
+			postReachCount: createCountLoader(this.postsRepository, 'views'),
+			postCommentCount: createCountLoader(
+				this.postsRepository,
+				'comments'
+			),
+			postRepostCount: createCountLoader(
+				this.postsRepository,
+				'reposts',
+				(reposts) => reposts.andWhere('related.deleted_at IS NULL')
+			),
+			postMyVote: new DataLoader<string, VoteDirection | null>(
+				async (ids) => {
+					if (!userId) return ids.map(() => null)
+
+					const [upvoted, downvoted] = await Promise.all(
+						['upvoter', 'downvoter'].map((relation) =>
+							this.postsRepository
+								.createQueryBuilder('post')
+								.select('post.id')
+								.innerJoin(
+									`post.${relation}`,
+									'voter',
+									'voter.id = :userId',
+									{ userId }
+								)
+								.whereInIds(ids as string[])
+								.getMany()
+						)
+					)
+
+					return ids.map((id) =>
+						upvoted.some((post) => post.id === id)
+							? VoteDirection.UP
+							: downvoted.some((post) => post.id === id)
+							? VoteDirection.DOWN
+							: VoteDirection.NONE
+					)
+				}
+			),
+
+			// Reactions grouped by emoji, most used emoji first
+			postReactionCounts: new DataLoader<string, ReactionCount[]>(
+				async (ids) => {
+					const rows = await this.reactionsRepository
+						.createQueryBuilder('reaction')
+						.select('reaction.post', 'postId')
+						.addSelect('reaction.emoji', 'emoji')
+						.addSelect('COUNT(reaction.id)', 'count')
+						.where('reaction.post IN (:...ids)', { ids })
+						.groupBy('reaction.post')
+						.addGroupBy('reaction.emoji')
+						.orderBy('"count"', 'DESC')
+						.getRawMany()
+
+					return ids.map((id) =>
+						rows
+							.filter((row) => row.postId === id)
+							.map(
+								(row) =>
+									new ReactionCount(
+										row.emoji,
+										Number(row.count)
+									)
+							)
+					)
+				}
+			),
+			postMyReaction: new DataLoader<string, string | null>(
+				async (ids) => {
+					if (!userId) return ids.map(() => null)
+
+					const reactions = await this.reactionsRepository
+						.createQueryBuilder('reaction')
+						.innerJoin('reaction.post', 'post')
+						.select(['reaction.id', 'reaction.emoji', 'post.id'])
+						.where('reaction.user = :userId', { userId })
+						.andWhere('post.id IN (:...ids)', { ids })
+						.getMany()
+
+					return ids.map(
+						(id) =>
+							reactions.find(
+								(reaction) => reaction.post.id === id
+							)?.emoji ?? null
+					)
+				}
+			),
+
+			// Bookmarks of the current user among the given posts
+			postIsBookmarked: new DataLoader<string, boolean | null>(
+				async (ids) => {
+					if (!userId) return ids.map(() => null)
+
+					const bookmarks = await this.bookmarksRepository
+						.createQueryBuilder('bookmark')
+						.innerJoin('bookmark.post', 'post')
+						.select(['bookmark.id', 'post.id'])
+						.where('bookmark.user = :userId', { userId })
+						.andWhere('post.id IN (:...ids)', { ids })
+						.getMany()
+
+					return ids.map((id) =>
+						bookmarks.some((bookmark) => bookmark.post.id === id)
+					)
+				}
+			),
+
+			// User relations
+			// profile feed, pinned posts first in pin order then the newest
+			userContents: createRelationLoader(
+				this.usersRepository,
+				'contents',
+				{
+					joins: postJoins,
+					filter: isPostVisible,
+					orderBy: {
+						'related.pinned_at': {
+							order: 'ASC',
+							nulls: 'NULLS LAST',
+						},
+						'related.created_at': 'DESC',
+					},
+				}
+			),
+			userComments: createRelationLoader(
+				this.usersRepository,
+				'comments',
+				{
+					joins: [
+						['related.post', 'post'],
+						['post.author', 'author'],
+						['post.relationship', 'relationship'],
+						['relationship.partnership', 'partnership'],
+					],
+					filter: isCommentVisible,
+				}
+			),
+			userUpvotes: createRelationLoader(this.usersRepository, 'upvotes', {
+				joins: postJoins,
+				filter: isPostVisible,
+			}),
+			userDownvotes: createRelationLoader(
+				this.usersRepository,
+				'downvotes',
+				{ joins: postJoins, filter: isPostVisible }
+			),
+			userRelationship: createRelationLoader(
+				this.usersRepository,
+				'relationship'
+			),
+			userBadges: createRelationLoader(this.usersRepository, 'badges'),
+
+			// only the few pinned posts are loaded, not the whole profile
+			userPinnedPosts: new DataLoader<string, Post[]>(async (ids) => {
+				const posts = await this.postsRepository
+					.createQueryBuilder('post')
+					.innerJoinAndSelect('post.author', 'author')
+					.leftJoinAndSelect('post.relationship', 'relationship')
+					.leftJoinAndSelect(
+						'relationship.partnership',
+						'partnership'
+					)
+					.where('author.id IN (:...ids)', { ids })
+					.andWhere('post.pinned_at IS NOT NULL')
+					.orderBy('post.pinned_at', 'ASC')
+					.getMany()
+
+				return ids.map((id) =>
+					posts.filter(
+						(post) => post.author.id === id && isPostVisible(post)
+					)
+				)
+			}),
+
+			/**
+			 * Viewed posts has no inverse relation on User,
+			 * so it is loaded from post views instead
+			 */
+			userViewed: new DataLoader<string, Post[]>(async (ids) => {
+				const posts = await this.postsRepository
+					.createQueryBuilder('post')
+					.innerJoinAndSelect(
+						'post.views',
+						'view',
+						'view.user IN (:...ids)',
+						{
+							ids,
+						}
+					)
+					.leftJoinAndSelect('view.user', 'viewer')
+					.getMany()
+
+				return ids.map((id) =>
+					posts.filter((post) =>
+						post.views.some((view) => view.user.id === id)
+					)
+				)
+			}),
+
+			// Comment relations
+			commentAuthor: createRelationLoader(
+				this.commentsRepository,
+				'author'
+			),
+			commentPost: createRelationLoader(this.commentsRepository, 'post'),
+			commentParent: createRelationLoader(
+				this.commentsRepository,
+				'parent'
+			),
+			commentReplies: createRelationLoader(
+				this.commentsRepository,
+				'replies',
+				{ orderBy: { 'related.created_at': 'ASC' } }
+			),
+			commentReplyCount: new DataLoader<string, number>(async (ids) => {
+				const rows = await this.commentsRepository
+					.createQueryBuilder('comment')
+					.select('comment.parent', 'parentId')
+					.addSelect('COUNT(comment.id)', 'count')
+					.where('comment.parent IN (:...ids)', { ids })
+					.groupBy('comment.parent')
+					.getRawMany()
+
+				return ids.map((id) =>
+					Number(rows.find((row) => row.parentId === id)?.count ?? 0)
+				)
+			}),
+
+			// Relationship relations
+			relationshipPartnership: createRelationLoader(
+				this.relationshipRepository,
+				'partnership'
+			),
+			relationshipPosts: createRelationLoader(
+				this.relationshipRepository,
+				'posts',
+				{ joins: postJoins, filter: isPostVisible }
+			),
+
+			// Badge relations
+			badgeOwners: createRelationLoader(this.badgesRepository, 'owners'),
+		}
+	}
+}
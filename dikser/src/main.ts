@@ -4,14 +4,13 @@ dotenv.config()
 import { NestFactory } from '@nestjs/core'
 import { AppModule } from './app.module'
 import { ValidationPipe } from '@nestjs/common'
-import * as session from 'express-session'
 import * as passport from 'passport'
-import * as redis from 'redis'
-import * as connectRedis from 'connect-redis'
-import { Client } from 'connect-redis'
+import { NestExpressApplication } from '@nestjs/platform-express'
+import { LocalDiskStorageDriver } from './uploads/storage/local-disk.storage-driver'
+import { configureSession } from './shared/utils/session'
 
 async function bootstrap() {
-	const app = await NestFactory.create(AppModule)
+	const app = await NestFactory.create<NestExpressApplication>(AppModule)
 	/**
 	 * @Use global validation pipes
 	 * to takes advantage of validation pipe
@@ -24,41 +23,20 @@ async function bootstrap() {
 		allowedHeaders: ['Content-Type', 'key'],
 	})
 
-	// Redis config
-	const REDIS_URI = process.env.REDIS_TLS_URL
-	const redisClient = redis.createClient({
-		url: REDIS_URI,
-		tls:
-			process.env.NODE_ENV === 'production'
-				? {
-						rejectUnauthorized: false,
-				  }
-				: false,
-	})
-	const RedisStore = connectRedis(session)
-
 	// Express session config
-	app.use(
-		session({
-			cookie: {
-				domain: process.env.TOP_DOMAIN_CLIENT_ORIGIN! || undefined,
-				maxAge: 86400000, // 1 day
-				secure: process.env.NODE_ENV === 'production', // transmit only over https
-				httpOnly: true, // prevent client JS reading the cookie
-				sameSite: 'lax',
-			},
-			proxy: true,
-			secret: process.env.SESSION_KEY!,
-			resave: false,
-			saveUninitialized: false,
-			store: new RedisStore({
-				client: redisClient as Client,
-			}),
-		})
-	)
+	app.use(configureSession())
 	app.use(passport.initialize())
 	app.use(passport.session())
 
+	/**
+	 * Serve files uploaded to the local disk storage,
+	 * browsers must not guess any other type than the stored one
+	 */
+	app.useStaticAssets(LocalDiskStorageDriver.directory, {
+		prefix: '/uploads',
+		setHeaders: (res) => res.setHeader('X-Content-Type-Options', 'nosniff'),
+	})
+
 	await app.listen(process.env.PORT || 3000)
 }
 bootstrap()
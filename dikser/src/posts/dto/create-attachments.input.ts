@@ -1,15 +1,41 @@
 import { Field, InputType } from '@nestjs/graphql'
-import { ArrayNotEmpty, IsIn, IsOptional } from 'class-validator'
+import { Type } from 'class-transformer'
+import {
+	ArrayMaxSize,
+	ArrayNotEmpty,
+	IsIn,
+	IsNotEmpty,
+	IsOptional,
+	ValidateIf,
+	ValidateNested,
+} from 'class-validator'
+import { CreateMediaItemInput } from './create-media-item.input'
 
 @InputType()
 export class CreateAttachmentInput {
-	@Field()
+	/**
+	 * @deprecated single type and list of uri,
+	 * kept for clients which have not moved to @media yet.
+	 * Attachments could not be stored without their type,
+	 * so it is required along with @uri
+	 */
+	@Field({ nullable: true })
+	@ValidateIf((input: CreateAttachmentInput) => !!input.uri)
+	@IsNotEmpty()
 	@IsIn(['image', 'video', 'audio'])
+	type?: string
+
+	@Field((_) => [String], { nullable: true })
 	@IsOptional()
-	type: string
+	@ArrayNotEmpty()
+	uri?: string[]
 
-	@Field((_) => [String])
+	// ordered media of the post, position follows the order of the list
+	@Field((_) => [CreateMediaItemInput], { nullable: true })
 	@IsOptional()
 	@ArrayNotEmpty()
-	uri: string[]
+	@ArrayMaxSize(10)
+	@ValidateNested({ each: true })
+	@Type(() => CreateMediaItemInput)
+	media?: CreateMediaItemInput[]
 }
@@ -0,0 +1,56 @@
+import { Field, Float, InputType, Int } from '@nestjs/graphql'
+import {
+	IsIn,
+	IsInt,
+	IsOptional,
+	IsPositive,
+	IsString,
+	IsUrl,
+	Matches,
+	MaxLength,
+} from 'class-validator'
+
+@InputType()
+export class CreateMediaItemInput {
+	@Field()
+	@IsIn(['image', 'video', 'audio'])
+	type: string
+
+	@Field()
+	@IsUrl({ require_protocol: true, require_tld: false })
+	uri: string
+
+	@Field({ nullable: true })
+	@Matches(/^(image|video|audio)\/[\w.+-]+$/)
+	@IsOptional()
+	mime?: string
+
+	@Field(() => Int, { nullable: true })
+	@IsInt()
+	@IsPositive()
+	@IsOptional()
+	width?: number
+
+	@Field(() => Int, { nullable: true })
+	@IsInt()
+	@IsPositive()
+	@IsOptional()
+	height?: number
+
+	@Field(() => Float, { nullable: true })
+	@IsPositive()
+	@IsOptional()
+	duration?: number
+
+	@Field({ nullable: true })
+	@IsString()
+	@MaxLength(1000)
+	@IsOptional()
+	alt?: string
+
+	@Field({ nullable: true })
+	@IsString()
+	@MaxLength(100)
+	@IsOptional()
+	blurhash?: string
+}
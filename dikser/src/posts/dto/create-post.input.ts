@@ -1,5 +1,6 @@
 import { InputType, Field } from '@nestjs/graphql'
-import { IsIn, IsString } from 'class-validator'
+import { IsDate, IsIn, IsOptional, IsString } from 'class-validator'
+import { POST_VISIBILITIES } from '../post-policy.service'
 
 @InputType()
 export class CreatePostInput {
@@ -7,7 +8,14 @@ export class CreatePostInput {
 	@IsString()
 	caption: string
 
+	// visibility of the post, @see POST_VISIBILITIES
 	@Field()
-	@IsIn(['public', 'private'])
+	@IsIn(POST_VISIBILITIES)
 	type: string
+
+	// when provided, the post stays hidden until this time
+	@Field({ nullable: true })
+	@IsOptional()
+	@IsDate()
+	publish_at?: Date
 }
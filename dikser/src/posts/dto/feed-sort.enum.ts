@@ -0,0 +1,35 @@
+import { registerEnumType } from '@nestjs/graphql'
+
+export enum FeedSort {
+	NEW = 'NEW',
+	HOT = 'HOT',
+	TOP = 'TOP',
+}
+
+registerEnumType(FeedSort, {
+	name: 'FeedSort',
+	description:
+		'Order of feeds, NEW is the newest first, HOT favours recent popular posts and TOP is the most popular within a time window',
+})
+
+export enum TopWindow {
+	DAY = 'DAY',
+	WEEK = 'WEEK',
+	MONTH = 'MONTH',
+	YEAR = 'YEAR',
+	ALL = 'ALL',
+}
+
+registerEnumType(TopWindow, {
+	name: 'TopWindow',
+	description: 'How far back TOP feeds look for posts',
+})
+
+// length of each window in days, ALL has no limit
+export const TOP_WINDOW_DAYS: Record<TopWindow, number | undefined> = {
+	[TopWindow.DAY]: 1,
+	[TopWindow.WEEK]: 7,
+	[TopWindow.MONTH]: 30,
+	[TopWindow.YEAR]: 365,
+	[TopWindow.ALL]: undefined,
+}
@@ -0,0 +1,18 @@
+import { ArgsType, Field } from '@nestjs/graphql'
+import { IsEnum, IsOptional } from 'class-validator'
+import { PaginationArgs } from '../../shared/dto/pagination.args'
+import { FeedSort, TopWindow } from './feed-sort.enum'
+
+@ArgsType()
+export class FeedArgs extends PaginationArgs {
+	@Field(() => FeedSort, { defaultValue: FeedSort.NEW })
+	@IsEnum(FeedSort)
+	@IsOptional()
+	sort?: FeedSort = FeedSort.NEW
+
+	// only used by TOP feeds
+	@Field(() => TopWindow, { defaultValue: TopWindow.WEEK })
+	@IsEnum(TopWindow)
+	@IsOptional()
+	window?: TopWindow = TopWindow.WEEK
+}
@@ -0,0 +1,6 @@
+import { ObjectType } from '@nestjs/graphql'
+import { Paginated } from '../../shared/dto/paginated.dto'
+import { Post } from '../entities/post.entity'
+
+@ObjectType()
+export class PaginatedPosts extends Paginated(Post) {}
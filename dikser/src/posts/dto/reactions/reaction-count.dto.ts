@@ -0,0 +1,15 @@
+import { Field, Int, ObjectType } from '@nestjs/graphql'
+
+@ObjectType()
+export class ReactionCount {
+	constructor(emoji: string, count: number) {
+		this.emoji = emoji
+		this.count = count
+	}
+
+	@Field()
+	emoji: string
+
+	@Field(() => Int)
+	count: number
+}
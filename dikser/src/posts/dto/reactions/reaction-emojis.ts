@@ -0,0 +1,15 @@
+// Emojis a post could be reacted with, unless REACTION_EMOJIS is set
+export const DEFAULT_REACTION_EMOJIS = ['❤️', '😂', '😮', '😢', '🥰', '🙏']
+
+/**
+ * Emojis allowed on reactions, configured as a comma separated list,
+ * e.g REACTION_EMOJIS=❤️,😂,😢
+ */
+export function reactionEmojis() {
+	const configured = (process.env.REACTION_EMOJIS ?? '')
+		.split(',')
+		.map((emoji) => emoji.trim())
+		.filter(Boolean)
+
+	return configured.length ? configured : DEFAULT_REACTION_EMOJIS
+}
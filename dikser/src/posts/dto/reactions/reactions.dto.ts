@@ -0,0 +1,17 @@
+import { Field, ObjectType } from '@nestjs/graphql'
+import { ReactionCount } from './reaction-count.dto'
+
+@ObjectType()
+export class ReactionsDTO {
+	constructor(postId: string, reactions: ReactionCount[]) {
+		this.postId = postId
+		this.reactions = reactions
+	}
+
+	@Field()
+	postId: string
+
+	// most used emoji first
+	@Field(() => [ReactionCount])
+	reactions: ReactionCount[]
+}
@@ -1,9 +1,12 @@
 import { CreatePostInput } from './create-post.input'
-import { InputType, Field, PartialType } from '@nestjs/graphql'
+import { InputType, Field, OmitType, PartialType } from '@nestjs/graphql'
 import { IsUUID } from 'class-validator'
 
 @InputType()
-export class UpdatePostInput extends PartialType(CreatePostInput) {
+export class UpdatePostInput extends PartialType(
+	// scheduled time is changed with reschedulePost instead
+	OmitType(CreatePostInput, ['publish_at'] as const)
+) {
 	@Field()
 	@IsUUID('all')
 	id: string
@@ -0,0 +1,29 @@
+import { Field, Int, ObjectType } from '@nestjs/graphql'
+
+/**
+ * Views of a post within one interval,
+ * intervals without any view are left out
+ */
+@ObjectType()
+export class PostViewStat {
+	constructor(date: Date, viewers: number, views: number) {
+		this.date = date
+		this.viewers = viewers
+		this.views = views
+	}
+
+	// start of the interval
+	@Field()
+	date: Date
+
+	// users who saw the post for the first time within the interval
+	@Field(() => Int)
+	viewers: number
+
+	/**
+	 * every view within the interval, including returning viewers.
+	 * A user is counted again once the dedupe window has passed
+	 */
+	@Field(() => Int)
+	views: number
+}
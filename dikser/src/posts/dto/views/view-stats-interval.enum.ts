@@ -0,0 +1,13 @@
+import { registerEnumType } from '@nestjs/graphql'
+
+export enum ViewStatsInterval {
+	HOUR = 'HOUR',
+	DAY = 'DAY',
+	WEEK = 'WEEK',
+	MONTH = 'MONTH',
+}
+
+registerEnumType(ViewStatsInterval, {
+	name: 'ViewStatsInterval',
+	description: 'Length of each bucket of post view stats',
+})
@@ -0,0 +1,12 @@
+import { registerEnumType } from '@nestjs/graphql'
+
+export enum VoteDirection {
+	UP = 'UP',
+	DOWN = 'DOWN',
+	NONE = 'NONE',
+}
+
+registerEnumType(VoteDirection, {
+	name: 'VoteDirection',
+	description: 'Vote of a user to a post, NONE means no vote at all',
+})
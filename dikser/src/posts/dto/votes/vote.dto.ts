@@ -0,0 +1,19 @@
+import { Field, Int, ObjectType } from '@nestjs/graphql'
+
+@ObjectType()
+export class VoteDTO {
+	constructor(postId: string, upvotes: number, downvotes: number) {
+		this.postId = postId
+		this.upvotes = upvotes
+		this.downvotes = downvotes
+	}
+
+	@Field()
+	postId: string
+
+	@Field(() => Int)
+	upvotes: number
+
+	@Field(() => Int)
+	downvotes: number
+}
@@ -0,0 +1,88 @@
+import { Field, Float, Int, ObjectType } from '@nestjs/graphql'
+import {
+	Column,
+	CreateDateColumn,
+	Entity,
+	ManyToOne,
+	PrimaryGeneratedColumn,
+} from 'typeorm'
+import { Post } from './post.entity'
+
+/**
+ * One image, video or audio of a post,
+ * a post could have many of them ordered by @position
+ */
+@ObjectType()
+@Entity()
+export class MediaItem {
+	@Field()
+	@PrimaryGeneratedColumn('uuid')
+	id: string
+
+	@Field()
+	@Column()
+	type: string
+
+	@Field()
+	@Column('text')
+	uri: string
+
+	@Field({ nullable: true })
+	@Column({ nullable: true })
+	mime: string
+
+	@Field(() => Int, { nullable: true })
+	@Column('int', { nullable: true })
+	width: number
+
+	@Field(() => Int, { nullable: true })
+	@Column('int', { nullable: true })
+	height: number
+
+	// length of video or audio in seconds
+	@Field(() => Float, { nullable: true })
+	@Column('float', { nullable: true })
+	duration: number
+
+	@Field({ nullable: true })
+	@Column('text', { nullable: true })
+	alt: string
+
+	// index of the item in the post, starts from 0
+	@Field(() => Int)
+	@Column('int', { default: 0 })
+	position: number
+
+	// compact placeholder shown while the media is loading
+	@Field({ nullable: true })
+	@Column({ nullable: true })
+	blurhash: string
+
+	/**
+	 * Smaller renditions of an image,
+	 * available once the image has been processed
+	 * @see queues/consumers/media-queue.consumer.ts
+	 */
+	@Field({ nullable: true })
+	@Column('text', { nullable: true })
+	thumbnail_uri: string
+
+	@Field({ nullable: true })
+	@Column('text', { nullable: true })
+	medium_uri: string
+
+	@Field()
+	@Column({ default: false })
+	processed: boolean
+
+	@Field({ nullable: true })
+	@CreateDateColumn({
+		type: 'timestamp with time zone',
+	})
+	created_at: Date
+
+	@ManyToOne((_) => Post, (post: Post) => post.media, {
+		onDelete: 'CASCADE',
+	})
+	post: Post
+}
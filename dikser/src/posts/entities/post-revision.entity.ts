@@ -0,0 +1,40 @@
+import { Field, ObjectType } from '@nestjs/graphql'
+import {
+	Column,
+	CreateDateColumn,
+	Entity,
+	ManyToOne,
+	PrimaryGeneratedColumn,
+} from 'typeorm'
+import { Post } from './post.entity'
+
+/**
+ * Snapshot of a post before it was edited,
+ * one revision is recorded on every update.
+ */
+@ObjectType()
+@Entity()
+export class PostRevision {
+	@Field()
+	@PrimaryGeneratedColumn('uuid')
+	id: string
+
+	@Field()
+	@Column('text')
+	caption: string
+
+	@Field({ nullable: true })
+	@Column({ nullable: true })
+	type: string
+
+	@Field({ nullable: true })
+	@CreateDateColumn({
+		type: 'timestamp with time zone',
+	})
+	created_at: Date
+
+	@ManyToOne((_) => Post, (post: Post) => post.revisions, {
+		onDelete: 'CASCADE',
+	})
+	post: Post
+}
@@ -0,0 +1,33 @@
+import {
+	Column,
+	Entity,
+	ManyToOne,
+	PrimaryGeneratedColumn,
+	Unique,
+} from 'typeorm'
+import { Post } from './post.entity'
+
+/**
+ * Views of a post within one hour, one row per post and hour.
+ * Written along with @see PostView by the same batches,
+ * view stats of every interval are added up from these rows.
+ * Views before these rows existed were never recorded by time
+ */
+@Entity()
+@Unique(['post', 'hour'])
+export class PostViewBucket {
+	@PrimaryGeneratedColumn('uuid')
+	id: string
+
+	// start of the hour
+	@Column({ type: 'timestamp with time zone' })
+	hour: Date
+
+	@Column({ type: 'int', default: 0 })
+	count: number
+
+	@ManyToOne((_) => Post, {
+		onDelete: 'CASCADE',
+	})
+	post: Post
+}
@@ -0,0 +1,44 @@
+import {
+	Column,
+	Entity,
+	Index,
+	ManyToOne,
+	PrimaryGeneratedColumn,
+	Unique,
+} from 'typeorm'
+import { User } from '../../users/entities/user.entity'
+import { Post } from './post.entity'
+
+/**
+ * Views of a post by a user, one row per viewer.
+ * Rows are never written one view at a time,
+ * views are buffered in redis and upserted in batches
+ * @see queues/producers/posts-queue.producer.ts
+ */
+@Entity()
+@Unique(['user', 'post'])
+@Index(['post', 'first_seen'])
+export class PostView {
+	@PrimaryGeneratedColumn('uuid')
+	id: string
+
+	@Column({ type: 'timestamp with time zone' })
+	first_seen: Date
+
+	@Column({ type: 'timestamp with time zone' })
+	last_seen: Date
+
+	// how many times the user has seen the post
+	@Column({ type: 'int', default: 1 })
+	count: number
+
+	@ManyToOne((_) => User, {
+		onDelete: 'CASCADE',
+	})
+	user: User
+
+	@ManyToOne((_) => Post, (post: Post) => post.views, {
+		onDelete: 'CASCADE',
+	})
+	post: Post
+}
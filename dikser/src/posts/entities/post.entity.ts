@@ -1,8 +1,10 @@
-import { ObjectType, Field } from '@nestjs/graphql'
+import { ObjectType, Field, Int } from '@nestjs/graphql'
 import {
 	Column,
 	CreateDateColumn,
+	DeleteDateColumn,
 	Entity,
+	Index,
 	JoinColumn,
 	JoinTable,
 	ManyToMany,
@@ -14,8 +16,16 @@ import {
 } from 'typeorm'
 import { Comment } from '../../comments/entities/comment.entity'
 import { Relationship } from '../../relationship/entities/relationship.entity'
+import { Tag } from '../../tags/entities/tag.entity'
 import { User } from '../../users/entities/user.entity'
+import { ReactionCount } from '../dto/reactions/reaction-count.dto'
+import { VoteDirection } from '../dto/votes/vote-direction.enum'
+import { HOT_DECAY_SECONDS } from '../../shared/utils/post-ranking'
 import { Attachments } from './attachments.entity'
+import { MediaItem } from './media-item.entity'
+import { PostRevision } from './post-revision.entity'
+import { PostView } from './post-view.entity'
+import { Reaction } from './reaction.entity'
 
 @ObjectType()
 @Entity()
@@ -28,10 +38,76 @@ export class Post {
 	@Column('text')
 	caption: string
 
+	/**
+	 * Plain text of the caption, rich text captions are raw Draft.js
+	 * content states so only the text of their blocks is searched.
+	 * Full-text search index, @see CaptionTextSearch migration
+	 */
+	@Index('post_caption_text_search_idx', { synchronize: false })
+	@Column('text', { default: '', select: false })
+	caption_text: string
+
 	@Field({ nullable: true })
 	@Column({ nullable: true, default: 'public' })
 	type: string
 
+	// true once the post has been updated after creation
+	@Field()
+	@Column({ default: false })
+	edited: boolean
+
+	/**
+	 * Scheduled post is hidden from everyone
+	 * until it is published at @publish_at
+	 * @see queues/consumers/posts-queue.consumer.ts
+	 */
+	@Field()
+	@Column({ default: false })
+	scheduled: boolean
+
+	@Field({ nullable: true })
+	@Column({
+		type: 'timestamp with time zone',
+		nullable: true,
+	})
+	publish_at: Date
+
+	/**
+	 * Set when the author pins the post on their profile,
+	 * pinned posts are ordered by it, @see PostsService.pin
+	 */
+	@Field({ nullable: true })
+	@Column({
+		type: 'timestamp with time zone',
+		nullable: true,
+	})
+	pinned_at: Date
+
+	/**
+	 * Ranking scores of TOP and HOT feeds,
+	 * stored so feeds could be ordered and paginated by them.
+	 * Refreshed whenever the interactions of the post change
+	 * @see shared/utils/post-ranking.ts
+	 */
+	@Index()
+	@Column('double precision', { default: 0 })
+	score: number
+
+	// new posts start from the hot score of a post without interactions
+	@Index()
+	@Column('double precision', {
+		default: () => `EXTRACT(EPOCH FROM now()) / ${HOT_DECAY_SECONDS}`,
+	})
+	hot_score: number
+
+	/**
+	 * True when the post shares another post, @see original.
+	 * Plain repost has an empty caption, while quote post has its own
+	 */
+	@Field()
+	@Column({ default: false })
+	repost: boolean
+
 	@Field(() => [User], { nullable: true })
 	@ManyToMany((_) => User, (upvoter: User) => upvoter.upvotes, {
 		onDelete: 'CASCADE',
@@ -44,6 +120,11 @@ export class Post {
 	})
 	downvoter: User[]
 
+	/**
+	 * Users who have seen the post, resolved from @views.
+	 * The join table is no longer written,
+	 * its rows were copied into views by the PostViews migration
+	 */
 	@Field(() => [User], { nullable: true })
 	@ManyToMany((_) => User)
 	@JoinTable()
@@ -61,6 +142,17 @@ export class Post {
 	})
 	updated_at: Date
 
+	/**
+	 * Set when the post is moved to trash,
+	 * trashed post is hidden from every query until it is restored
+	 * @see queues/consumers/posts-queue.consumer.ts for the purge
+	 */
+	@Field({ nullable: true })
+	@DeleteDateColumn({
+		type: 'timestamp with time zone',
+	})
+	deleted_at: Date
+
 	@Field((_) => User)
 	@ManyToOne((_) => User, (author: User) => author.contents, {
 		onDelete: 'CASCADE',
@@ -72,6 +164,13 @@ export class Post {
 	@JoinColumn()
 	attachments: Attachments
 
+	// Ordered media of the post, @see MediaItem
+	@Field((_) => [MediaItem], { nullable: true })
+	@OneToMany((_) => MediaItem, (item: MediaItem) => item.post, {
+		cascade: ['insert'],
+	})
+	media: MediaItem[]
+
 	// Relation table with partner relationship
 	@Field((_) => Relationship, { nullable: true })
 	@ManyToOne(
@@ -83,8 +182,76 @@ export class Post {
 	)
 	relationship: Relationship
 
+	/**
+	 * Post shared by a repost,
+	 * resolved as null once the reader could not see it anymore
+	 */
+	@Field((_) => Post, { nullable: true })
+	@ManyToOne((_) => Post, (post: Post) => post.reposts, {
+		onDelete: 'SET NULL',
+	})
+	original: Post
+
+	@OneToMany((_) => Post, (post: Post) => post.original)
+	reposts: Post[]
+
 	// Comment relations
 	@Field((_) => [Comment], { nullable: true })
 	@OneToMany((_) => Comment, (comments: Comment) => comments.post)
 	comments: Comment[]
+
+	// Emoji reactions, counted by emoji in @reactionCounts
+	@OneToMany((_) => Reaction, (reaction: Reaction) => reaction.post)
+	reactions: Reaction[]
+
+	// One row per viewer, counted in @reachCount
+	@OneToMany((_) => PostView, (view: PostView) => view.post)
+	views: PostView[]
+
+	// #tags written in the caption
+	@Field((_) => [Tag], { nullable: true })
+	@ManyToMany((_) => Tag, (tag: Tag) => tag.posts)
+	@JoinTable()
+	tags: Tag[]
+
+	// Previous versions of the post, @see PostRevision
+	@Field((_) => [PostRevision], { nullable: true })
+	@OneToMany((_) => PostRevision, (revision: PostRevision) => revision.post)
+	revisions: PostRevision[]
+
+	/**
+	 * Aggregated values, these are not columns,
+	 * they are counted with grouped SQL when the post is queried
+	 * @see PostsService.withCounts
+	 */
+	@Field(() => Int, { nullable: true })
+	upvoteCount: number
+
+	@Field(() => Int, { nullable: true })
+	downvoteCount: number
+
+	@Field(() => Int, { nullable: true })
+	reachCount: number
+
+	@Field(() => Int, { nullable: true })
+	commentCount: number
+
+	@Field(() => Int, { nullable: true })
+	repostCount: number
+
+	// most used emoji first
+	@Field(() => [ReactionCount], { nullable: true })
+	reactionCounts: ReactionCount[]
+
+	// Vote of the current user, null when not logged in
+	@Field(() => VoteDirection, { nullable: true })
+	myVote: VoteDirection
+
+	// Reaction emoji of the current user, null when not reacted
+	@Field({ nullable: true })
+	myReaction: string
+
+	// Whether the current user saved the post, null when not logged in
+	@Field({ nullable: true })
+	isBookmarked: boolean
 }
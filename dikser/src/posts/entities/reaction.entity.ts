@@ -0,0 +1,45 @@
+import { Field, ObjectType } from '@nestjs/graphql'
+import {
+	Column,
+	CreateDateColumn,
+	Entity,
+	ManyToOne,
+	PrimaryGeneratedColumn,
+	Unique,
+} from 'typeorm'
+import { User } from '../../users/entities/user.entity'
+import { Post } from './post.entity'
+
+/**
+ * Emoji reaction of a user to a post,
+ * a user has at most one reaction per post
+ * @see dto/reactions/reaction-emojis.ts for the allowed emojis
+ */
+@ObjectType()
+@Entity()
+@Unique(['user', 'post'])
+export class Reaction {
+	@Field()
+	@PrimaryGeneratedColumn('uuid')
+	id: string
+
+	@Field()
+	@Column()
+	emoji: string
+
+	@Field({ nullable: true })
+	@CreateDateColumn({
+		type: 'timestamp with time zone',
+	})
+	created_at: Date
+
+	@ManyToOne((_) => User, {
+		onDelete: 'CASCADE',
+	})
+	user: User
+
+	@ManyToOne((_) => Post, (post: Post) => post.reactions, {
+		onDelete: 'CASCADE',
+	})
+	post: Post
+}
@@ -0,0 +1,15 @@
+import { Module } from '@nestjs/common'
+import { TypeOrmModule } from '@nestjs/typeorm'
+import { Post } from './entities/post.entity'
+import { PostPolicyService } from './post-policy.service'
+
+/**
+ * Who could see and change posts is decided in one place,
+ * shared with the modules PostsModule itself imports
+ */
+@Module({
+	imports: [TypeOrmModule.forFeature([Post])],
+	providers: [PostPolicyService],
+	exports: [PostPolicyService],
+})
+export class PostPolicyModule {}
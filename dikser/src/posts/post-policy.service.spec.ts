@@ -0,0 +1,211 @@
+import { Test, TestingModule } from '@nestjs/testing'
+import { getRepositoryToken } from '@nestjs/typeorm'
+import { Comment } from '../comments/entities/comment.entity'
+import { Post } from './entities/post.entity'
+import { PostPolicyService } from './post-policy.service'
+
+describe('PostPolicyService', () => {
+	let policy: PostPolicyService
+
+	const createPost = (type: string, scheduled = false) =>
+		({
+			id: `${type} post id`,
+			type,
+			scheduled,
+			author: { id: 'author id' },
+			relationship: {
+				partnership: [{ id: 'author id' }, { id: 'partner id' }],
+			},
+		} as Post)
+
+	// * Query Builder Mocking
+	const mockQueryBuilder: Record<string, any> = {
+		andWhere: jest.fn(() => mockQueryBuilder),
+	}
+
+	// * Post Repository Mocking
+	const mockPostsRepository = {
+		findOne: jest.fn((postId: string) =>
+			Promise.resolve(
+				postId === 'only_me post id' ? createPost('only_me') : undefined
+			)
+		),
+	}
+
+	beforeEach(async () => {
+		const module: TestingModule = await Test.createTestingModule({
+			providers: [
+				PostPolicyService,
+				{
+					provide: getRepositoryToken(Post),
+					useValue: mockPostsRepository,
+				},
+			],
+		}).compile()
+
+		policy = module.get<PostPolicyService>(PostPolicyService)
+		jest.clearAllMocks()
+	})
+
+	it('should be defined', () => {
+		expect(policy).toBeDefined()
+	})
+
+	describe('canView()', () => {
+		it('should let anyone view public and unlisted posts', () => {
+			expect(policy.canView(createPost('public'))).toBe(true)
+			expect(policy.canView(createPost('unlisted'))).toBe(true)
+		})
+
+		it('should only let partners view private posts', () => {
+			const post = createPost('private')
+
+			expect(policy.canView(post, 'partner id')).toBe(true)
+			expect(policy.canView(post, 'stranger id')).toBe(false)
+			expect(policy.canView(post)).toBe(false)
+		})
+
+		it('should only let the author view only_me posts', () => {
+			const post = createPost('only_me')
+
+			expect(policy.canView(post, 'author id')).toBe(true)
+			expect(policy.canView(post, 'partner id')).toBe(false)
+		})
+
+		it('should hide scheduled posts from everyone', () => {
+			expect(
+				policy.canView(createPost('public', true), 'author id')
+			).toBe(false)
+		})
+	})
+
+	describe('canList()', () => {
+		it('should only list unlisted posts to the author', () => {
+			const post = createPost('unlisted')
+
+			expect(policy.canList(post, 'author id')).toBe(true)
+			expect(policy.canList(post, 'partner id')).toBe(false)
+			expect(policy.canList(post)).toBe(false)
+		})
+
+		it('should list posts the user could view', () => {
+			expect(policy.canList(createPost('public'))).toBe(true)
+			expect(policy.canList(createPost('private'), 'partner id')).toBe(
+				true
+			)
+		})
+	})
+
+	describe('write decisions', () => {
+		it('should only let the author edit the post', () => {
+			const post = createPost('public')
+
+			expect(policy.canEdit(post, 'author id')).toBe(true)
+			expect(policy.canEdit(post, 'partner id')).toBe(false)
+		})
+
+		it('should only let posts bound to a relationship become private', () => {
+			const post = createPost('public')
+			const unboundPost = {
+				id: 'unbound post id',
+				type: 'public',
+				author: { id: 'author id' },
+			} as Post
+
+			expect(policy.canChangeType(post, 'private')).toBe(true)
+			expect(policy.canChangeType(unboundPost, 'private')).toBe(false)
+			expect(policy.canChangeType(unboundPost, 'public')).toBe(true)
+		})
+
+		it('should only let logged in viewers comment, vote and react', () => {
+			const post = createPost('private')
+
+			expect(policy.canComment(post, 'partner id')).toBe(true)
+			expect(policy.canVote(post, 'partner id')).toBe(true)
+			expect(policy.canComment(createPost('public'))).toBe(false)
+			expect(policy.canVote(post, 'stranger id')).toBe(false)
+			expect(policy.canReact(post, 'partner id')).toBe(true)
+			expect(policy.canReact(post, 'stranger id')).toBe(false)
+		})
+
+		it('should only let the comment author edit and delete the comment', () => {
+			const comment = { author: { id: 'author id' } } as Comment
+
+			expect(policy.canEditComment(comment, 'author id')).toBe(true)
+			expect(policy.canEditComment(comment, 'partner id')).toBe(false)
+			expect(policy.canDeleteComment(comment, 'author id')).toBe(true)
+			expect(policy.canDeleteComment(comment, 'partner id')).toBe(false)
+		})
+	})
+
+	describe('canSubscribe()', () => {
+		it('should load the post to decide', async () => {
+			expect(
+				await policy.canSubscribe('only_me post id', 'author id')
+			).toBe(true)
+			expect(
+				await policy.canSubscribe('only_me post id', 'partner id')
+			).toBe(false)
+		})
+
+		it('should refuse posts that do not exist', async () => {
+			expect(await policy.canSubscribe('unknown id', 'author id')).toBe(
+				false
+			)
+		})
+	})
+
+	describe('whereListable()', () => {
+		it('should never list scheduled posts', () => {
+			policy.whereListable(mockQueryBuilder as any, 'post', 'author id')
+
+			expect(mockQueryBuilder.andWhere).toHaveBeenLastCalledWith(
+				'post.scheduled = :scheduled',
+				{ scheduled: false }
+			)
+		})
+
+		it('should only list public posts to strangers', () => {
+			const query: Record<string, any> = {
+				andWhere: jest.fn((condition) => {
+					condition.whereFactory?.(query)
+					return query
+				}),
+				where: jest.fn(() => query),
+				orWhere: jest.fn(() => query),
+			}
+
+			policy.whereListable(query as any, 'post')
+
+			expect(query.where).toHaveBeenCalledWith(
+				'post.type IN (:...openTypes)',
+				{ openTypes: ['public'] }
+			)
+			expect(query.orWhere).not.toHaveBeenCalled()
+		})
+	})
+
+	describe('whereViewable()', () => {
+		it('should include unlisted posts', () => {
+			const query: Record<string, any> = {
+				andWhere: jest.fn((condition) => {
+					condition.whereFactory?.(query)
+					return query
+				}),
+				where: jest.fn(() => query),
+				orWhere: jest.fn(() => query),
+			}
+
+			policy.whereViewable(query as any, 'post', 'author id')
+
+			expect(query.where).toHaveBeenCalledWith(
+				'post.type IN (:...openTypes)',
+				{ openTypes: ['public', 'unlisted'] }
+			)
+			expect(query.orWhere).toHaveBeenCalledWith(
+				'post.author = :authorId',
+				{ authorId: 'author id' }
+			)
+		})
+	})
+})
@@ -0,0 +1,178 @@
+import { Injectable } from '@nestjs/common'
+import { InjectRepository } from '@nestjs/typeorm'
+import { Brackets, Repository, SelectQueryBuilder } from 'typeorm'
+import { Comment } from '../comments/entities/comment.entity'
+import { Post } from './entities/post.entity'
+
+/**
+ * Visibilities of a post, stored in Post.type
+ * @public readable by everyone and listed on the feeds
+ * @unlisted readable by everyone who has its link, never listed
+ * @private readable by the partners of its relationship
+ * @only_me readable by its author only, e.g a personal journal
+ */
+export const POST_VISIBILITIES = ['public', 'unlisted', 'private', 'only_me']
+
+/**
+ * Every read and write decision on posts is made here,
+ * so posts, comments, votes and subscriptions never disagree.
+ * Post must have its author and relationship partnership loaded.
+ * Anyone who could not read a post should not know it even exists,
+ * so callers respond with NotFound rather than Forbidden.
+ */
+@Injectable()
+export class PostPolicyService {
+	constructor(
+		@InjectRepository(Post)
+		private readonly postsRepository: Repository<Post>
+	) {}
+
+	// Whether the user could read the post, e.g when opening its link
+	canView(post: Post, userId?: string) {
+		// scheduled post is not visible to anyone until it is published
+		if (post.scheduled) return false
+		if (this.isAuthor(post, userId)) return true
+
+		switch (post.type) {
+			case 'private':
+				return (
+					!!userId &&
+					(post.relationship?.partnership ?? []).some(
+						(partner) => partner.id === userId
+					)
+				)
+			case 'only_me':
+				return false
+			default:
+				return true
+		}
+	}
+
+	// Whether the post could show up on feeds, profiles and search results
+	canList(post: Post, userId?: string) {
+		if (post.type === 'unlisted') return this.isAuthor(post, userId)
+		return this.canView(post, userId)
+	}
+
+	canEdit(post: Post, userId?: string) {
+		return this.isAuthor(post, userId)
+	}
+
+	/**
+	 * Private post is only readable through its relationship,
+	 * so a post could only become private once it is bound to one
+	 */
+	canChangeType(post: Post, type: string) {
+		return type !== 'private' || !!post.relationship
+	}
+
+	canComment(post: Post, userId?: string) {
+		return !!userId && this.canView(post, userId)
+	}
+
+	canVote(post: Post, userId?: string) {
+		return !!userId && this.canView(post, userId)
+	}
+
+	canReact(post: Post, userId?: string) {
+		return !!userId && this.canView(post, userId)
+	}
+
+	// only public posts could be shared into someone else's timeline
+	canRepost(post: Post, userId?: string) {
+		return !!userId && post.type === 'public' && this.canView(post, userId)
+	}
+
+	canEditComment(comment: Comment, userId: string) {
+		return comment.author?.id === userId
+	}
+
+	canDeleteComment(comment: Comment, userId: string) {
+		return comment.author?.id === userId
+	}
+
+	/**
+	 * Subscribers only know the post id,
+	 * so the post is loaded to decide whether its events could be sent
+	 */
+	async canSubscribe(postId: string, userId?: string) {
+		const post = await this.postsRepository.findOne(postId, {
+			relations: ['author', 'relationship', 'relationship.partnership'],
+		})
+
+		return !!post && this.canView(post, userId)
+	}
+
+	/**
+	 * Query version of canList, narrows the query down to posts
+	 * the user is allowed to see listed:
+	 * public posts, private posts of the user relationship and own posts
+	 * @param alias alias of the post in the query
+	 */
+	whereListable<T>(
+		query: SelectQueryBuilder<T>,
+		alias: string,
+		userId?: string,
+		relationshipId?: string
+	) {
+		return this.whereVisible(
+			query,
+			alias,
+			['public'],
+			userId,
+			relationshipId
+		)
+	}
+
+	// Query version of canView, unlisted posts are readable as well
+	whereViewable<T>(
+		query: SelectQueryBuilder<T>,
+		alias: string,
+		userId?: string,
+		relationshipId?: string
+	) {
+		return this.whereVisible(
+			query,
+			alias,
+			['public', 'unlisted'],
+			userId,
+			relationshipId
+		)
+	}
+
+	/**
+	 * @param openTypes visibilities readable by anyone
+	 */
+	private whereVisible<T>(
+		query: SelectQueryBuilder<T>,
+		alias: string,
+		openTypes: string[],
+		userId?: string,
+		relationshipId?: string
+	) {
+		return query
+			.andWhere(
+				new Brackets((visible) => {
+					visible.where(`${alias}.type IN (:...openTypes)`, {
+						openTypes,
+					})
+
+					if (userId)
+						visible.orWhere(`${alias}.author = :authorId`, {
+							authorId: userId,
+						})
+
+					if (relationshipId)
+						visible.orWhere(
+							`${alias}.type = :privateType AND ${alias}.relationship = :relationshipId`,
+							{ privateType: 'private', relationshipId }
+						)
+				})
+			)
+			.andWhere(`${alias}.scheduled = :scheduled`, { scheduled: false })
+	}
+
+	private isAuthor(post: Post, userId?: string) {
+		return !!userId && post.author?.id === userId
+	}
+}
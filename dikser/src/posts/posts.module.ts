@@ -1,19 +1,40 @@
 import { Module } from '@nestjs/common'
 import { PostsService } from './posts.service'
 import { PostsResolver } from './posts.resolver'
+import { PostPolicyModule } from './post-policy.module'
 import { TypeOrmModule } from '@nestjs/typeorm'
 import { Post } from './entities/post.entity'
 import { UsersModule } from '../users/users.module'
 import { Attachments } from './entities/attachments.entity'
+import { PostRevision } from './entities/post-revision.entity'
+import { MediaItem } from './entities/media-item.entity'
+import { Reaction } from './entities/reaction.entity'
+import { PostView } from './entities/post-view.entity'
+import { PostViewBucket } from './entities/post-view-bucket.entity'
+import { Comment } from '../comments/entities/comment.entity'
 import { RelationshipModule } from '../relationship/relationship.module'
+import { QueuesModule } from '../queues/queues.module'
+import { TagsModule } from '../tags/tags.module'
 
 @Module({
 	imports: [
-		TypeOrmModule.forFeature([Post, Attachments]),
+		TypeOrmModule.forFeature([
+			Post,
+			Attachments,
+			PostRevision,
+			MediaItem,
+			Reaction,
+			PostView,
+			PostViewBucket,
+			Comment,
+		]),
 		UsersModule,
 		RelationshipModule,
+		QueuesModule,
+		TagsModule,
+		PostPolicyModule,
 	],
 	providers: [PostsResolver, PostsService],
-	exports: [PostsService],
+	exports: [PostsService, PostPolicyModule],
 })
 export class PostsModule {}
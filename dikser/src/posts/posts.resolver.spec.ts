@@ -1,12 +1,17 @@
 import { BadRequestException } from '@nestjs/common'
 import { Test, TestingModule } from '@nestjs/testing'
+import { getRepositoryToken } from '@nestjs/typeorm'
 import { Comment } from '../comments/entities/comment.entity'
+import { DataLoaders } from '../loaders/loaders.service'
 import { Relationship } from '../relationship/entities/relationship.entity'
 import { User } from '../users/entities/user.entity'
 import { DeletePostResponse } from './dto/delete-response.dto'
+import { VoteDirection } from './dto/votes/vote-direction.enum'
 import { Attachments } from './entities/attachments.entity'
+import { Post } from './entities/post.entity'
 import { PostsResolver } from './posts.resolver'
 import { PostsService } from './posts.service'
+import { PostPolicyService } from './post-policy.service'
 
 describe('PostsResolver', () => {
 	let resolver: PostsResolver
@@ -30,15 +35,25 @@ describe('PostsResolver', () => {
 			}
 		}),
 		findAll: jest.fn(() => {
-			return [
-				{
-					id: '4500fdce-c3ff-4646-bad5-d1b7748f4b54',
-					caption: 'testing',
-					created_at: '2021-04-20T10:18:54.372Z',
-					updated_at: '2021-04-20T10:18:54.372Z',
-					author_id: '7a96a8d6-dda2-4b64-8b46-e2e6f5263322',
+			return {
+				edges: [
+					{
+						cursor: 'Y3Vyc29yOjQ1MDBmZGNlLWMzZmYtNDY0Ni1iYWQ1LWQxYjc3NDhmNGI1NA==',
+						node: {
+							id: '4500fdce-c3ff-4646-bad5-d1b7748f4b54',
+							caption: 'testing',
+							created_at: '2021-04-20T10:18:54.372Z',
+							updated_at: '2021-04-20T10:18:54.372Z',
+							author_id: '7a96a8d6-dda2-4b64-8b46-e2e6f5263322',
+						},
+					},
+				],
+				pageInfo: {
+					hasNextPage: false,
+					endCursor:
+						'Y3Vyc29yOjQ1MDBmZGNlLWMzZmYtNDY0Ni1iYWQ1LWQxYjc3NDhmNGI1NA==',
 				},
-			]
+			}
 		}),
 		findById: jest.fn((id: string) => {
 			return {
@@ -56,16 +71,41 @@ describe('PostsResolver', () => {
 			const previous_data = {
 				id: '4500fdce-c3ff-4646-bad5-d1b7748f4b54',
 				caption: 'testing',
+				caption_text: 'testing',
 				type: 'public',
+				edited: false,
+				scheduled: false,
+				publish_at: new Date(),
+				pinned_at: null as any,
+				score: 0,
+				hot_score: 0,
+				isBookmarked: false,
+				myReaction: null as any,
+				reactions: [],
+				views: [],
+				reactionCounts: [],
+				repost: false,
+				original: null as any,
+				reposts: [],
+				revisions: [],
+				tags: [],
+				media: [],
 				upvoter: [new User(), new User()],
 				downvoter: [new User(), new User()],
 				reachs: [new User()],
 				created_at: new Date(),
 				updated_at: new Date(),
+				deleted_at: new Date(),
 				comments: [new Comment()],
 				author: new User(),
 				attachments: new Attachments(),
 				relationship: new Relationship(),
+				upvoteCount: 2,
+				downvoteCount: 2,
+				reachCount: 1,
+				commentCount: 1,
+				repostCount: 0,
+				myVote: VoteDirection.NONE,
 			}
 
 			return new DeletePostResponse(previous_data, 'DELETED', 200)
@@ -74,7 +114,12 @@ describe('PostsResolver', () => {
 
 	beforeEach(async () => {
 		const module: TestingModule = await Test.createTestingModule({
-			providers: [PostsResolver, PostsService],
+			providers: [
+				PostsResolver,
+				PostsService,
+				PostPolicyService,
+				{ provide: getRepositoryToken(Post), useValue: {} },
+			],
 		})
 			.overrideProvider(PostsService)
 			.useValue(mockPostsService)
@@ -135,18 +180,29 @@ describe('PostsResolver', () => {
 	})
 
 	describe('find posts', () => {
-		it('findAll should return an array of Post', async () => {
-			const expectedResult = [
-				{
-					id: expect.any(String),
-					caption: expect.any(String),
-					author_id: expect.any(String),
-					created_at: expect.any(String),
-					updated_at: expect.any(String),
+		it('findAll should return a page of Post', async () => {
+			const expectedResult = {
+				edges: [
+					{
+						cursor: expect.any(String),
+						node: {
+							id: expect.any(String),
+							caption: expect.any(String),
+							author_id: expect.any(String),
+							created_at: expect.any(String),
+							updated_at: expect.any(String),
+						},
+					},
+				],
+				pageInfo: {
+					hasNextPage: false,
+					endCursor: expect.any(String),
 				},
-			]
+			}
 
-			expect(await resolver.findAll()).toEqual(expectedResult)
+			expect(await resolver.findAll({ first: 10 })).toEqual(
+				expectedResult
+			)
 		})
 
 		it('findById should return Post with corresponding id', async () => {
@@ -178,6 +234,48 @@ describe('PostsResolver', () => {
 		})
 	})
 
+	describe('post revisions', () => {
+		const author = { id: 'author id' } as User
+		const revisions = [
+			{ id: 'first revision id', created_at: new Date('2021-04-20') },
+			{ id: 'second revision id', created_at: new Date('2021-04-21') },
+		]
+		const mockLoaders = {
+			postAuthor: { load: jest.fn(() => Promise.resolve(author)) },
+			postRevisions: { load: jest.fn(() => Promise.resolve(revisions)) },
+		}
+		const post = { id: 'post id', type: 'public' } as Post
+
+		it('should list revisions newest first to the author', async () => {
+			const result = await resolver.revisions(
+				post,
+				mockLoaders as unknown as DataLoaders,
+				author
+			)
+
+			expect(result).toEqual([
+				expect.objectContaining({ id: 'second revision id' }),
+				expect.objectContaining({ id: 'first revision id' }),
+			])
+		})
+
+		it('should hide revisions from other users', async () => {
+			expect(
+				await resolver.revisions(
+					post,
+					mockLoaders as unknown as DataLoaders,
+					{ id: 'another user id' } as User
+				)
+			).toBeNull()
+			expect(
+				await resolver.revisions(
+					post,
+					mockLoaders as unknown as DataLoaders
+				)
+			).toBeNull()
+		})
+	})
+
 	describe('delete post', () => {
 		it('should delete post and return DeletePostResponse Object', async () => {
 			const previous_data = {
@@ -6,6 +6,8 @@ import {
 	Resolver,
 	Subscription,
 	Int,
+	ResolveField,
+	Parent,
 } from '@nestjs/graphql'
 import { AuthStatusGuard } from '../auth/guards/auth.guard'
 import { CurrentUser } from '../shared/decorators/current-user.decorator'
@@ -16,16 +18,35 @@ import { DeletePostResponse } from './dto/delete-response.dto'
 import { UpdatePostInput } from './dto/update-post.input'
 import { Post } from './entities/post.entity'
 import { PostsService } from './posts.service'
+import { PostPolicyService } from './post-policy.service'
 import { RedisPubSub } from 'graphql-redis-subscriptions'
 import { configureRedisPubSub } from '../shared/utils/redispubsub'
-import { UpvoteDTO } from './dto/votes/upvote.dto'
-import { DownvoteDTO } from './dto/votes/downvote.dto'
+import { VoteDTO } from './dto/votes/vote.dto'
+import { ReactionsDTO } from './dto/reactions/reactions.dto'
+import { ReactionCount } from './dto/reactions/reaction-count.dto'
+import { reactionEmojis } from './dto/reactions/reaction-emojis'
+import { VoteDirection } from './dto/votes/vote-direction.enum'
+import { PostViewStat } from './dto/views/post-view-stat.dto'
+import { ViewStatsInterval } from './dto/views/view-stats-interval.enum'
 import { Comment } from '../comments/entities/comment.entity'
+import { PaginatedPosts } from './dto/paginated-posts.dto'
+import { FeedArgs } from './dto/feed.args'
+import { PaginationArgs } from '../shared/dto/pagination.args'
+import { Loaders } from '../shared/decorators/loaders.decorator'
+import { DataLoaders } from '../loaders/loaders.service'
+import { Attachments } from './entities/attachments.entity'
+import { MediaItem } from './entities/media-item.entity'
+import { PostRevision } from './entities/post-revision.entity'
+import { Relationship } from '../relationship/entities/relationship.entity'
+import { Tag } from '../tags/entities/tag.entity'
 
 @Resolver(() => Post)
 export class PostsResolver {
 	private pubSub: RedisPubSub
-	constructor(private readonly postsService: PostsService) {
+	constructor(
+		private readonly postsService: PostsService,
+		private readonly postPolicy: PostPolicyService
+	) {
 		/**
 		 * Redis Pub/Sub configurations
 		 * @see https://github.com/davidyaha/graphql-redis-subscriptions
@@ -54,14 +75,64 @@ export class PostsResolver {
 		)
 	}
 
-	@Query(() => [Post], { name: 'posts' })
-	async findAll(): Promise<Post[]> {
-		return await this.postsService.findAll()
+	@Mutation(() => Post)
+	@UseGuards(AuthStatusGuard)
+	async repost(
+		@CurrentUser() currentUser: User,
+		@Args('postId') postId: string
+	): Promise<Post> {
+		return await this.postsService.repost(currentUser, postId)
+	}
+
+	@Mutation(() => Post)
+	@UseGuards(AuthStatusGuard)
+	async quotePost(
+		@CurrentUser() currentUser: User,
+		@Args('postId') postId: string,
+		@Args('caption') caption: string
+	): Promise<Post> {
+		return await this.postsService.quote(currentUser, postId, caption)
+	}
+
+	@Query(() => PaginatedPosts, { name: 'posts' })
+	async findAll(
+		@Args() feedArgs: FeedArgs,
+		@CurrentUser() currentUser?: User
+	): Promise<PaginatedPosts> {
+		return await this.postsService.findAll(feedArgs, currentUser?.id)
+	}
+
+	@Query(() => PaginatedPosts, { name: 'postsByTag' })
+	async findByTag(
+		@Args('tag') tag: string,
+		@Args() paginationArgs: PaginationArgs,
+		@CurrentUser() currentUser?: User
+	): Promise<PaginatedPosts> {
+		return await this.postsService.findByTag(
+			tag,
+			paginationArgs,
+			currentUser?.id
+		)
+	}
+
+	@Query(() => PaginatedPosts, { name: 'relationshipFeed' })
+	@UseGuards(AuthStatusGuard)
+	async findRelationshipFeed(
+		@CurrentUser() currentUser: User,
+		@Args() paginationArgs: PaginationArgs
+	): Promise<PaginatedPosts> {
+		return await this.postsService.findRelationshipFeed(
+			currentUser,
+			paginationArgs
+		)
 	}
 
 	@Query(() => Post, { name: 'post' })
-	async findById(@Args('postId') postId: string): Promise<Post> {
-		return await this.postsService.findById(postId)
+	async findById(
+		@Args('postId') postId: string,
+		@CurrentUser() currentUser?: User
+	): Promise<Post> {
+		return await this.postsService.findById(postId, currentUser?.id)
 	}
 
 	@Mutation(() => Post)
@@ -73,6 +144,83 @@ export class PostsResolver {
 		return await this.postsService.update(user, updatePostInput)
 	}
 
+	@Mutation(() => Post)
+	@UseGuards(AuthStatusGuard)
+	async restorePostRevision(
+		@CurrentUser() user: User,
+		@Args('revisionId') revisionId: string
+	): Promise<Post> {
+		return await this.postsService.restoreRevision(user, revisionId)
+	}
+
+	@Query(() => [Post], { name: 'onThisDay' })
+	@UseGuards(AuthStatusGuard)
+	async findOnThisDay(@CurrentUser() currentUser: User): Promise<Post[]> {
+		return await this.postsService.findOnThisDay(currentUser)
+	}
+
+	@Query(() => [Post], { name: 'myScheduledPosts' })
+	@UseGuards(AuthStatusGuard)
+	async findScheduled(@CurrentUser() currentUser: User): Promise<Post[]> {
+		return await this.postsService.findScheduled(currentUser)
+	}
+
+	@Mutation(() => Post)
+	@UseGuards(AuthStatusGuard)
+	async reschedulePost(
+		@CurrentUser() currentUser: User,
+		@Args('postId') postId: string,
+		@Args('publishAt') publishAt: Date
+	): Promise<Post> {
+		return await this.postsService.reschedule(
+			currentUser,
+			postId,
+			publishAt
+		)
+	}
+
+	@Mutation(() => DeletePostResponse)
+	@UseGuards(AuthStatusGuard)
+	async cancelScheduledPost(
+		@CurrentUser() currentUser: User,
+		@Args('postId') postId: string
+	): Promise<DeletePostResponse> {
+		return await this.postsService.cancelScheduled(currentUser, postId)
+	}
+
+	@Query(() => [Post], { name: 'myTrash' })
+	@UseGuards(AuthStatusGuard)
+	async findTrashed(@CurrentUser() currentUser: User): Promise<Post[]> {
+		return await this.postsService.findTrashed(currentUser)
+	}
+
+	@Mutation(() => Post)
+	@UseGuards(AuthStatusGuard)
+	async restorePost(
+		@CurrentUser() currentUser: User,
+		@Args('postId') postId: string
+	): Promise<Post> {
+		return await this.postsService.restore(currentUser, postId)
+	}
+
+	@Mutation(() => Post)
+	@UseGuards(AuthStatusGuard)
+	async pinPost(
+		@CurrentUser() currentUser: User,
+		@Args('postId') postId: string
+	): Promise<Post> {
+		return await this.postsService.pin(currentUser, postId)
+	}
+
+	@Mutation(() => Post)
+	@UseGuards(AuthStatusGuard)
+	async unpinPost(
+		@CurrentUser() currentUser: User,
+		@Args('postId') postId: string
+	): Promise<Post> {
+		return await this.postsService.unpin(currentUser, postId)
+	}
+
 	@Mutation(() => DeletePostResponse)
 	@UseGuards(AuthStatusGuard)
 	async removePost(
@@ -93,150 +241,269 @@ export class PostsResolver {
 
 	@Query(() => Int)
 	@UseGuards(AuthStatusGuard)
-	async getPostReachs(@Args('postId') postId: string): Promise<number> {
-		return this.postsService.getPostReachs(postId)
+	async getPostReachs(
+		@CurrentUser() user: User,
+		@Args('postId') postId: string
+	): Promise<number> {
+		return this.postsService.getPostReachs(postId, user.id)
 	}
 
 	/**
-	 * @param user
-	 * @param postId
-	 * @returns event to update 'upvote' subscription with the new value
+	 * @param interval length of each bucket, defaults to DAY
+	 * @returns viewers of the post over time, only for its author
 	 */
-	@Mutation(() => Int)
+	@Query(() => [PostViewStat])
 	@UseGuards(AuthStatusGuard)
-	async addUpvote(
+	async postViewStats(
 		@CurrentUser() user: User,
-		@Args('postId') postId: string
-	): Promise<number> {
-		const newUpvoteValue = await this.postsService.addUpvote(
-			postId,
-			user.id
-		)
-
-		const returnValue = new UpvoteDTO(
-			postId,
-			newUpvoteValue.upvoter.length,
-			newUpvoteValue.upvoter
-		)
-
-		await this.pubSub.publish('upvoteSubscriptions', {
-			upvoteSubscription: returnValue,
+		@Args('postId') postId: string,
+		@Args('interval', {
+			type: () => ViewStatsInterval,
+			defaultValue: ViewStatsInterval.DAY,
 		})
-
-		return 200
+		interval: ViewStatsInterval
+	): Promise<PostViewStat[]> {
+		return this.postsService.getViewStats(postId, user.id, interval)
 	}
 
 	/**
 	 * @param user
 	 * @param postId
-	 * @returns event to update 'upvote' subscription with the new value
+	 * @param direction
+	 * @returns new votes of the post, also update 'vote' subscription
 	 */
-	@Mutation(() => Int)
+	@Mutation(() => VoteDTO)
 	@UseGuards(AuthStatusGuard)
-	async removeUpvote(
+	async votePost(
 		@CurrentUser() user: User,
-		@Args('postId') postId: string
-	): Promise<number> {
-		const newUpvoteValue = await this.postsService.removeUpvote(
+		@Args('postId') postId: string,
+		@Args('direction', { type: () => VoteDirection })
+		direction: VoteDirection
+	): Promise<VoteDTO> {
+		const votedPost = await this.postsService.votePost(
 			postId,
-			user.id
+			user.id,
+			direction
 		)
 
-		const returnValue = new UpvoteDTO(
+		const returnValue = new VoteDTO(
 			postId,
-			newUpvoteValue.upvoter.length,
-			newUpvoteValue.upvoter
+			votedPost.upvoteCount,
+			votedPost.downvoteCount
 		)
 
-		await this.pubSub.publish('upvoteSubscriptions', {
-			upvoteSubscription: returnValue,
+		await this.pubSub.publish('voteSubscriptions', {
+			voteSubscription: returnValue,
 		})
 
-		return 200
+		return returnValue
 	}
 
 	/**
 	 * @param user
 	 * @param postId
-	 * @returns event to update 'downvote' subscription with the new value
+	 * @param emoji one of reactionEmojis, null removes the reaction
+	 * @returns new reactions of the post, also update 'reaction' subscription
 	 */
-	@Mutation(() => Int)
+	@Mutation(() => ReactionsDTO)
 	@UseGuards(AuthStatusGuard)
-	async addDownvote(
+	async reactToPost(
 		@CurrentUser() user: User,
-		@Args('postId') postId: string
-	): Promise<number> {
-		const newDownvoteValue = await this.postsService.addDownvote(
-			postId,
-			user.id
-		)
+		@Args('postId') postId: string,
+		@Args('emoji', { type: () => String, nullable: true })
+		emoji: string | null
+	): Promise<ReactionsDTO> {
+		const reactions = await this.postsService.react(postId, user.id, emoji)
 
-		const returnValue = new DownvoteDTO(
-			postId,
-			newDownvoteValue.downvoter.length,
-			newDownvoteValue.downvoter
-		)
+		const returnValue = new ReactionsDTO(postId, reactions)
 
-		await this.pubSub.publish('downvoteSubscriptions', {
-			downvoteSubscription: returnValue,
+		await this.pubSub.publish('reactionSubscriptions', {
+			reactionSubscription: returnValue,
 		})
 
-		return 200
+		return returnValue
+	}
+
+	@Query(() => [String], { name: 'reactionEmojis' })
+	findReactionEmojis(): string[] {
+		return reactionEmojis()
 	}
 
 	/**
-	 * @param user
-	 * @param postId
-	 * @returns event to update 'downvote' subscription with the new value
+	 * @Subscriptions
+	 * Graphql subscriptions for votes and reactions,
+	 * provide real-time update.
+	 * Events are only sent to users who could see the post
+	 * @see PostPolicyService.canSubscribe
 	 */
-	@Mutation(() => Int)
+	@Subscription(() => VoteDTO, {
+		filter(this: PostsResolver, payload, variables, context) {
+			return (
+				payload.voteSubscription.postId === variables.postId &&
+				this.postPolicy.canSubscribe(variables.postId, context.user?.id)
+			)
+		},
+	})
+	voteSubscription(@Args('postId') _postId: string) {
+		return this.pubSub.asyncIterator('voteSubscriptions')
+	}
+
+	@Subscription(() => ReactionsDTO, {
+		filter(this: PostsResolver, payload, variables, context) {
+			return (
+				payload.reactionSubscription.postId === variables.postId &&
+				this.postPolicy.canSubscribe(variables.postId, context.user?.id)
+			)
+		},
+	})
+	reactionSubscription(@Args('postId') _postId: string) {
+		return this.pubSub.asyncIterator('reactionSubscriptions')
+	}
+
+	@Query(() => [Comment], { deprecationReason: 'Use comments instead' })
 	@UseGuards(AuthStatusGuard)
-	async removeDownvote(
+	async getPostComments(
 		@CurrentUser() user: User,
 		@Args('postId') postId: string
-	): Promise<number> {
-		const newDownvoteValue = await this.postsService.removeDownvote(
-			postId,
-			user.id
-		)
+	): Promise<Comment[]> {
+		return this.postsService.getPostComments(postId, user.id)
+	}
 
-		const returnValue = new DownvoteDTO(
-			postId,
-			newDownvoteValue.downvoter.length,
-			newDownvoteValue.downvoter
+	/**
+	 * @ResolveFields
+	 * Post relations are batch-loaded by DataLoaders,
+	 * relations which are already loaded are returned as is
+	 */
+	@ResolveField(() => User)
+	async author(@Parent() post: Post, @Loaders() loaders: DataLoaders) {
+		return post.author ?? loaders.postAuthor.load(post.id)
+	}
+
+	@ResolveField(() => Attachments, { nullable: true })
+	async attachments(@Parent() post: Post, @Loaders() loaders: DataLoaders) {
+		return post.attachments ?? loaders.postAttachments.load(post.id)
+	}
+
+	// ordered by position, attachments are read as media for older posts
+	@ResolveField(() => [MediaItem], { nullable: true })
+	async media(@Parent() post: Post, @Loaders() loaders: DataLoaders) {
+		const media: MediaItem[] =
+			post.media ?? (await loaders.postMedia.load(post.id))
+		if (media?.length)
+			return [...media].sort((a, b) => a.position - b.position)
+
+		return this.postsService.attachmentsToMedia(
+			post.attachments ?? (await loaders.postAttachments.load(post.id))
 		)
+	}
 
-		await this.pubSub.publish('downvoteSubscriptions', {
-			downvoteSubscription: returnValue,
-		})
+	@ResolveField(() => [ReactionCount], { nullable: true })
+	async reactionCounts(
+		@Parent() post: Post,
+		@Loaders() loaders: DataLoaders
+	) {
+		return post.reactionCounts ?? loaders.postReactionCounts.load(post.id)
+	}
 
-		return 200
+	@ResolveField(() => String, { nullable: true })
+	async myReaction(@Parent() post: Post, @Loaders() loaders: DataLoaders) {
+		return post.myReaction ?? loaders.postMyReaction.load(post.id)
 	}
 
 	/**
-	 * @Subscriptions
-	 * Graphql subscriptions for upvote and
-	 * downvote, provide real-time update
+	 * Counts are already mapped when the post is queried by PostsService,
+	 * posts reached through other relations are counted here
 	 */
-	@Subscription(() => UpvoteDTO, {
-		filter: (payload, variables) =>
-			payload.upvoteSubscription.postId === variables.postId,
-	})
-	upvoteSubscription(@Args('postId') _postId: string) {
-		return this.pubSub.asyncIterator('upvoteSubscriptions')
+	@ResolveField(() => Int, { nullable: true })
+	async upvoteCount(@Parent() post: Post, @Loaders() loaders: DataLoaders) {
+		return post.upvoteCount ?? loaders.postUpvoteCount.load(post.id)
 	}
 
-	@Subscription(() => DownvoteDTO, {
-		filter: (payload, variables) =>
-			payload.downvoteSubscription.postId === variables.postId,
-	})
-	downvoteSubscription(@Args('postId') _postId: string) {
-		return this.pubSub.asyncIterator('downvoteSubscriptions')
+	@ResolveField(() => Int, { nullable: true })
+	async downvoteCount(@Parent() post: Post, @Loaders() loaders: DataLoaders) {
+		return post.downvoteCount ?? loaders.postDownvoteCount.load(post.id)
 	}
 
-	@Query(() => [Comment])
-	@UseGuards(AuthStatusGuard)
-	async getPostComments(@Args('postId') postId: string): Promise<Comment[]> {
-		return this.postsService.getPostComments(postId)
+	@ResolveField(() => Int, { nullable: true })
+	async reachCount(@Parent() post: Post, @Loaders() loaders: DataLoaders) {
+		return post.reachCount ?? loaders.postReachCount.load(post.id)
+	}
+
+	@ResolveField(() => Int, { nullable: true })
+	async commentCount(@Parent() post: Post, @Loaders() loaders: DataLoaders) {
+		return post.commentCount ?? loaders.postCommentCount.load(post.id)
+	}
+
+	@ResolveField(() => Int, { nullable: true })
+	async repostCount(@Parent() post: Post, @Loaders() loaders: DataLoaders) {
+		return post.repostCount ?? loaders.postRepostCount.load(post.id)
+	}
+
+	@ResolveField(() => VoteDirection, { nullable: true })
+	async myVote(@Parent() post: Post, @Loaders() loaders: DataLoaders) {
+		return post.myVote ?? loaders.postMyVote.load(post.id)
+	}
+
+	@ResolveField(() => Boolean, { nullable: true })
+	async isBookmarked(@Parent() post: Post, @Loaders() loaders: DataLoaders) {
+		return post.isBookmarked ?? loaders.postIsBookmarked.load(post.id)
+	}
+
+	// always loaded through the policy, @see Post.original
+	@ResolveField(() => Post, { nullable: true })
+	async original(@Parent() post: Post, @Loaders() loaders: DataLoaders) {
+		return post.repost ? loaders.postOriginal.load(post.id) : null
+	}
+
+	@ResolveField(() => Relationship, { nullable: true })
+	async relationship(@Parent() post: Post, @Loaders() loaders: DataLoaders) {
+		return post.relationship ?? loaders.postRelationship.load(post.id)
+	}
+
+	@ResolveField(() => [Comment], { nullable: true })
+	async comments(@Parent() post: Post, @Loaders() loaders: DataLoaders) {
+		return post.comments ?? loaders.postComments.load(post.id)
+	}
+
+	@ResolveField(() => [Tag], { nullable: true })
+	async tags(@Parent() post: Post, @Loaders() loaders: DataLoaders) {
+		return post.tags ?? loaders.postTags.load(post.id)
+	}
+
+	/**
+	 * Newest revision first, only to the author of the post,
+	 * earlier versions might have been seen by fewer users
+	 * e.g when a private post is made public
+	 */
+	@ResolveField(() => [PostRevision], { nullable: true })
+	async revisions(
+		@Parent() post: Post,
+		@Loaders() loaders: DataLoaders,
+		@CurrentUser() currentUser?: User
+	) {
+		const author = post.author ?? (await loaders.postAuthor.load(post.id))
+		if (!this.postPolicy.canEdit({ ...post, author }, currentUser?.id))
+			return null
+
+		const revisions: PostRevision[] =
+			post.revisions ?? (await loaders.postRevisions.load(post.id))
+		return revisions?.sort(
+			(a, b) => Number(b.created_at) - Number(a.created_at)
+		)
+	}
+
+	@ResolveField(() => [User], { nullable: true })
+	async upvoter(@Parent() post: Post, @Loaders() loaders: DataLoaders) {
+		return post.upvoter ?? loaders.postUpvoter.load(post.id)
+	}
+
+	@ResolveField(() => [User], { nullable: true })
+	async downvoter(@Parent() post: Post, @Loaders() loaders: DataLoaders) {
+		return post.downvoter ?? loaders.postDownvoter.load(post.id)
+	}
+
+	@ResolveField(() => [User], { nullable: true })
+	async reachs(@Parent() post: Post, @Loaders() loaders: DataLoaders) {
+		return post.reachs ?? loaders.postReachs.load(post.id)
 	}
 }
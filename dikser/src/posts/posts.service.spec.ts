@@ -1,30 +1,98 @@
+import {
+	BadRequestException,
+	ForbiddenException,
+	NotFoundException,
+} from '@nestjs/common'
 import { Test, TestingModule } from '@nestjs/testing'
 import { getRepositoryToken } from '@nestjs/typeorm'
+import { MediaQueueProducer } from '../queues/producers/media-queue.producer'
+import { PostsQueueProducer } from '../queues/producers/posts-queue.producer'
 import { RelationshipService } from '../relationship/relationship.service'
+import { TagsService } from '../tags/tags.service'
 import { User } from '../users/entities/user.entity'
 import { UsersService } from '../users/users.service'
 import { CreateAttachmentInput } from './dto/create-attachments.input'
 import { CreatePostInput } from './dto/create-post.input'
+import { VoteDirection } from './dto/votes/vote-direction.enum'
 import { Attachments } from './entities/attachments.entity'
+import { MediaItem } from './entities/media-item.entity'
 import { Post } from './entities/post.entity'
+import { PostRevision } from './entities/post-revision.entity'
+import { Reaction } from './entities/reaction.entity'
+import { PostView } from './entities/post-view.entity'
+import { PostViewBucket } from './entities/post-view-bucket.entity'
+import { Comment } from '../comments/entities/comment.entity'
+import { ViewStatsInterval } from './dto/views/view-stats-interval.enum'
+import { PostViewStat } from './dto/views/post-view-stat.dto'
+import { ReactionCount } from './dto/reactions/reaction-count.dto'
+import { FeedSort, TopWindow } from './dto/feed-sort.enum'
+import { hotScore } from '../shared/utils/post-ranking'
 import { PostsService } from './posts.service'
+import { PostPolicyService } from './post-policy.service'
 
 describe('PostsService', () => {
 	let postService: PostsService
 
-	// * Post Repository Mocking
-	const mockPostsRepository = {
-		create: jest.fn((postInput: CreatePostInput) => postInput),
-		find: jest.fn(() =>
+	// * Query Builder Mocking
+	const mockQueryBuilder: Record<string, any> = {
+		alias: 'post',
+		expressionMap: { mainAlias: { metadata: { tableName: 'post' } } },
+		leftJoinAndSelect: jest.fn(() => mockQueryBuilder),
+		loadRelationCountAndMap: jest.fn(() => mockQueryBuilder),
+		select: jest.fn(() => mockQueryBuilder),
+		innerJoin: jest.fn(() => mockQueryBuilder),
+		withDeleted: jest.fn(() => mockQueryBuilder),
+		where: jest.fn(() => mockQueryBuilder),
+		andWhere: jest.fn(() => mockQueryBuilder),
+		orderBy: jest.fn(() => mockQueryBuilder),
+		addOrderBy: jest.fn(() => mockQueryBuilder),
+		take: jest.fn(() => mockQueryBuilder),
+		getOne: jest.fn(() => Promise.resolve(undefined)),
+		getCount: jest.fn(() => Promise.resolve(0)),
+		getMany: jest.fn(() =>
 			Promise.resolve([
 				{
-					id: Date.now().toString(),
+					id: '4500fdce-c3ff-4646-bad5-d1b7748f4b54',
+					caption: 'testing caption',
+					created_at: Date.now().toString(),
+					updated_at: Date.now().toString(),
+				},
+				{
+					id: 'c85ea02a-2d5b-4842-90dd-9e0be3235620',
 					caption: 'testing caption',
 					created_at: Date.now().toString(),
 					updated_at: Date.now().toString(),
 				},
 			])
 		),
+	}
+
+	// * Entity Manager Mocking
+	const mockRelationQueryBuilder: Record<string, any> = {
+		relation: jest.fn(() => mockRelationQueryBuilder),
+		of: jest.fn(() => mockRelationQueryBuilder),
+		add: jest.fn(() => Promise.resolve()),
+		remove: jest.fn(() => Promise.resolve()),
+	}
+	const mockEntityManager = {
+		createQueryBuilder: jest.fn((entity?: unknown) =>
+			entity
+				? {
+						setLock: jest.fn().mockReturnThis(),
+						where: jest.fn().mockReturnThis(),
+						getOne: jest.fn(() => Promise.resolve({})),
+				  }
+				: mockRelationQueryBuilder
+		),
+	}
+
+	// * Post Repository Mocking
+	const mockPostsRepository = {
+		manager: {
+			transaction: jest.fn((callback) => callback(mockEntityManager)),
+		},
+		create: jest.fn((postInput: CreatePostInput) => postInput),
+		createQueryBuilder: jest.fn(() => mockQueryBuilder),
 		findOneOrFail: jest.fn((postId: string) =>
 			Promise.resolve({
 				id: postId,
@@ -34,17 +102,51 @@ describe('PostsService', () => {
 				},
 				upvoter: [new User(), new User()],
 				downvoter: [new User(), new User()],
+				reachs: [new User()],
+				comments: [],
 				created_at: Date.now().toString(),
 				updated_at: Date.now().toString(),
 			})
 		),
+		findOne: jest.fn((postId: string) =>
+			Promise.resolve(
+				postId === 'scheduled post id'
+					? {
+							id: postId,
+							caption: 'testing caption',
+							scheduled: true,
+							publish_at: new Date(Date.now() + 86400000),
+							author: { id: 'testing id' },
+					  }
+					: postId === 'trashed post id'
+					? {
+							id: postId,
+							caption: 'testing caption',
+							deleted_at: new Date(),
+							author: { id: 'testing id' },
+					  }
+					: postId === 'own post id' || postId === 'pinned post id'
+					? {
+							id: postId,
+							caption: 'testing caption',
+							scheduled: false,
+							pinned_at:
+								postId === 'pinned post id' ? new Date() : null,
+							author: { id: 'testing id' },
+					  }
+					: undefined
+			)
+		),
 		update: jest.fn((postId: string, postInput: CreatePostInput) => {
 			Promise.resolve({
 				id: postId,
 				...postInput,
 			})
 		}),
+		count: jest.fn(() => Promise.resolve(0)),
 		delete: jest.fn((_: string) => ({})),
+		softDelete: jest.fn(() => Promise.resolve({})),
+		restore: jest.fn(() => Promise.resolve({})),
 		save: jest.fn((postInput) =>
 			Promise.resolve({
 				id: Date.now().toString(),
@@ -66,6 +168,104 @@ describe('PostsService', () => {
 		),
 	}
 
+	// Media Item Repository Mocking
+	const mockMediaItemsRepository = {
+		create: jest.fn((mediaItemInput) => mediaItemInput),
+	}
+
+	// Reaction Repository Mocking
+	const mockReactionQueryBuilder: Record<string, any> = {
+		select: jest.fn(() => mockReactionQueryBuilder),
+		addSelect: jest.fn(() => mockReactionQueryBuilder),
+		where: jest.fn(() => mockReactionQueryBuilder),
+		groupBy: jest.fn(() => mockReactionQueryBuilder),
+		orderBy: jest.fn(() => mockReactionQueryBuilder),
+		insert: jest.fn(() => mockReactionQueryBuilder),
+		into: jest.fn(() => mockReactionQueryBuilder),
+		values: jest.fn(() => mockReactionQueryBuilder),
+		onConflict: jest.fn(() => mockReactionQueryBuilder),
+		execute: jest.fn(() => Promise.resolve()),
+		getRawMany: jest.fn(() =>
+			Promise.resolve([
+				{ emoji: '❤️', count: '2' },
+				{ emoji: '😢', count: '1' },
+			])
+		),
+	}
+	const mockReactionsRepository = {
+		createQueryBuilder: jest.fn(() => mockReactionQueryBuilder),
+		delete: jest.fn(() => Promise.resolve({})),
+	}
+
+	// View Repository Mocking
+	const mockViewQueryBuilder: Record<string, any> = {
+		select: jest.fn(() => mockViewQueryBuilder),
+		addSelect: jest.fn(() => mockViewQueryBuilder),
+		where: jest.fn(() => mockViewQueryBuilder),
+		groupBy: jest.fn(() => mockViewQueryBuilder),
+		setParameter: jest.fn(() => mockViewQueryBuilder),
+		getRawMany: jest.fn(() =>
+			Promise.resolve([
+				{ bucket: '2021-08-01T00:00:00.000Z', viewers: '3' },
+				{ bucket: '2021-08-03T00:00:00.000Z', viewers: '1' },
+			])
+		),
+	}
+	const mockViewsRepository = {
+		count: jest.fn(() => Promise.resolve(1)),
+		createQueryBuilder: jest.fn(() => mockViewQueryBuilder),
+	}
+
+	// views by hour, 2nd of August only has views of returning viewers
+	const mockViewBucketQueryBuilder: Record<string, any> = {
+		select: jest.fn(() => mockViewBucketQueryBuilder),
+		addSelect: jest.fn(() => mockViewBucketQueryBuilder),
+		where: jest.fn(() => mockViewBucketQueryBuilder),
+		groupBy: jest.fn(() => mockViewBucketQueryBuilder),
+		setParameter: jest.fn(() => mockViewBucketQueryBuilder),
+		getRawMany: jest.fn(() =>
+			Promise.resolve([
+				{ bucket: '2021-08-03T00:00:00.000Z', views: '1' },
+				{ bucket: '2021-08-01T00:00:00.000Z', views: '5' },
+				{ bucket: '2021-08-02T00:00:00.000Z', views: '4' },
+			])
+		),
+	}
+	const mockViewBucketsRepository = {
+		createQueryBuilder: jest.fn(() => mockViewBucketQueryBuilder),
+	}
+
+	// Comment Repository Mocking
+	const mockCommentsRepository = {
+		find: jest.fn(() => Promise.resolve([])),
+	}
+
+	// Revision Repository Mocking
+	const mockRevisionsRepository = {
+		create: jest.fn((revisionInput) => revisionInput),
+		save: jest.fn((revisionInput) =>
+			Promise.resolve({
+				id: Date.now().toString(),
+				...revisionInput,
+			})
+		),
+		findOne: jest.fn((revisionId: string) =>
+			Promise.resolve(
+				revisionId === 'revision id'
+					? {
+							id: revisionId,
+							caption: 'previous caption',
+							type: 'public',
+							post: {
+								id: '4500fdce-c3ff-4646-bad5-d1b7748f4b54',
+								author: { id: 'testing id' },
+							},
+					  }
+					: undefined
+			)
+		),
+	}
+
 	// UserService Mocking
 	const mockUsersService = {
 		findById: jest.fn(() => {
@@ -77,12 +277,53 @@ describe('PostsService', () => {
 		}),
 	}
 
-	const mockRelationshipService = {}
+	const mockRelationshipService = {
+		findById: jest.fn((relationshipId: string) => {
+			return {
+				id: relationshipId,
+				partnership: [{ id: 'partner id' }, { id: 'other partner id' }],
+			}
+		}),
+	}
+
+	// Posts Queue Mocking
+	const mockPostsQueueProducer = {
+		schedulePostPublishing: jest.fn(() => Promise.resolve()),
+		cancelPostPublishing: jest.fn(() => Promise.resolve()),
+		bufferPostView: jest.fn(() => Promise.resolve(true)),
+	}
+
+	// Media Queue Mocking
+	const mockMediaQueueProducer = {
+		processImagesToQueue: jest.fn(() => Promise.resolve()),
+	}
+
+	// TagsService Mocking
+	const mockTagsService = {
+		findOrCreateFromCaption: jest.fn((caption: string) =>
+			caption.includes('#')
+				? Promise.resolve([{ id: 'tag id', name: 'anniversary' }])
+				: Promise.resolve([])
+		),
+	}
+
+	// a public post anyone could view, vote and react to
+	const viewablePost = {
+		id: 'testing',
+		type: 'public',
+		scheduled: false,
+		author: { id: 'author id' },
+	}
+	const mockViewablePost = () =>
+		mockPostsRepository.findOne.mockImplementationOnce(() =>
+			Promise.resolve(viewablePost as any)
+		)
 
 	beforeEach(async () => {
 		const module: TestingModule = await Test.createTestingModule({
 			providers: [
 				PostsService,
+				PostPolicyService,
 				{
 					provide: getRepositoryToken(Post),
 					useValue: mockPostsRepository,
@@ -91,6 +332,30 @@ describe('PostsService', () => {
 					provide: getRepositoryToken(Attachments),
 					useValue: mockAttachmentsRepository,
 				},
+				{
+					provide: getRepositoryToken(MediaItem),
+					useValue: mockMediaItemsRepository,
+				},
+				{
+					provide: getRepositoryToken(PostRevision),
+					useValue: mockRevisionsRepository,
+				},
+				{
+					provide: getRepositoryToken(Reaction),
+					useValue: mockReactionsRepository,
+				},
+				{
+					provide: getRepositoryToken(PostView),
+					useValue: mockViewsRepository,
+				},
+				{
+					provide: getRepositoryToken(PostViewBucket),
+					useValue: mockViewBucketsRepository,
+				},
+				{
+					provide: getRepositoryToken(Comment),
+					useValue: mockCommentsRepository,
+				},
 				{
 					provide: UsersService,
 					useValue: mockUsersService,
@@ -99,6 +364,18 @@ describe('PostsService', () => {
 					provide: RelationshipService,
 					useValue: mockRelationshipService,
 				},
+				{
+					provide: PostsQueueProducer,
+					useValue: mockPostsQueueProducer,
+				},
+				{
+					provide: MediaQueueProducer,
+					useValue: mockMediaQueueProducer,
+				},
+				{
+					provide: TagsService,
+					useValue: mockTagsService,
+				},
 			],
 		}).compile()
 
@@ -126,9 +403,11 @@ describe('PostsService', () => {
 			const expectedResult = {
 				id: expect.any(String),
 				caption: 'testing caption',
+				caption_text: 'testing caption',
 				type: 'public',
 				author: expect.any(Object),
 				attachments: attachmentsMock,
+				tags: expect.any(Array),
 			}
 
 			expect(
@@ -150,28 +429,277 @@ describe('PostsService', () => {
 			const expectedResult = {
 				id: expect.any(String),
 				caption: 'testing caption',
+				caption_text: 'testing caption',
 				type: 'public',
 				author: expect.any(Object),
+				tags: expect.any(Array),
 			}
 
 			expect(await postService.create(currentUser, postsMock)).toEqual(
 				expectedResult
 			)
 		})
+
+		it('should store plain text of rich text captions', async () => {
+			const result = await postService.create(new User(), {
+				caption: JSON.stringify({
+					blocks: [
+						{ key: 'abc', text: 'our first trip' },
+						{ key: 'def', text: 'to the beach' },
+					],
+					entityMap: {},
+				}),
+				type: 'public',
+			})
+
+			expect(result.caption_text).toEqual('our first trip\nto the beach')
+		})
 	})
 
-	describe('find()', () => {
-		it('findAll should return an array of Post', async () => {
-			const expectedResult = [
+	describe('create() media', () => {
+		it('should create media items ordered by the given list', async () => {
+			const result = await postService.create(
+				new User(),
+				{ caption: 'testing caption', type: 'public' },
+				{
+					media: [
+						{ type: 'image', uri: 'https://uri-to-image.io' },
+						{ type: 'video', uri: 'https://uri-to-video.io' },
+					],
+				}
+			)
+
+			expect(result.media).toEqual([
+				{ type: 'image', uri: 'https://uri-to-image.io', position: 0 },
+				{ type: 'video', uri: 'https://uri-to-video.io', position: 1 },
+			])
+			expect(result.attachments).toBeUndefined()
+		})
+
+		it('should only queue images for processing', async () => {
+			mockMediaQueueProducer.processImagesToQueue.mockClear()
+			mockMediaItemsRepository.create.mockImplementation(
+				(mediaItemInput) => ({
+					id: `${mediaItemInput.type} id`,
+					...mediaItemInput,
+				})
+			)
+
+			await postService.create(
+				new User(),
+				{ caption: 'testing caption', type: 'public' },
 				{
-					id: expect.any(String),
-					caption: expect.any(String),
-					created_at: expect.any(String),
-					updated_at: expect.any(String),
+					media: [
+						{ type: 'image', uri: 'https://uri-to-image.io' },
+						{ type: 'video', uri: 'https://uri-to-video.io' },
+					],
+				}
+			)
+			await postService.create(
+				new User(),
+				{ caption: 'testing caption', type: 'public' },
+				{ media: [{ type: 'audio', uri: 'https://uri-to-audio.io' }] }
+			)
+
+			expect(
+				mockMediaQueueProducer.processImagesToQueue
+			).toHaveBeenCalledTimes(1)
+			expect(
+				mockMediaQueueProducer.processImagesToQueue
+			).toHaveBeenCalledWith(['image id'])
+
+			mockMediaItemsRepository.create.mockImplementation(
+				(mediaItemInput) => mediaItemInput
+			)
+		})
+
+		it('should read legacy attachments as media items', () => {
+			const attachments = new Attachments()
+			attachments.id = 'attachments id'
+			attachments.type = 'image'
+			attachments.uri = ['https://first.io', 'https://second.io']
+
+			expect(postService.attachmentsToMedia(attachments)).toEqual([
+				expect.objectContaining({
+					id: 'attachments id-0',
+					uri: 'https://first.io',
+					position: 0,
+				}),
+				expect.objectContaining({
+					id: 'attachments id-1',
+					uri: 'https://second.io',
+					position: 1,
+				}),
+			])
+			expect(postService.attachmentsToMedia(null)).toEqual([])
+		})
+	})
+
+	describe('create() tags', () => {
+		it('should bind #tags written in the caption', async () => {
+			const result = await postService.create(new User(), {
+				caption: 'one year together #anniversary',
+				type: 'public',
+			})
+
+			expect(
+				mockTagsService.findOrCreateFromCaption
+			).toHaveBeenCalledWith('one year together #anniversary')
+			expect(result.tags).toEqual([{ id: 'tag id', name: 'anniversary' }])
+		})
+	})
+
+	describe('create() scheduled', () => {
+		it('should hide post and queue its publishing', async () => {
+			const publishAt = new Date(Date.now() + 86400000)
+
+			const result = await postService.create(new User(), {
+				caption: 'testing caption',
+				type: 'public',
+				publish_at: publishAt,
+			})
+
+			expect(result.scheduled).toBe(true)
+			expect(
+				mockPostsQueueProducer.schedulePostPublishing
+			).toHaveBeenCalledWith(result.id, publishAt)
+		})
+
+		it('should refuse to schedule post in the past', async () => {
+			await expect(
+				postService.create(new User(), {
+					caption: 'testing caption',
+					type: 'public',
+					publish_at: new Date(Date.now() - 86400000),
+				})
+			).rejects.toBeInstanceOf(BadRequestException)
+		})
+	})
+
+	describe('find()', () => {
+		it('findAll should return a page of Post', async () => {
+			const expectedResult = {
+				edges: [
+					{
+						cursor: expect.any(String),
+						node: {
+							id: expect.any(String),
+							caption: expect.any(String),
+							created_at: expect.any(String),
+							updated_at: expect.any(String),
+						},
+					},
+				],
+				pageInfo: {
+					hasNextPage: true,
+					endCursor: expect.any(String),
 				},
-			]
+			}
+
+			expect(await postService.findAll({ first: 1 })).toEqual(
+				expectedResult
+			)
+		})
+
+		it('findAll should continue after the given cursor', async () => {
+			const firstPage = await postService.findAll({ first: 1 })
+
+			await postService.findAll({
+				first: 1,
+				after: firstPage.pageInfo.endCursor,
+			})
+
+			expect(mockQueryBuilder.andWhere).toHaveBeenCalledWith(
+				expect.any(String),
+				{ cursorId: '4500fdce-c3ff-4646-bad5-d1b7748f4b54' }
+			)
+		})
+
+		it('findAll should exclude scheduled posts', async () => {
+			await postService.findAll({ first: 1 })
+
+			expect(mockQueryBuilder.andWhere).toHaveBeenCalledWith(
+				'post.scheduled = :scheduled',
+				{ scheduled: false }
+			)
+		})
+
+		it('findAll should not count reposts in the trash', async () => {
+			jest.clearAllMocks()
+			await postService.findAll({ first: 1 })
+
+			const [, , alias, where] =
+				mockQueryBuilder.loadRelationCountAndMap.mock.calls.find(
+					([property]: string[]) => property === 'post.repostCount'
+				)
+			where(mockQueryBuilder)
 
-			expect(await postService.findAll()).toEqual(expectedResult)
+			expect(alias).toEqual('repost')
+			expect(mockQueryBuilder.andWhere).toHaveBeenCalledWith(
+				'repost.deleted_at IS NULL'
+			)
+		})
+
+		it('findAll should rank HOT feeds by the stored hot score', async () => {
+			jest.clearAllMocks()
+			await postService.findAll({ first: 1, sort: FeedSort.HOT })
+
+			expect(mockQueryBuilder.orderBy).toHaveBeenCalledWith(
+				'post.hot_score',
+				'DESC'
+			)
+		})
+
+		it('findAll should rank TOP feeds within the time window', async () => {
+			jest.clearAllMocks()
+			await postService.findAll({
+				first: 1,
+				sort: FeedSort.TOP,
+				window: TopWindow.DAY,
+			})
+
+			expect(mockQueryBuilder.andWhere).toHaveBeenCalledWith(
+				'post.created_at >= :since',
+				{ since: expect.any(Date) }
+			)
+			expect(mockQueryBuilder.orderBy).toHaveBeenCalledWith(
+				'post.score',
+				'DESC'
+			)
+		})
+
+		it('findAll should not limit TOP feeds of all time', async () => {
+			jest.clearAllMocks()
+			await postService.findAll({
+				first: 1,
+				sort: FeedSort.TOP,
+				window: TopWindow.ALL,
+			})
+
+			expect(mockQueryBuilder.andWhere).not.toHaveBeenCalledWith(
+				'post.created_at >= :since',
+				expect.anything()
+			)
+		})
+
+		it('findByTag should return a page of public Post of the tag', async () => {
+			const result = await postService.findByTag('#Anniversary', {
+				first: 10,
+			})
+
+			expect(mockQueryBuilder.innerJoin).toHaveBeenCalledWith(
+				'post.tags',
+				'tag',
+				'tag.name = :name',
+				{ name: 'anniversary' }
+			)
+			expect(result.edges).toEqual(expect.any(Array))
+		})
+
+		it('findAll should reject an invalid cursor', async () => {
+			await expect(
+				postService.findAll({ first: 1, after: 'invalid' })
+			).rejects.toBeInstanceOf(BadRequestException)
 		})
 
 		it('findById should return Post with corresponding id', async () => {
@@ -181,9 +709,26 @@ describe('PostsService', () => {
 				author: expect.any(Object),
 				upvoter: expect.any(Array),
 				downvoter: expect.any(Array),
+				reachs: expect.any(Array),
+				comments: expect.any(Array),
+				upvoteCount: 2,
+				downvoteCount: 2,
+				reachCount: 1,
+				commentCount: 0,
+				repostCount: 0,
 				created_at: expect.any(String),
 				updated_at: expect.any(String),
 			}
+			mockQueryBuilder.getOne.mockImplementationOnce(() =>
+				Promise.resolve({
+					id: expectedResult.id,
+					upvoteCount: 2,
+					downvoteCount: 2,
+					reachCount: 1,
+					commentCount: 0,
+					repostCount: 0,
+				})
+			)
 
 			expect(await postService.findById(expectedResult.id)).toEqual(
 				expectedResult
@@ -191,6 +736,242 @@ describe('PostsService', () => {
 		})
 	})
 
+	describe('findById() visibility', () => {
+		const privatePost = {
+			id: 'private post id',
+			type: 'private',
+			upvoter: [],
+			downvoter: [],
+			reachs: [],
+			comments: [],
+			relationship: {
+				partnership: [{ id: 'partner id' }, { id: 'other partner id' }],
+			},
+		}
+
+		it('should return private Post to the partners', async () => {
+			mockPostsRepository.findOneOrFail.mockImplementationOnce(() =>
+				Promise.resolve(privatePost as any)
+			)
+
+			expect(
+				await postService.findById(privatePost.id, 'partner id')
+			).toEqual(privatePost)
+		})
+
+		it('should hide private Post from anyone else', async () => {
+			mockPostsRepository.findOneOrFail.mockImplementationOnce(() =>
+				Promise.resolve(privatePost as any)
+			)
+
+			await expect(
+				postService.findById(privatePost.id, 'stranger id')
+			).rejects.toBeInstanceOf(NotFoundException)
+		})
+
+		it('should hide scheduled Post even from its author', async () => {
+			mockPostsRepository.findOneOrFail.mockImplementationOnce(() =>
+				Promise.resolve({ ...privatePost, scheduled: true } as any)
+			)
+
+			await expect(
+				postService.findById(privatePost.id, 'partner id')
+			).rejects.toBeInstanceOf(NotFoundException)
+		})
+
+		it('should hide private Post from anonymous user', async () => {
+			mockPostsRepository.findOneOrFail.mockImplementationOnce(() =>
+				Promise.resolve(privatePost as any)
+			)
+
+			await expect(
+				postService.findById(privatePost.id)
+			).rejects.toBeInstanceOf(NotFoundException)
+		})
+	})
+
+	describe('reposts', () => {
+		const originalPost = {
+			id: 'original post id',
+			caption: 'our first trip to the beach',
+			type: 'public',
+			author: { id: 'author id' },
+			upvoter: [],
+			downvoter: [],
+			reachs: [],
+			comments: [],
+		}
+		const currentUser = new User()
+		currentUser.id = 'testing id'
+
+		beforeEach(() => jest.clearAllMocks())
+
+		it('should repost a public post', async () => {
+			mockPostsRepository.findOneOrFail.mockImplementationOnce(() =>
+				Promise.resolve(originalPost as any)
+			)
+
+			const result = await postService.repost(
+				currentUser,
+				originalPost.id
+			)
+
+			expect(result).toEqual(
+				expect.objectContaining({
+					caption: '',
+					type: 'public',
+					repost: true,
+					original: originalPost,
+				})
+			)
+		})
+
+		it('should not repost the same post twice', async () => {
+			mockPostsRepository.findOneOrFail.mockImplementationOnce(() =>
+				Promise.resolve(originalPost as any)
+			)
+			// counts of the original are queried first
+			mockQueryBuilder.getOne
+				.mockImplementationOnce(() => Promise.resolve(undefined))
+				.mockImplementationOnce(() =>
+					Promise.resolve({ id: 'previous repost id' })
+				)
+
+			await expect(
+				postService.repost(currentUser, originalPost.id)
+			).rejects.toBeInstanceOf(BadRequestException)
+			expect(mockPostsRepository.save).not.toHaveBeenCalled()
+		})
+
+		it('should not repost a post that is not public', async () => {
+			mockPostsRepository.findOneOrFail.mockImplementationOnce(() =>
+				Promise.resolve({
+					...originalPost,
+					type: 'unlisted',
+				} as any)
+			)
+
+			await expect(
+				postService.repost(currentUser, originalPost.id)
+			).rejects.toBeInstanceOf(BadRequestException)
+		})
+
+		it('should share the original when reposting a repost', async () => {
+			mockPostsRepository.findOneOrFail.mockImplementationOnce(() =>
+				Promise.resolve({
+					...originalPost,
+					id: 'repost id',
+					caption: '',
+					repost: true,
+				} as any)
+			)
+			mockPostsRepository.findOne.mockImplementationOnce(() =>
+				Promise.resolve({ original: originalPost } as any)
+			)
+
+			const result = await postService.repost(currentUser, 'repost id')
+
+			expect(result.original).toEqual(originalPost)
+		})
+
+		it('should not repost a repost whose original is gone', async () => {
+			mockPostsRepository.findOneOrFail.mockImplementationOnce(() =>
+				Promise.resolve({
+					...originalPost,
+					id: 'repost id',
+					caption: '',
+					repost: true,
+				} as any)
+			)
+			mockPostsRepository.findOne.mockImplementationOnce(() =>
+				Promise.resolve({ original: null } as any)
+			)
+
+			await expect(
+				postService.repost(currentUser, 'repost id')
+			).rejects.toBeInstanceOf(BadRequestException)
+		})
+
+		it('should quote a post with its own caption', async () => {
+			mockPostsRepository.findOneOrFail.mockImplementationOnce(() =>
+				Promise.resolve(originalPost as any)
+			)
+
+			const result = await postService.quote(
+				currentUser,
+				originalPost.id,
+				'what a day #beach'
+			)
+
+			expect(result.caption).toEqual('what a day #beach')
+			expect(
+				mockTagsService.findOrCreateFromCaption
+			).toHaveBeenCalledWith('what a day #beach')
+		})
+
+		it('should not quote without a caption', async () => {
+			await expect(
+				postService.quote(currentUser, originalPost.id, '  ')
+			).rejects.toBeInstanceOf(BadRequestException)
+		})
+	})
+
+	describe('findRelationshipFeed()', () => {
+		it('should return a page of private Post to the partners', async () => {
+			mockUsersService.findById.mockImplementationOnce(() => ({
+				id: 'partner id',
+				email: 'testing email',
+				username: 'testing username',
+				relationship: { id: 'relationship id' },
+			}))
+
+			const result = await postService.findRelationshipFeed(new User(), {
+				first: 10,
+			})
+
+			expect(mockQueryBuilder.andWhere).toHaveBeenCalledWith(
+				'post.relationship = :relationshipId',
+				{ relationshipId: 'relationship id' }
+			)
+			expect(result.edges).toEqual(expect.any(Array))
+		})
+
+		it('should refuse user without relationship', async () => {
+			await expect(
+				postService.findRelationshipFeed(new User(), { first: 10 })
+			).rejects.toBeInstanceOf(BadRequestException)
+		})
+
+		it('should refuse user outside the partnership', async () => {
+			mockUsersService.findById.mockImplementationOnce(() => ({
+				id: 'stranger id',
+				email: 'testing email',
+				username: 'testing username',
+				relationship: { id: 'relationship id' },
+			}))
+
+			await expect(
+				postService.findRelationshipFeed(new User(), { first: 10 })
+			).rejects.toBeInstanceOf(ForbiddenException)
+		})
+	})
+
+	describe('findOnThisDay()', () => {
+		it('should return posts created on this day in previous years', async () => {
+			const result = await postService.findOnThisDay(new User())
+
+			expect(mockQueryBuilder.andWhere).toHaveBeenCalledWith(
+				'EXTRACT(YEAR FROM post.created_at) < :year',
+				{ year: new Date().getFullYear() }
+			)
+			expect(mockQueryBuilder.andWhere).toHaveBeenCalledWith(
+				'post.scheduled = :scheduled',
+				{ scheduled: false }
+			)
+			expect(result).toEqual(expect.any(Array))
+		})
+	})
+
 	describe('update()', () => {
 		it('should update post to a new provided data', async () => {
 			let currentUser = new User()
@@ -202,6 +983,8 @@ describe('PostsService', () => {
 				caption: expect.any(String),
 				upvoter: expect.any(Array),
 				downvoter: expect.any(Array),
+				reachs: expect.any(Array),
+				comments: expect.any(Array),
 				created_at: expect.any(String),
 				updated_at: expect.any(String),
 			}
@@ -213,6 +996,177 @@ describe('PostsService', () => {
 				})
 			).toEqual(expectedResult)
 		})
+
+		it('should replace tags when caption is updated', async () => {
+			const currentUser = new User()
+			currentUser.id = 'testing id'
+
+			await postService.update(currentUser, {
+				id: '4500fdce-c3ff-4646-bad5-d1b7748f4b54',
+				caption: 'updated caption #anniversary',
+			})
+
+			expect(mockPostsRepository.save).toHaveBeenCalledWith({
+				id: '4500fdce-c3ff-4646-bad5-d1b7748f4b54',
+				tags: [{ id: 'tag id', name: 'anniversary' }],
+			})
+		})
+
+		it('should record previous caption as a revision', async () => {
+			const currentUser = new User()
+			currentUser.id = 'testing id'
+
+			await postService.update(currentUser, {
+				id: '4500fdce-c3ff-4646-bad5-d1b7748f4b54',
+				caption: 'updated caption',
+			})
+
+			expect(mockRevisionsRepository.save).toHaveBeenCalledWith(
+				expect.objectContaining({ caption: 'testing caption' })
+			)
+			expect(mockPostsRepository.update).toHaveBeenCalledWith(
+				'4500fdce-c3ff-4646-bad5-d1b7748f4b54',
+				expect.objectContaining({
+					caption: 'updated caption',
+					edited: true,
+				})
+			)
+		})
+
+		it('should bind a post made private to the relationship of its author', async () => {
+			jest.clearAllMocks()
+			mockUsersService.findById.mockImplementationOnce(() => ({
+				id: 'testing id',
+				email: 'testing email',
+				username: 'testing username',
+				relationship: { id: 'relationship id' },
+			}))
+			const currentUser = new User()
+			currentUser.id = 'testing id'
+
+			await postService.update(currentUser, {
+				id: '4500fdce-c3ff-4646-bad5-d1b7748f4b54',
+				type: 'private',
+			})
+
+			expect(mockPostsRepository.update).toHaveBeenCalledWith(
+				'4500fdce-c3ff-4646-bad5-d1b7748f4b54',
+				expect.objectContaining({
+					type: 'private',
+					relationship: expect.objectContaining({
+						id: 'relationship id',
+					}),
+				})
+			)
+		})
+
+		it('should refuse to make private a post of an author without relationship', async () => {
+			jest.clearAllMocks()
+			const currentUser = new User()
+			currentUser.id = 'testing id'
+
+			await expect(
+				postService.update(currentUser, {
+					id: '4500fdce-c3ff-4646-bad5-d1b7748f4b54',
+					type: 'private',
+				})
+			).rejects.toBeInstanceOf(BadRequestException)
+			expect(mockPostsRepository.update).not.toHaveBeenCalled()
+		})
+	})
+
+	describe('restoreRevision()', () => {
+		it('should restore revision caption to the post', async () => {
+			const currentUser = new User()
+			currentUser.id = 'testing id'
+
+			await postService.restoreRevision(currentUser, 'revision id')
+
+			expect(mockPostsRepository.update).toHaveBeenLastCalledWith(
+				'4500fdce-c3ff-4646-bad5-d1b7748f4b54',
+				expect.objectContaining({
+					caption: 'previous caption',
+					edited: true,
+				})
+			)
+		})
+
+		it('should hide revision from anyone but the author', async () => {
+			const currentUser = new User()
+			currentUser.id = 'another id'
+
+			await expect(
+				postService.restoreRevision(currentUser, 'revision id')
+			).rejects.toBeInstanceOf(NotFoundException)
+		})
+	})
+
+	describe('scheduled posts', () => {
+		beforeEach(() => jest.clearAllMocks())
+
+		it('should reschedule post and replace its publishing job', async () => {
+			const currentUser = new User()
+			currentUser.id = 'testing id'
+			const publishAt = new Date(Date.now() + 172800000)
+
+			await postService.reschedule(
+				currentUser,
+				'scheduled post id',
+				publishAt
+			)
+
+			expect(mockPostsRepository.update).toHaveBeenCalledWith(
+				'scheduled post id',
+				{ publish_at: publishAt }
+			)
+			expect(
+				mockPostsQueueProducer.cancelPostPublishing
+			).toHaveBeenCalledWith('scheduled post id')
+			expect(
+				mockPostsQueueProducer.schedulePostPublishing
+			).toHaveBeenCalledWith('scheduled post id', publishAt)
+		})
+
+		it('should cancel scheduled post along with its job', async () => {
+			const currentUser = new User()
+			currentUser.id = 'testing id'
+
+			const result = await postService.cancelScheduled(
+				currentUser,
+				'scheduled post id'
+			)
+
+			expect(result.status).toEqual('DELETED')
+			expect(
+				mockPostsQueueProducer.cancelPostPublishing
+			).toHaveBeenCalledWith('scheduled post id')
+			expect(mockPostsRepository.delete).toHaveBeenCalledWith(
+				'scheduled post id'
+			)
+		})
+
+		it('should hide scheduled post from anyone but the author', async () => {
+			const currentUser = new User()
+			currentUser.id = 'another id'
+
+			await expect(
+				postService.cancelScheduled(currentUser, 'scheduled post id')
+			).rejects.toBeInstanceOf(NotFoundException)
+			expect(mockPostsRepository.delete).not.toHaveBeenCalled()
+		})
+
+		it('should not reschedule post that is already published', async () => {
+			const currentUser = new User()
+			currentUser.id = 'testing id'
+
+			await expect(
+				postService.reschedule(
+					currentUser,
+					'published post id',
+					new Date(Date.now() + 86400000)
+				)
+			).rejects.toBeInstanceOf(NotFoundException)
+		})
 	})
 
 	describe('delete()', () => {
@@ -228,77 +1182,327 @@ describe('PostsService', () => {
 				await postService.remove(currentUser, previous_data.id)
 			).toEqual(expect.any(Object))
 		})
+
+		it('should move post to trash instead of deleting it', async () => {
+			jest.clearAllMocks()
+			const currentUser = new User()
+			currentUser.id = 'testing id'
+
+			await postService.remove(currentUser, 'post id')
+
+			expect(mockPostsRepository.softDelete).toHaveBeenCalledWith(
+				'post id'
+			)
+			expect(mockPostsRepository.delete).not.toHaveBeenCalled()
+		})
 	})
 
-	describe('addUpvote', () => {
-		it('it should add upvote and return new upvote value', async () => {
-			const expectedResult = {
-				id: 'testing',
-				author: expect.any(Object),
-				caption: expect.any(String),
-				upvoter: expect.any(Array),
-				downvoter: expect.any(Array),
-				created_at: expect.any(String),
-				updated_at: expect.any(String),
-			}
+	describe('pinned posts', () => {
+		beforeEach(() => jest.clearAllMocks())
 
-			expect(
-				await postService.addUpvote('testing', 'currentUserId')
-			).toEqual(expectedResult)
+		it('should pin own post', async () => {
+			const currentUser = new User()
+			currentUser.id = 'testing id'
+
+			await postService.pin(currentUser, 'own post id')
+
+			expect(mockPostsRepository.update).toHaveBeenCalledWith(
+				'own post id',
+				{ pinned_at: expect.any(Date) }
+			)
+		})
+
+		it('should not pin more than 3 posts', async () => {
+			const currentUser = new User()
+			currentUser.id = 'testing id'
+			mockQueryBuilder.getCount.mockImplementationOnce(() =>
+				Promise.resolve(3)
+			)
+
+			await expect(
+				postService.pin(currentUser, 'own post id')
+			).rejects.toBeInstanceOf(BadRequestException)
+			expect(mockPostsRepository.update).not.toHaveBeenCalled()
+		})
+
+		it('should keep the pin order of an already pinned post', async () => {
+			const currentUser = new User()
+			currentUser.id = 'testing id'
+
+			await postService.pin(currentUser, 'pinned post id')
+
+			expect(mockPostsRepository.update).not.toHaveBeenCalled()
+		})
+
+		it('should not pin post of another user', async () => {
+			const currentUser = new User()
+			currentUser.id = 'another id'
+
+			await expect(
+				postService.pin(currentUser, 'own post id')
+			).rejects.toBeInstanceOf(NotFoundException)
+		})
+
+		it('should not pin scheduled post', async () => {
+			const currentUser = new User()
+			currentUser.id = 'testing id'
+
+			await expect(
+				postService.pin(currentUser, 'scheduled post id')
+			).rejects.toBeInstanceOf(BadRequestException)
+		})
+
+		it('should unpin own post', async () => {
+			const currentUser = new User()
+			currentUser.id = 'testing id'
+
+			await postService.unpin(currentUser, 'pinned post id')
+
+			expect(mockPostsRepository.update).toHaveBeenCalledWith(
+				'pinned post id',
+				{ pinned_at: expect.any(Function) }
+			)
 		})
 	})
 
-	describe('addDownvote', () => {
-		it('it should add downvote and return new downvote value', async () => {
-			const expectedResult = {
-				id: 'testing',
-				author: expect.any(Object),
-				caption: expect.any(String),
-				upvoter: expect.any(Array),
-				downvoter: expect.any(Array),
-				created_at: expect.any(String),
-				updated_at: expect.any(String),
-			}
+	describe('trash', () => {
+		beforeEach(() => jest.clearAllMocks())
 
-			expect(
-				await postService.addDownvote('testing', 'currentUserId')
-			).toEqual(expectedResult)
+		it('should only list trashed posts of the current user', async () => {
+			const currentUser = new User()
+			currentUser.id = 'testing id'
+
+			await postService.findTrashed(currentUser)
+
+			expect(mockQueryBuilder.withDeleted).toHaveBeenCalled()
+			expect(mockQueryBuilder.where).toHaveBeenCalledWith(
+				'author.id = :authorId',
+				{ authorId: 'testing id' }
+			)
+			expect(mockQueryBuilder.andWhere).toHaveBeenCalledWith(
+				'post.deleted_at IS NOT NULL'
+			)
+		})
+
+		it('should restore trashed post', async () => {
+			const currentUser = new User()
+			currentUser.id = 'testing id'
+
+			await postService.restore(currentUser, 'trashed post id')
+
+			expect(mockPostsRepository.restore).toHaveBeenCalledWith(
+				'trashed post id'
+			)
+		})
+
+		it('should not restore post that is not in trash', async () => {
+			const currentUser = new User()
+			currentUser.id = 'testing id'
+
+			await expect(
+				postService.restore(currentUser, 'scheduled post id')
+			).rejects.toBeInstanceOf(NotFoundException)
+			expect(mockPostsRepository.restore).not.toHaveBeenCalled()
+		})
+
+		it('should not restore post of another user', async () => {
+			const currentUser = new User()
+			currentUser.id = 'another id'
+
+			await expect(
+				postService.restore(currentUser, 'trashed post id')
+			).rejects.toBeInstanceOf(NotFoundException)
 		})
 	})
 
-	describe('removeUpvote', () => {
-		it('it should remove upvote and return new upvote value', async () => {
-			const expectedResult = {
-				id: 'testing',
-				author: expect.any(Object),
-				caption: expect.any(String),
-				upvoter: expect.any(Array),
-				downvoter: expect.any(Array),
-				created_at: expect.any(String),
-				updated_at: expect.any(String),
-			}
+	describe('votePost', () => {
+		beforeEach(() => {
+			jest.clearAllMocks()
+			mockViewablePost()
+		})
 
-			expect(
-				await postService.removeUpvote('testing', 'currentUserId')
-			).toEqual(expectedResult)
+		it('it should switch vote to upvote', async () => {
+			await postService.votePost(
+				'testing',
+				'currentUserId',
+				VoteDirection.UP
+			)
+
+			// previous votes are always removed first
+			expect(mockRelationQueryBuilder.relation).toHaveBeenCalledWith(
+				User,
+				'downvotes'
+			)
+			expect(mockRelationQueryBuilder.remove).toHaveBeenCalledTimes(2)
+			expect(mockRelationQueryBuilder.relation).toHaveBeenLastCalledWith(
+				User,
+				'upvotes'
+			)
+			expect(mockRelationQueryBuilder.add).toHaveBeenCalledWith('testing')
+		})
+
+		it('it should only remove votes when direction is NONE', async () => {
+			await postService.votePost(
+				'testing',
+				'currentUserId',
+				VoteDirection.NONE
+			)
+
+			expect(mockRelationQueryBuilder.remove).toHaveBeenCalledTimes(2)
+			expect(mockRelationQueryBuilder.add).not.toHaveBeenCalled()
 		})
 	})
 
-	describe('removeDownvote', () => {
-		it('it should remove downvote and return new downvote value', async () => {
-			const expectedResult = {
-				id: 'testing',
-				author: expect.any(Object),
-				caption: expect.any(String),
-				upvoter: expect.any(Array),
-				downvoter: expect.any(Array),
-				created_at: expect.any(String),
-				updated_at: expect.any(String),
-			}
+	describe('refreshScore', () => {
+		beforeEach(() => jest.clearAllMocks())
+
+		it('should store the scores of the post', async () => {
+			const createdAt = new Date()
+			mockQueryBuilder.getOne.mockImplementationOnce(() =>
+				Promise.resolve({
+					id: 'post id',
+					created_at: createdAt,
+					upvoteCount: 3,
+					downvoteCount: 1,
+					commentCount: 2,
+					reachCount: 10,
+				})
+			)
+
+			await postService.refreshScore('post id')
+
+			expect(mockPostsRepository.update).toHaveBeenCalledWith('post id', {
+				score: 7,
+				hot_score: hotScore(7, createdAt),
+			})
+		})
+
+		it('should rank newer posts above older ones of the same score', () => {
+			const now = new Date()
+			const yesterday = new Date(now.getTime() - 24 * 60 * 60 * 1000)
+
+			expect(hotScore(5, now)).toBeGreaterThan(hotScore(5, yesterday))
+			expect(hotScore(-5, now)).toBeLessThan(hotScore(0, now))
+		})
+	})
+
+	describe('post views', () => {
+		beforeEach(() => jest.clearAllMocks())
+
+		it('should buffer the view instead of writing it', async () => {
+			mockPostsRepository.findOne.mockImplementationOnce(() =>
+				Promise.resolve({
+					id: 'public post id',
+					type: 'public',
+					scheduled: false,
+					author: { id: 'author id' },
+				} as any)
+			)
 
 			expect(
-				await postService.removeDownvote('testing', 'currentUserId')
-			).toEqual(expectedResult)
+				await postService.addPostReachs('public post id', 'viewer id')
+			).toBe(200)
+			expect(mockPostsQueueProducer.bufferPostView).toHaveBeenCalledWith(
+				'public post id',
+				'viewer id'
+			)
+			expect(mockPostsRepository.save).not.toHaveBeenCalled()
+		})
+
+		it('should not count views of the author', async () => {
+			await postService.addPostReachs('own post id', 'testing id')
+
+			expect(mockPostsQueueProducer.bufferPostView).not.toHaveBeenCalled()
+		})
+
+		it('should group viewers and views by the interval for the author', async () => {
+			const stats = await postService.getViewStats(
+				'own post id',
+				'testing id',
+				ViewStatsInterval.DAY
+			)
+
+			expect(mockViewQueryBuilder.setParameter).toHaveBeenCalledWith(
+				'interval',
+				'day'
+			)
+			expect(mockViewBucketQueryBuilder.select).toHaveBeenCalledWith(
+				'date_trunc(:interval, viewBucket.hour)',
+				'bucket'
+			)
+			expect(stats).toEqual([
+				new PostViewStat(new Date('2021-08-01T00:00:00.000Z'), 3, 5),
+				new PostViewStat(new Date('2021-08-02T00:00:00.000Z'), 0, 4),
+				new PostViewStat(new Date('2021-08-03T00:00:00.000Z'), 1, 1),
+			])
+		})
+
+		it('should hide view stats from anyone but the author', async () => {
+			await expect(
+				postService.getViewStats(
+					'own post id',
+					'partner id',
+					ViewStatsInterval.DAY
+				)
+			).rejects.toThrow(NotFoundException)
+		})
+	})
+
+	describe('react', () => {
+		beforeEach(() => {
+			jest.clearAllMocks()
+			mockViewablePost()
+		})
+
+		it('should replace previous reaction of the user', async () => {
+			const reactions = await postService.react(
+				'testing',
+				'currentUserId',
+				'❤️'
+			)
+
+			expect(mockReactionQueryBuilder.into).toHaveBeenCalledWith(Reaction)
+			expect(mockReactionQueryBuilder.values).toHaveBeenCalledWith({
+				emoji: '❤️',
+				user: { id: 'currentUserId' },
+				post: { id: 'testing' },
+			})
+			expect(mockReactionQueryBuilder.onConflict).toHaveBeenCalledWith(
+				expect.stringMatching(
+					/^\("userId", "postId"\) DO UPDATE SET\s+"emoji" = EXCLUDED."emoji"/
+				)
+			)
+			expect(mockReactionsRepository.delete).not.toHaveBeenCalled()
+			expect(reactions).toEqual([
+				new ReactionCount('❤️', 2),
+				new ReactionCount('😢', 1),
+			])
+		})
+
+		it('should only remove reaction when emoji is null', async () => {
+			await postService.react('testing', 'currentUserId', null)
+
+			expect(mockReactionsRepository.delete).toHaveBeenCalledWith({
+				user: { id: 'currentUserId' },
+				post: { id: 'testing' },
+			})
+			expect(mockReactionQueryBuilder.execute).not.toHaveBeenCalled()
+		})
+
+		it('should refuse emoji outside of the reaction set', async () => {
+			await expect(
+				postService.react('testing', 'currentUserId', '💩')
+			).rejects.toBeInstanceOf(BadRequestException)
+			expect(mockReactionQueryBuilder.execute).not.toHaveBeenCalled()
+		})
+
+		it('should use the configured reaction set', async () => {
+			process.env.REACTION_EMOJIS = '💩, 🔥'
+
+			await postService.react('testing', 'currentUserId', '💩')
+			delete process.env.REACTION_EMOJIS
+
+			expect(mockReactionQueryBuilder.execute).toHaveBeenCalled()
 		})
 	})
 })
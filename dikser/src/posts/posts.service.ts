@@ -1,20 +1,46 @@
 import {
 	BadRequestException,
+	ForbiddenException,
 	Injectable,
 	NotFoundException,
 	UnauthorizedException,
 } from '@nestjs/common'
 import { InjectRepository } from '@nestjs/typeorm'
-import { Repository } from 'typeorm'
+import { Repository, SelectQueryBuilder } from 'typeorm'
+import { Comment } from '../comments/entities/comment.entity'
 import { RelationshipService } from '../relationship/relationship.service'
+import { TagsService } from '../tags/tags.service'
+import { MediaQueueProducer } from '../queues/producers/media-queue.producer'
+import { PostsQueueProducer } from '../queues/producers/posts-queue.producer'
+import { PaginationArgs } from '../shared/dto/pagination.args'
+import { captionToText } from '../shared/utils/hashtags'
+import { whereOnThisDay } from '../shared/utils/on-this-day'
+import { hotScore, postScore } from '../shared/utils/post-ranking'
+import { paginateQuery, toConnection } from '../shared/utils/pagination'
 import { User } from '../users/entities/user.entity'
 import { UsersService } from '../users/users.service'
 import { CreateAttachmentInput } from './dto/create-attachments.input'
 import { CreatePostInput } from './dto/create-post.input'
 import { DeletePostResponse } from './dto/delete-response.dto'
+import { FeedArgs } from './dto/feed.args'
+import { FeedSort, TopWindow, TOP_WINDOW_DAYS } from './dto/feed-sort.enum'
+import { ReactionCount } from './dto/reactions/reaction-count.dto'
+import { reactionEmojis } from './dto/reactions/reaction-emojis'
+import { VoteDirection } from './dto/votes/vote-direction.enum'
 import { UpdatePostInput } from './dto/update-post.input'
+import { PostViewStat } from './dto/views/post-view-stat.dto'
+import { ViewStatsInterval } from './dto/views/view-stats-interval.enum'
 import { Attachments } from './entities/attachments.entity'
+import { MediaItem } from './entities/media-item.entity'
 import { Post } from './entities/post.entity'
+import { PostRevision } from './entities/post-revision.entity'
+import { PostView } from './entities/post-view.entity'
+import { PostViewBucket } from './entities/post-view-bucket.entity'
+import { Reaction } from './entities/reaction.entity'
+import { PostPolicyService } from './post-policy.service'
+
+// Posts a user could pin on their profile at a time
+export const MAX_PINNED_POSTS = 3
 
 @Injectable()
 export class PostsService {
@@ -23,8 +49,24 @@ export class PostsService {
 		private readonly postsRepository: Repository<Post>,
 		@InjectRepository(Attachments)
 		private readonly attachmentsRepository: Repository<Attachments>,
+		@InjectRepository(PostRevision)
+		private readonly revisionsRepository: Repository<PostRevision>,
+		@InjectRepository(MediaItem)
+		private readonly mediaItemsRepository: Repository<MediaItem>,
+		@InjectRepository(Reaction)
+		private readonly reactionsRepository: Repository<Reaction>,
+		@InjectRepository(PostView)
+		private readonly viewsRepository: Repository<PostView>,
+		@InjectRepository(PostViewBucket)
+		private readonly viewBucketsRepository: Repository<PostViewBucket>,
+		@InjectRepository(Comment)
+		private readonly commentsRepository: Repository<Comment>,
 		private readonly usersService: UsersService,
-		private readonly relationshipService: RelationshipService
+		private readonly relationshipService: RelationshipService,
+		private readonly postsQueueService: PostsQueueProducer,
+		private readonly mediaQueueService: MediaQueueProducer,
+		private readonly tagsService: TagsService,
+		private readonly postPolicy: PostPolicyService
 	) {}
 
 	async create(
@@ -41,6 +83,21 @@ export class PostsService {
 		 */
 		const createdPost = this.postsRepository.create(createPostInput)
 		createdPost.author = relatedUser
+		createdPost.caption_text = captionToText(createPostInput.caption)
+
+		// bind #tags written in the caption
+		createdPost.tags = await this.tagsService.findOrCreateFromCaption(
+			createPostInput.caption
+		)
+
+		/**
+		 * If user set @publish_at, keep the post hidden
+		 * until the publishing job flips it at that time
+		 */
+		if (createPostInput.publish_at) {
+			this.validatePublishTime(createPostInput.publish_at)
+			createdPost.scheduled = true
+		}
 
 		/**
 		 * If user set @type to private
@@ -81,10 +138,10 @@ export class PostsService {
 		 * in its post, set relation between post and
 		 * attachments to null
 		 */
-		if (createAttachmentInput) {
-			const createdAttachments = this.attachmentsRepository.create(
-				createAttachmentInput
-			)
+		const { media, ...legacyAttachments } = createAttachmentInput ?? {}
+		if (legacyAttachments.uri) {
+			const createdAttachments =
+				this.attachmentsRepository.create(legacyAttachments)
 
 			await this.attachmentsRepository.save(createdAttachments)
 			/**
@@ -94,50 +151,262 @@ export class PostsService {
 			createdPost.attachments = createdAttachments
 		}
 
+		/**
+		 * Media items are inserted along with the post,
+		 * their position follows the order given by the client
+		 */
+		if (media) {
+			createdPost.media = media.map((item, position) =>
+				this.mediaItemsRepository.create({ ...item, position })
+			)
+		}
+
+		const savedPost = await this.postsRepository.save(createdPost)
+
+		/**
+		 * Images are processed in the background,
+		 * @see queues/consumers/media-queue.consumer.ts
+		 */
+		const imageIds = (savedPost.media ?? [])
+			.filter((item) => item.type === 'image')
+			.map((item) => item.id)
+		if (imageIds.length)
+			await this.mediaQueueService.processImagesToQueue(imageIds)
+
+		if (savedPost.scheduled)
+			await this.postsQueueService.schedulePostPublishing(
+				savedPost.id,
+				savedPost.publish_at
+			)
+
 		// return finished data back to user
-		return await this.postsRepository.save(createdPost)
+		return savedPost
 	}
 
-	async findAll() {
-		return await this.postsRepository.find({
-			where: {
-				type: 'public',
-			},
-			relations: [
-				'author',
-				'author.badges',
-				'attachments',
-				'relationship',
-				'relationship.partnership',
-				'reachs',
-				'upvoter',
-				'downvoter',
-			],
-			order: {
-				created_at: 'DESC',
-			},
+	/**
+	 * @Reposts
+	 * Share a public post into the timeline of the current user,
+	 * quote post is a repost with its own caption
+	 */
+	async repost(currentUser: User, postId: string) {
+		const original = await this.findRepostable(currentUser, postId)
+
+		// a post could only be reposted once, quotes are not counted
+		const previousRepost = await this.postsRepository
+			.createQueryBuilder('post')
+			.innerJoin('post.author', 'author')
+			.where('author.id = :authorId', { authorId: currentUser.id })
+			.andWhere('post.original = :originalId', {
+				originalId: original.id,
+			})
+			.andWhere('post.caption = :caption', { caption: '' })
+			.getOne()
+		if (previousRepost)
+			throw new BadRequestException('You have already reposted this post')
+
+		return await this.createRepost(currentUser, original, '')
+	}
+
+	async quote(currentUser: User, postId: string, caption: string) {
+		if (!caption.trim())
+			throw new BadRequestException('Quote post must have a caption')
+
+		const original = await this.findRepostable(currentUser, postId)
+		return await this.createRepost(currentUser, original, caption)
+	}
+
+	private async findRepostable(currentUser: User, postId: string) {
+		let original: Post | undefined = await this.findById(
+			postId,
+			currentUser.id
+		)
+
+		/**
+		 * Reposting a plain repost shares its original instead,
+		 * so reposts never chain into each other
+		 */
+		if (original.repost && !original.caption) {
+			const relatedRepost = await this.postsRepository.findOne(postId, {
+				relations: [
+					'original',
+					'original.author',
+					'original.relationship',
+					'original.relationship.partnership',
+				],
+			})
+			original = relatedRepost?.original
+		}
+
+		// original which became private or deleted could not be shared again
+		if (!original || !this.postPolicy.canRepost(original, currentUser.id))
+			throw new BadRequestException('Only public post could be reposted')
+
+		return original
+	}
+
+	private async createRepost(
+		currentUser: User,
+		original: Post,
+		caption: string
+	) {
+		const createdPost = this.postsRepository.create({
+			caption,
+			caption_text: captionToText(caption),
+			type: 'public',
+			repost: true,
 		})
+		createdPost.author = await this.usersService.findById(currentUser.id)
+		createdPost.original = original
+		createdPost.tags = await this.tagsService.findOrCreateFromCaption(
+			caption
+		)
+
+		return await this.postsRepository.save(createdPost)
 	}
 
-	async findById(postId: string) {
-		try {
-			const relatedPost = await this.postsRepository.findOneOrFail(
-				postId,
-				{
-					relations: [
-						'upvoter',
-						'author',
-						'reachs',
-						'downvoter',
-						'comments',
-						'comments.author',
-					],
-				}
+	async findAll(feedArgs: FeedArgs, userId?: string) {
+		/**
+		 * Public feed is the same for everyone, so posts are listed
+		 * as anyone would see them, private and own posts are not.
+		 * Relations are not joined here, they are
+		 * batch-loaded by field resolvers when requested
+		 * @see loaders/loaders.service.ts
+		 */
+		const query = this.postPolicy.whereListable(
+			this.postsRepository.createQueryBuilder('post'),
+			'post'
+		)
+
+		/**
+		 * Only fetch one page of posts at a time,
+		 * ordered by the requested sort.
+		 * @see shared/utils/pagination.ts
+		 */
+		const posts = await this.paginateFeed(
+			this.withCounts(query),
+			feedArgs
+		).getMany()
+
+		return toConnection(await this.mapMyVote(posts, userId), feedArgs.first)
+	}
+
+	/**
+	 * HOT and TOP feeds are ordered by the stored scores of the posts,
+	 * so they are paginated just like the newest first feed
+	 * @see refreshScore
+	 */
+	private paginateFeed(query: SelectQueryBuilder<Post>, feedArgs: FeedArgs) {
+		switch (feedArgs.sort) {
+			case FeedSort.HOT:
+				return paginateQuery(query, feedArgs, 'DESC', 'hot_score')
+
+			case FeedSort.TOP: {
+				const days = TOP_WINDOW_DAYS[feedArgs.window ?? TopWindow.WEEK]
+				if (days)
+					query.andWhere('post.created_at >= :since', {
+						since: new Date(
+							Date.now() - days * 24 * 60 * 60 * 1000
+						),
+					})
+				return paginateQuery(query, feedArgs, 'DESC', 'score')
+			}
+
+			default:
+				return paginateQuery(query, feedArgs)
+		}
+	}
+
+	async findByTag(
+		tag: string,
+		paginationArgs: PaginationArgs,
+		userId?: string
+	) {
+		/**
+		 * Tag pages are public,
+		 * only public posts are listed just like the public feed
+		 */
+		const query = this.postPolicy.whereListable(
+			this.postsRepository
+				.createQueryBuilder('post')
+				.innerJoin('post.tags', 'tag', 'tag.name = :name', {
+					name: tag.replace(/^#/, '').toLowerCase(),
+				}),
+			'post'
+		)
+
+		const posts = await paginateQuery(
+			this.withCounts(query),
+			paginationArgs
+		).getMany()
+
+		return toConnection(
+			await this.mapMyVote(posts, userId),
+			paginationArgs.first
+		)
+	}
+
+	async findRelationshipFeed(
+		currentUser: User,
+		paginationArgs: PaginationArgs
+	) {
+		const relatedUser = await this.usersService.findById(currentUser.id)
+
+		// if there is no relationship, throw an error
+		if (!relatedUser.relationship)
+			throw new BadRequestException(
+				'You do not have relationship just yet'
 			)
 
-			// if post is not public, throw an error
-			if (relatedPost.type === 'private') throw new NotFoundException()
-			return relatedPost
+		const currentRelationship = await this.relationshipService.findById(
+			relatedUser.relationship.id
+		)
+
+		/**
+		 * Private feed is only readable by
+		 * the partners of the relationship itself
+		 */
+		const partnerIds = currentRelationship.partnership.map(
+			(partner) => partner.id
+		)
+		if (!partnerIds.includes(relatedUser.id)) throw new ForbiddenException()
+
+		// only private posts the partners wrote for the relationship
+		const query = this.postPolicy
+			.whereListable(
+				this.postsRepository
+					.createQueryBuilder('post')
+					.innerJoin('post.author', 'author'),
+				'post',
+				relatedUser.id,
+				currentRelationship.id
+			)
+			.andWhere('post.type = :type', { type: 'private' })
+			.andWhere('post.relationship = :relationshipId', {
+				relationshipId: currentRelationship.id,
+			})
+			.andWhere('author.id IN (:...partnerIds)', { partnerIds })
+
+		const posts = await paginateQuery(
+			this.withCounts(query),
+			paginationArgs
+		).getMany()
+
+		return toConnection(
+			await this.mapMyVote(posts, relatedUser.id),
+			paginationArgs.first
+		)
+	}
+
+	async findById(postId: string, userId?: string) {
+		let relatedPost: Post
+		try {
+			relatedPost = await this.postsRepository.findOneOrFail(postId, {
+				relations: [
+					'author',
+					'relationship',
+					'relationship.partnership',
+				],
+			})
 		} catch (e) {
 			/**
 			 * @Error here means that client fails to get
@@ -145,28 +414,218 @@ export class PostsService {
 			 */
 			throw new NotFoundException(e.message)
 		}
+
+		// if post is not visible to the user, throw an error
+		if (!this.postPolicy.canView(relatedPost, userId))
+			throw new NotFoundException()
+
+		// votes, reachs, comments and reposts are counted, never loaded
+		const countedPost = await this.withCounts(
+			this.postsRepository
+				.createQueryBuilder('post')
+				.select('post.id')
+				.where('post.id = :postId', { postId })
+		).getOne()
+		Object.assign(relatedPost, countedPost)
+
+		const [result] = await this.mapMyVote([relatedPost], userId)
+		return result
+	}
+
+	/**
+	 * Light version of findById, only loads what the policy needs
+	 * to decide whether the user could view the post
+	 */
+	async findViewable(postId: string, userId?: string) {
+		const targetPost = await this.postsRepository.findOne(postId, {
+			relations: ['author', 'relationship', 'relationship.partnership'],
+		})
+		if (!targetPost || !this.postPolicy.canView(targetPost, userId))
+			throw new NotFoundException()
+
+		return targetPost
+	}
+
+	async findOnThisDay(currentUser: User) {
+		// relationship of the user is needed to find private memories
+		const relatedUser = await this.usersService.findById(currentUser.id)
+
+		const memories = await this.withCounts(
+			whereOnThisDay(
+				this.postPolicy,
+				this.postsRepository.createQueryBuilder('post'),
+				relatedUser
+			)
+		).getMany()
+
+		return await this.mapMyVote(memories, relatedUser.id)
+	}
+
+	/**
+	 * @Ranking
+	 * Store ranking scores of a post,
+	 * called whenever its votes or comments change
+	 * @see shared/utils/post-ranking.ts
+	 */
+	async refreshScore(postId: string) {
+		const post = await this.withCounts(
+			this.postsRepository
+				.createQueryBuilder('post')
+				.where('post.id = :postId', { postId })
+		).getOne()
+		if (!post) return
+
+		const score = postScore(post)
+		await this.postsRepository.update(postId, {
+			score,
+			hot_score: hotScore(score, post.created_at),
+		})
+	}
+
+	/**
+	 * Count votes, reachs, comments and reposts of every post in the query,
+	 * TypeORM runs one grouped COUNT query per relation
+	 * instead of loading every voter, viewer and comment.
+	 * Reposts in the trash are not counted.
+	 */
+	private withCounts(query: SelectQueryBuilder<Post>) {
+		return query
+			.loadRelationCountAndMap('post.upvoteCount', 'post.upvoter')
+			.loadRelationCountAndMap('post.downvoteCount', 'post.downvoter')
+			.loadRelationCountAndMap('post.reachCount', 'post.views')
+			.loadRelationCountAndMap('post.commentCount', 'post.comments')
+			.loadRelationCountAndMap(
+				'post.repostCount',
+				'post.reposts',
+				'repost',
+				(reposts) => reposts.andWhere('repost.deleted_at IS NULL')
+			)
+	}
+
+	/**
+	 * Bind vote of the current user to each post,
+	 * only the votes of the given posts are queried.
+	 */
+	private async mapMyVote(posts: Post[], userId?: string) {
+		if (!userId || !posts.length) return posts
+
+		const postIds = posts.map((post) => post.id)
+		const [upvoted, downvoted] = await Promise.all(
+			['upvoter', 'downvoter'].map((relation) =>
+				this.postsRepository
+					.createQueryBuilder('post')
+					.select('post.id')
+					.innerJoin(
+						`post.${relation}`,
+						'voter',
+						'voter.id = :userId',
+						{
+							userId,
+						}
+					)
+					.where('post.id IN (:...postIds)', { postIds })
+					.getMany()
+			)
+		)
+
+		return posts.map((post) => {
+			post.myVote = upvoted.some((voted) => voted.id === post.id)
+				? VoteDirection.UP
+				: downvoted.some((voted) => voted.id === post.id)
+				? VoteDirection.DOWN
+				: VoteDirection.NONE
+			return post
+		})
+	}
+
+	/**
+	 * Posts created before media items existed only have attachments,
+	 * every uri of it is read as a media item so clients need only one field
+	 */
+	attachmentsToMedia(attachments?: Attachments | null) {
+		if (!attachments) return []
+
+		return attachments.uri.map((uri, position) =>
+			Object.assign(new MediaItem(), {
+				id: `${attachments.id}-${position}`,
+				type: attachments.type,
+				uri,
+				position,
+			})
+		)
 	}
 
 	async update(currentUser: User, updatePostInput: UpdatePostInput) {
 		try {
 			const relatedPost = await this.postsRepository.findOneOrFail(
-				updatePostInput.id
+				updatePostInput.id,
+				{
+					relations: ['author', 'relationship'],
+				}
 			)
 
 			/**
 			 * Check if current post is related to
 			 * the current user, if not, throw an exception
 			 */
-			if (relatedPost.author.id !== currentUser.id)
+			if (!this.postPolicy.canEdit(relatedPost, currentUser.id))
 				throw new NotFoundException()
 
 			/**
-			 * update given input from @UpdatePostInput
+			 * Post made private is bound to the relationship
+			 * of its author, the same way as a new private post
 			 */
-			await this.postsRepository.update(
-				updatePostInput.id,
-				Object.assign({}, updatePostInput)
+			const relatedUser = await this.usersService.findById(currentUser.id)
+			const relationship =
+				updatePostInput.type === 'private' &&
+				!relatedPost.relationship &&
+				relatedUser.relationship
+					? await this.relationshipService.findById(
+							relatedUser.relationship.id
+					  )
+					: relatedPost.relationship
+
+			if (
+				updatePostInput.type &&
+				!this.postPolicy.canChangeType(
+					{ ...relatedPost, relationship },
+					updatePostInput.type
+				)
 			)
+				throw new BadRequestException(
+					'You do not have relationship just yet'
+				)
+
+			/**
+			 * Record what the post said before it is overwritten,
+			 * so readers can see the history of an edited post
+			 */
+			const revision = this.revisionsRepository.create({
+				caption: relatedPost.caption,
+				type: relatedPost.type,
+				post: relatedPost,
+			})
+			await this.revisionsRepository.save(revision)
+
+			/**
+			 * update given input from @UpdatePostInput,
+			 * plain text of a new caption is searched instead of it
+			 */
+			const changes: Partial<Post> = { ...updatePostInput, edited: true }
+			if (relationship !== relatedPost.relationship)
+				changes.relationship = relationship
+			if (updatePostInput.caption !== undefined)
+				changes.caption_text = captionToText(updatePostInput.caption)
+			await this.postsRepository.update(updatePostInput.id, changes)
+
+			// caption is changed, so are its #tags
+			if (updatePostInput.caption !== undefined)
+				await this.postsRepository.save({
+					id: updatePostInput.id,
+					tags: await this.tagsService.findOrCreateFromCaption(
+						updatePostInput.caption
+					),
+				})
 
 			// Returns updated Post object
 			return await this.postsRepository.findOneOrFail(updatePostInput.id)
@@ -186,6 +645,179 @@ export class PostsService {
 		}
 	}
 
+	async restoreRevision(currentUser: User, revisionId: string) {
+		const revision = await this.revisionsRepository.findOne(revisionId, {
+			relations: ['post', 'post.author'],
+		})
+
+		/**
+		 * Only author of the post could restore its revision,
+		 * anyone else should not know the revision even exists
+		 */
+		if (
+			!revision ||
+			!this.postPolicy.canEdit(revision.post, currentUser.id)
+		)
+			throw new NotFoundException()
+
+		/**
+		 * Restoring is just another update,
+		 * current version of the post is recorded as a revision too
+		 */
+		return await this.update(currentUser, {
+			id: revision.post.id,
+			caption: revision.caption,
+			type: revision.type,
+		})
+	}
+
+	/**
+	 * @Scheduled
+	 * Services to handle posts waiting to be published,
+	 * these are only accessible by the author of the post.
+	 */
+	async findScheduled(currentUser: User) {
+		return await this.postsRepository
+			.createQueryBuilder('post')
+			.innerJoin('post.author', 'author')
+			.where('author.id = :authorId', { authorId: currentUser.id })
+			.andWhere('post.scheduled = :scheduled', { scheduled: true })
+			.orderBy('post.publish_at', 'ASC')
+			.getMany()
+	}
+
+	async reschedule(currentUser: User, postId: string, publishAt: Date) {
+		await this.findScheduledById(currentUser, postId)
+		this.validatePublishTime(publishAt)
+
+		await this.postsRepository.update(postId, { publish_at: publishAt })
+
+		// replace the previous publishing job
+		await this.postsQueueService.cancelPostPublishing(postId)
+		await this.postsQueueService.schedulePostPublishing(postId, publishAt)
+
+		return await this.postsRepository.findOneOrFail(postId)
+	}
+
+	async cancelScheduled(currentUser: User, postId: string) {
+		const relatedPost = await this.findScheduledById(currentUser, postId)
+
+		/**
+		 * Cancelled post has never been seen by anyone,
+		 * so it is deleted along with its publishing job
+		 */
+		await this.postsQueueService.cancelPostPublishing(postId)
+		await this.postsRepository.delete(postId)
+
+		return new DeletePostResponse(relatedPost, 'DELETED', 200)
+	}
+
+	async findTrashed(currentUser: User) {
+		return await this.postsRepository
+			.createQueryBuilder('post')
+			.withDeleted()
+			.innerJoin('post.author', 'author')
+			.where('author.id = :authorId', { authorId: currentUser.id })
+			.andWhere('post.deleted_at IS NOT NULL')
+			.orderBy('post.deleted_at', 'DESC')
+			.getMany()
+	}
+
+	async restore(currentUser: User, postId: string) {
+		const relatedPost = await this.postsRepository.findOne(postId, {
+			relations: ['author'],
+			withDeleted: true,
+		})
+
+		// only trashed post of the current user could be restored
+		if (
+			!relatedPost ||
+			!relatedPost.deleted_at ||
+			!this.postPolicy.canEdit(relatedPost, currentUser.id)
+		)
+			throw new NotFoundException()
+
+		await this.postsRepository.restore(postId)
+
+		return await this.postsRepository.findOneOrFail(postId)
+	}
+
+	private async findScheduledById(currentUser: User, postId: string) {
+		const relatedPost = await this.postsRepository.findOne(postId, {
+			relations: ['author'],
+		})
+
+		/**
+		 * Post that is not scheduled anymore is already published,
+		 * it could only be updated or removed like any other post
+		 */
+		if (
+			!relatedPost ||
+			!relatedPost.scheduled ||
+			!this.postPolicy.canEdit(relatedPost, currentUser.id)
+		)
+			throw new NotFoundException()
+
+		return relatedPost
+	}
+
+	private validatePublishTime(publishAt: Date) {
+		if (publishAt.getTime() <= Date.now())
+			throw new BadRequestException(
+				'Post could only be scheduled in the future'
+			)
+	}
+
+	/**
+	 * @Pinned
+	 * Featured posts shown first on the profile of their author,
+	 * in the order they were pinned
+	 */
+	async pin(currentUser: User, postId: string) {
+		const relatedPost = await this.findPinnable(currentUser, postId)
+		if (relatedPost.pinned_at) return relatedPost
+
+		const pinnedCount = await this.postsRepository
+			.createQueryBuilder('post')
+			.innerJoin('post.author', 'author')
+			.where('author.id = :authorId', { authorId: currentUser.id })
+			.andWhere('post.pinned_at IS NOT NULL')
+			.getCount()
+		if (pinnedCount >= MAX_PINNED_POSTS)
+			throw new BadRequestException(
+				`Only ${MAX_PINNED_POSTS} posts could be pinned at a time`
+			)
+
+		await this.postsRepository.update(postId, { pinned_at: new Date() })
+
+		return await this.postsRepository.findOneOrFail(postId)
+	}
+
+	async unpin(currentUser: User, postId: string) {
+		await this.findPinnable(currentUser, postId)
+
+		await this.postsRepository.update(postId, { pinned_at: () => 'NULL' })
+
+		return await this.postsRepository.findOneOrFail(postId)
+	}
+
+	private async findPinnable(currentUser: User, postId: string) {
+		const relatedPost = await this.postsRepository.findOne(postId, {
+			relations: ['author'],
+		})
+
+		// only own posts could be pinned on the profile
+		if (
+			!relatedPost ||
+			!this.postPolicy.canEdit(relatedPost, currentUser.id)
+		)
+			throw new NotFoundException()
+		if (relatedPost.scheduled)
+			throw new BadRequestException('Scheduled post could not be pinned')
+
+		return relatedPost
+	}
+
 	async remove(currentUser: User, postId: string) {
 		try {
 			const relatedPost = await this.postsRepository.findOneOrFail(
@@ -198,10 +830,14 @@ export class PostsService {
 			 * Check if current post is related to
 			 * the current user, if not, throw an exception
 			 */
-			if (relatedPost.author.id !== currentUser.id)
+			if (!this.postPolicy.canEdit(relatedPost, currentUser.id))
 				throw new NotFoundException()
 
-			await this.postsRepository.delete(postId)
+			// moved to trash unpinned, so restoring it never exceeds the limit
+			await this.postsRepository.update(postId, {
+				pinned_at: () => 'NULL',
+			})
+			await this.postsRepository.softDelete(postId)
 
 			/**
 			 * Return formatted delete result
@@ -226,95 +862,218 @@ export class PostsService {
 	}
 
 	/**
-	 * These two services below used to handle post reachs/views
-	 * When "public" post is shown in someone feeds
+	 * These services below used to handle post reachs/views
+	 * When post is shown in someone feeds
 	 * @addPostReachs should be called
 	 */
-	async getPostReachs(postId: string) {
-		const targetPost = await this.findById(postId)
-		if (!targetPost.reachs) return 0
-		return targetPost.reachs.length
+	async getPostReachs(postId: string, userId: string) {
+		const targetPost = await this.withCounts(
+			this.postsRepository
+				.createQueryBuilder('post')
+				.leftJoinAndSelect('post.author', 'author')
+				.leftJoinAndSelect('post.relationship', 'relationship')
+				.leftJoinAndSelect('relationship.partnership', 'partnership')
+				.where('post.id = :postId', { postId })
+		).getOne()
+
+		if (!targetPost || !this.postPolicy.canView(targetPost, userId))
+			throw new NotFoundException()
+		return targetPost.reachCount
 	}
 
+	/**
+	 * The view is only buffered here,
+	 * it is counted once the flush-post-views job writes it
+	 * @see PostsQueueProducer.bufferPostView
+	 */
 	async addPostReachs(postId: string, userId: string) {
-		const targetPost = await this.findById(postId)
-		const user = await this.usersService.findById(userId)
-
-		// if user already viewed
-		if (targetPost.reachs.find((value) => value.id === user.id)) return 200
+		const targetPost = await this.findViewable(postId, userId)
 
 		// if user is the author of the post => exclude
-		if (targetPost.author.id === user.id) return 200
+		if (this.postPolicy.canEdit(targetPost, userId)) return 200
 
-		// Add User
-		targetPost.reachs = [...targetPost.reachs, user]
-		await this.postsRepository.save(targetPost)
+		await this.postsQueueService.bufferPostView(postId, userId)
 
 		return 200
 	}
 
 	/**
-	 * @Upvotes
-	 * Services to handle changes when user
-	 * Downvoting a post then save it to the database
+	 * Unique viewers and total views of a post over time,
+	 * grouped by the given interval.
+	 * Only the author could see the stats of a post
 	 */
-	async addUpvote(postId: string, userId: string) {
-		const targetPost = await this.findById(postId)
-		const upvoter = await this.usersService.findById(userId)
+	async getViewStats(
+		postId: string,
+		userId: string,
+		interval: ViewStatsInterval
+	) {
+		const targetPost = await this.postsRepository.findOne(postId, {
+			relations: ['author'],
+		})
+		if (!targetPost || !this.postPolicy.canEdit(targetPost, userId))
+			throw new NotFoundException()
 
-		// Add User Upvote
-		targetPost.upvoter = [...targetPost.upvoter, upvoter]
+		const viewerRows = await this.viewsRepository
+			.createQueryBuilder('view')
+			.select('date_trunc(:interval, view.first_seen)', 'bucket')
+			.addSelect('COUNT(view.id)', 'viewers')
+			.where('view.post = :postId', { postId })
+			.groupBy('"bucket"')
+			.setParameter('interval', interval.toLowerCase())
+			.getRawMany()
 
-		return await this.postsRepository.save(targetPost)
-	}
+		// views are recorded by hour, so they add up to any interval
+		const viewRows = await this.viewBucketsRepository
+			.createQueryBuilder('viewBucket')
+			.select('date_trunc(:interval, viewBucket.hour)', 'bucket')
+			.addSelect('SUM(viewBucket.count)', 'views')
+			.where('viewBucket.post = :postId', { postId })
+			.groupBy('"bucket"')
+			.setParameter('interval', interval.toLowerCase())
+			.getRawMany()
 
-	async removeUpvote(postId: string, userId: string) {
-		const targetPost = await this.findById(postId)
-		const upvoter = await this.usersService.findById(userId)
+		// an interval could have views of returning viewers only
+		const stats = new Map<number, PostViewStat>()
+		const statOf = (bucket: string | Date) => {
+			const date = new Date(bucket)
+			const stat =
+				stats.get(date.getTime()) ?? new PostViewStat(date, 0, 0)
+			stats.set(date.getTime(), stat)
+			return stat
+		}
+		for (const row of viewerRows)
+			statOf(row.bucket).viewers = Number(row.viewers)
+		for (const row of viewRows) statOf(row.bucket).views = Number(row.views)
 
-		// Delete User Upvote
-		targetPost.upvoter = targetPost.upvoter.filter(
-			(voter) => voter.id !== upvoter.id
+		return [...stats.values()].sort(
+			(a, b) => a.date.getTime() - b.date.getTime()
 		)
+	}
+
+	/**
+	 * @Votes
+	 * Switch user vote of a post to the given direction.
+	 * Previous vote is always removed first so upvote and downvote
+	 * are mutually exclusive, and the same call can be safely retried.
+	 */
+	async votePost(postId: string, userId: string, direction: VoteDirection) {
+		// make sure the post exists and the user could vote on it
+		await this.findVotable(postId, userId)
+
+		await this.postsRepository.manager.transaction(async (manager) => {
+			/**
+			 * Lock the post row, concurrent votes on the same post
+			 * will wait for each other instead of racing
+			 */
+			await manager
+				.createQueryBuilder(Post, 'post')
+				.setLock('pessimistic_write')
+				.where('post.id = :postId', { postId })
+				.getOne()
 
-		return await this.postsRepository.save(targetPost)
+			await manager
+				.createQueryBuilder()
+				.relation(User, 'upvotes')
+				.of(userId)
+				.remove(postId)
+			await manager
+				.createQueryBuilder()
+				.relation(User, 'downvotes')
+				.of(userId)
+				.remove(postId)
+
+			if (direction === VoteDirection.NONE) return
+
+			await manager
+				.createQueryBuilder()
+				.relation(
+					User,
+					direction === VoteDirection.UP ? 'upvotes' : 'downvotes'
+				)
+				.of(userId)
+				.add(postId)
+		})
+
+		await this.refreshScore(postId)
+
+		// return post with its new votes
+		return await this.findById(postId, userId)
 	}
 
 	/**
-	 * @Downvotes
-	 * Services to handle changes when user
-	 * Downvoting a post then save it to the database
+	 * @Reactions
+	 * Set emoji reaction of the user to a post,
+	 * a new reaction replaces the previous one and null removes it
+	 * @returns reaction counts of the post
 	 */
-	async addDownvote(postId: string, userId: string) {
-		const targetPost = await this.findById(postId)
-		const downVoter = await this.usersService.findById(userId)
+	async react(postId: string, userId: string, emoji: string | null) {
+		if (emoji && !reactionEmojis().includes(emoji))
+			throw new BadRequestException('Unsupported reaction emoji')
 
-		// Add User Downvote
-		targetPost.downvoter = [...targetPost.downvoter, downVoter]
+		const targetPost = await this.findViewable(postId, userId)
+		if (!this.postPolicy.canReact(targetPost, userId))
+			throw new NotFoundException()
 
-		return await this.postsRepository.save(targetPost)
+		/**
+		 * Previous reaction of the user is replaced in a single statement,
+		 * so concurrent reactions could never hit the unique constraint
+		 */
+		if (emoji)
+			await this.reactionsRepository
+				.createQueryBuilder()
+				.insert()
+				.into(Reaction)
+				.values({
+					emoji,
+					user: { id: userId },
+					post: { id: postId },
+				})
+				.onConflict(
+					`("userId", "postId") DO UPDATE SET
+						"emoji" = EXCLUDED."emoji",
+						"created_at" = EXCLUDED."created_at"`
+				)
+				.execute()
+		else
+			await this.reactionsRepository.delete({
+				user: { id: userId },
+				post: { id: postId },
+			})
+
+		return await this.getReactionCounts(postId)
 	}
 
-	async removeDownvote(postId: string, userId: string) {
-		const targetPost = await this.findById(postId)
-		const downVoter = await this.usersService.findById(userId)
+	async getReactionCounts(postId: string) {
+		const rows = await this.reactionsRepository
+			.createQueryBuilder('reaction')
+			.select('reaction.emoji', 'emoji')
+			.addSelect('COUNT(reaction.id)', 'count')
+			.where('reaction.post = :postId', { postId })
+			.groupBy('reaction.emoji')
+			.orderBy('"count"', 'DESC')
+			.getRawMany()
 
-		// Delete User Downvote
-		targetPost.downvoter = targetPost.downvoter.filter(
-			(voter) => voter.id !== downVoter.id
+		return rows.map(
+			(row) => new ReactionCount(row.emoji, Number(row.count))
 		)
-
-		return await this.postsRepository.save(targetPost)
 	}
 
-	async getPostComments(postId: string) {
-		const targetPost = await this.findById(postId)
+	private async findVotable(postId: string, userId: string) {
+		const targetPost = await this.findViewable(postId, userId)
+		if (!this.postPolicy.canVote(targetPost, userId))
+			throw new NotFoundException()
 
-		if (!targetPost) throw new NotFoundException()
+		return targetPost
+	}
+
+	async getPostComments(postId: string, userId: string) {
+		await this.findViewable(postId, userId)
 
 		// Sort comments by Date
-		return targetPost.comments.sort(
-			(a, b) => Number(a.created_at) - Number(b.created_at)
-		)
+		return await this.commentsRepository.find({
+			where: { post: postId },
+			relations: ['author'],
+			order: { created_at: 'ASC' },
+		})
 	}
 }
@@ -1,10 +1,40 @@
 import { MailerService } from '@nestjs-modules/mailer'
 import { Processor, Process } from '@nestjs/bull'
+import { InjectRepository } from '@nestjs/typeorm'
 import { Job } from 'bull'
+import { Repository } from 'typeorm'
+import { Post } from '../../posts/entities/post.entity'
+import { PostPolicyService } from '../../posts/post-policy.service'
+import { captionToText } from '../../shared/utils/hashtags'
+import { whereOnThisDay } from '../../shared/utils/on-this-day'
+import { User } from '../../users/entities/user.entity'
+import { MailingQueueProducer } from '../producers/mailing-queue.producer'
+
+// longest caption shown in a reminder email, the rest is read on the site
+export const ON_THIS_DAY_CAPTION_LENGTH = 200
+
+/**
+ * Plain text of a caption cut to the given length,
+ * counted in characters so emoji are never split in half
+ */
+function captionExcerpt(caption: string, maxLength: number) {
+	const characters = [...captionToText(caption).trim()]
+	if (characters.length <= maxLength) return characters.join('')
+
+	return `${characters.slice(0, maxLength).join('').trimEnd()}…`
+}
 
 @Processor('mailing-service-queues')
 export class MailingQueueConsumer {
-	constructor(private mailerService: MailerService) {}
+	constructor(
+		private mailerService: MailerService,
+		private mailingQueueService: MailingQueueProducer,
+		@InjectRepository(User)
+		private readonly usersRepository: Repository<User>,
+		@InjectRepository(Post)
+		private readonly postsRepository: Repository<Post>,
+		private readonly postPolicy: PostPolicyService
+	) {}
 
 	@Process('send-greeting-email')
 	async sendGreetingEmailToUser(job: Job) {
@@ -18,4 +48,56 @@ export class MailingQueueConsumer {
 			},
 		})
 	}
+
+	/**
+	 * Runs once a day, queue a reminder email for every user
+	 * who turned it on and has memories on this day.
+	 * Users without any memory are not bothered at all.
+	 */
+	@Process('dispatch-on-this-day-emails')
+	async dispatchOnThisDayEmails() {
+		const today = new Date()
+		const subscribers = await this.usersRepository.find({
+			where: { on_this_day_reminder: true },
+			relations: ['relationship'],
+		})
+
+		for (const subscriber of subscribers) {
+			const memories = await whereOnThisDay(
+				this.postPolicy,
+				this.postsRepository.createQueryBuilder('post'),
+				subscriber,
+				today
+			).getMany()
+
+			if (!memories.length) continue
+
+			await this.mailingQueueService.sendOnThisDayEmailToQueue(
+				subscriber.username,
+				subscriber.email,
+				memories.map((memory) => ({
+					caption: captionExcerpt(
+						memory.caption,
+						ON_THIS_DAY_CAPTION_LENGTH
+					),
+					yearsAgo:
+						today.getFullYear() - memory.created_at.getFullYear(),
+				}))
+			)
+		}
+	}
+
+	@Process('send-on-this-day-email')
+	async sendOnThisDayEmailToUser(job: Job) {
+		await this.mailerService.sendMail({
+			to: job.data.email,
+			subject: `${job.data.username}, you have memories from this day`,
+			template: './on-this-day',
+			context: {
+				// ✏️ filling curly brackets with content
+				username: job.data.username,
+				memories: job.data.memories,
+			},
+		})
+	}
 }
@@ -0,0 +1,118 @@
+import { Test, TestingModule } from '@nestjs/testing'
+import { getRepositoryToken } from '@nestjs/typeorm'
+import { Job } from 'bull'
+import { MediaItem } from '../../posts/entities/media-item.entity'
+import { ImageProcessingService } from '../../uploads/image-processing.service'
+import { STORAGE_DRIVER } from '../../uploads/storage/storage-driver.interface'
+import { MediaQueueConsumer } from './media-queue.consumer'
+
+describe('MediaQueueConsumer', () => {
+	let consumer: MediaQueueConsumer
+
+	// first bytes of a png file
+	const pngBuffer = Buffer.from([
+		0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a,
+	])
+
+	// Media Item Repository Mocking
+	const mockMediaItemsRepository = {
+		findOne: jest.fn((mediaItemId: string) =>
+			Promise.resolve({
+				id: mediaItemId,
+				type: 'image',
+				uri: 'http://localhost:3000/uploads/author id/beach.png',
+				processed: false,
+				post: { author: { id: 'author id' } },
+			})
+		),
+		update: jest.fn(() => Promise.resolve({})),
+	}
+
+	// Storage Driver Mocking
+	const mockStorageDriver = {
+		keyOf: jest.fn((uri: string) =>
+			uri.replace('http://localhost:3000/uploads/', '')
+		),
+		get: jest.fn(() => Promise.resolve(pngBuffer)),
+		put: jest.fn((key: string) =>
+			Promise.resolve(`http://localhost:3000/uploads/${key}`)
+		),
+	}
+
+	// Image Processing Mocking
+	const mockImageProcessingService = {
+		process: jest.fn(() =>
+			Promise.resolve({
+				original: pngBuffer,
+				width: 1080,
+				height: 720,
+				thumbnail: pngBuffer,
+				medium: pngBuffer,
+				blurhash: 'LEHV6nWB2yk8pyo0adR*.7kCMdnj',
+			})
+		),
+	}
+
+	beforeEach(async () => {
+		const module: TestingModule = await Test.createTestingModule({
+			providers: [
+				MediaQueueConsumer,
+				{
+					provide: getRepositoryToken(MediaItem),
+					useValue: mockMediaItemsRepository,
+				},
+				{
+					provide: STORAGE_DRIVER,
+					useValue: mockStorageDriver,
+				},
+				{
+					provide: ImageProcessingService,
+					useValue: mockImageProcessingService,
+				},
+			],
+		}).compile()
+
+		consumer = module.get<MediaQueueConsumer>(MediaQueueConsumer)
+		jest.clearAllMocks()
+	})
+
+	it('should be defined', () => {
+		expect(consumer).toBeDefined()
+	})
+
+	it('should process images uploaded by the author of the post', async () => {
+		await consumer.processImage({
+			data: { mediaItemId: 'media item id' },
+		} as Job)
+
+		expect(mockStorageDriver.put).toHaveBeenCalledWith(
+			'author id/beach.png',
+			pngBuffer,
+			'image/png'
+		)
+		expect(mockMediaItemsRepository.update).toHaveBeenCalledWith(
+			'media item id',
+			expect.objectContaining({ processed: true })
+		)
+	})
+
+	it('should never touch files uploaded by someone else', async () => {
+		mockMediaItemsRepository.findOne.mockImplementationOnce(
+			(mediaItemId: string) =>
+				Promise.resolve({
+					id: mediaItemId,
+					type: 'image',
+					uri: 'http://localhost:3000/uploads/someone else id/beach.png',
+					processed: false,
+					post: { author: { id: 'author id' } },
+				})
+		)
+
+		await consumer.processImage({
+			data: { mediaItemId: 'media item id' },
+		} as Job)
+
+		expect(mockStorageDriver.get).not.toHaveBeenCalled()
+		expect(mockStorageDriver.put).not.toHaveBeenCalled()
+	})
+})
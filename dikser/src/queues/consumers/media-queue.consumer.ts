@@ -0,0 +1,78 @@
+import { Inject } from '@nestjs/common'
+import { Processor, Process } from '@nestjs/bull'
+import { InjectRepository } from '@nestjs/typeorm'
+import { Job } from 'bull'
+import { Repository } from 'typeorm'
+import { MediaItem } from '../../posts/entities/media-item.entity'
+import {
+	ImageProcessingService,
+	PROCESSABLE_MIME_TYPES,
+} from '../../uploads/image-processing.service'
+import {
+	StorageDriver,
+	STORAGE_DRIVER,
+} from '../../uploads/storage/storage-driver.interface'
+import { detectMimeType } from '../../uploads/utils/detect-mime-type'
+
+@Processor('media-processing-queues')
+export class MediaQueueConsumer {
+	constructor(
+		@InjectRepository(MediaItem)
+		private readonly mediaItemsRepository: Repository<MediaItem>,
+		@Inject(STORAGE_DRIVER) private readonly storageDriver: StorageDriver,
+		private readonly imageProcessingService: ImageProcessingService
+	) {}
+
+	@Process('process-image')
+	async processImage(job: Job) {
+		const mediaItem = await this.mediaItemsRepository.findOne(
+			job.data.mediaItemId,
+			{ relations: ['post', 'post.author'] }
+		)
+		if (!mediaItem || mediaItem.type !== 'image' || mediaItem.processed)
+			return
+
+		/**
+		 * Only files of our own storage are processed,
+		 * media hosted anywhere else is never downloaded by the server.
+		 * Files are grouped by their uploader, @see UploadsService.upload,
+		 * so a post could never overwrite files uploaded by someone else
+		 */
+		const key = this.storageDriver.keyOf(mediaItem.uri)
+		if (!key || !key.startsWith(`${mediaItem.post.author.id}/`)) return
+
+		const image = await this.storageDriver.get(key)
+		const mime = detectMimeType(image)
+		if (!mime || !PROCESSABLE_MIME_TYPES.includes(mime)) return
+
+		const processed = await this.imageProcessingService.process(image, mime)
+
+		/**
+		 * Original file is replaced so its metadata is gone for good,
+		 * renditions are stored next to it
+		 */
+		const baseKey = key.replace(/\.[^./]+$/, '')
+		const [, thumbnailUri, mediumUri] = await Promise.all([
+			this.storageDriver.put(key, processed.original, mime),
+			this.storageDriver.put(
+				`${baseKey}-thumbnail.webp`,
+				processed.thumbnail,
+				'image/webp'
+			),
+			this.storageDriver.put(
+				`${baseKey}-medium.webp`,
+				processed.medium,
+				'image/webp'
+			),
+		])
+
+		await this.mediaItemsRepository.update(mediaItem.id, {
+			width: processed.width,
+			height: processed.height,
+			blurhash: processed.blurhash,
+			thumbnail_uri: thumbnailUri,
+			medium_uri: mediumUri,
+			processed: true,
+		})
+	}
+}
@@ -0,0 +1,326 @@
+import { getQueueToken } from '@nestjs/bull'
+import { Test, TestingModule } from '@nestjs/testing'
+import { getRepositoryToken } from '@nestjs/typeorm'
+import { Job } from 'bull'
+import { LessThanOrEqual } from 'typeorm'
+import { Attachments } from '../../posts/entities/attachments.entity'
+import { Post } from '../../posts/entities/post.entity'
+import { PostView } from '../../posts/entities/post-view.entity'
+import { PostViewBucket } from '../../posts/entities/post-view-bucket.entity'
+import { hotScore, postScore } from '../../shared/utils/post-ranking'
+import { User } from '../../users/entities/user.entity'
+import { PENDING_POST_VIEWS_KEY } from '../producers/posts-queue.producer'
+import {
+	PostsQueueConsumer,
+	POST_VIEWS_BATCH_SIZE,
+	TRASH_RETENTION_DAYS,
+} from './posts-queue.consumer'
+
+describe('PostsQueueConsumer', () => {
+	let consumer: PostsQueueConsumer
+
+	// * Query Builder Mocking
+	const createdAt = new Date('2021-08-16T10:00:00.000Z')
+	const mockQueryBuilder: Record<string, any> = {
+		loadRelationCountAndMap: jest.fn(() => mockQueryBuilder),
+		whereInIds: jest.fn(() => mockQueryBuilder),
+		getMany: jest.fn(() =>
+			Promise.resolve([
+				{
+					id: 'post id',
+					created_at: createdAt,
+					upvoteCount: 1,
+					downvoteCount: 0,
+					commentCount: 0,
+					reachCount: 2,
+				},
+			])
+		),
+		insert: jest.fn(() => mockQueryBuilder),
+		into: jest.fn(() => mockQueryBuilder),
+		values: jest.fn(() => mockQueryBuilder),
+		onConflict: jest.fn(() => mockQueryBuilder),
+		execute: jest.fn(() => Promise.resolve()),
+	}
+
+	// * Post Repository Mocking
+	const mockPostsRepository = {
+		createQueryBuilder: jest.fn(() => mockQueryBuilder),
+		findByIds: jest.fn(() => Promise.resolve([{ id: 'post id' }])),
+		update: jest.fn(() => Promise.resolve({})),
+		find: jest.fn(() =>
+			Promise.resolve([
+				{ id: 'expired post id', attachments: { id: 'attachment id' } },
+				{ id: 'expired text post id', attachments: null },
+			])
+		),
+		delete: jest.fn(() => Promise.resolve({})),
+	}
+
+	const mockAttachmentsRepository = {
+		delete: jest.fn(() => Promise.resolve({})),
+	}
+
+	const mockViewsRepository = {
+		createQueryBuilder: jest.fn(() => mockQueryBuilder),
+	}
+
+	const mockViewBucketsRepository = {
+		createQueryBuilder: jest.fn(() => mockQueryBuilder),
+	}
+
+	const mockUsersRepository = {
+		findByIds: jest.fn(() =>
+			Promise.resolve([{ id: 'viewer id' }, { id: 'other viewer id' }])
+		),
+	}
+
+	// * Posts Queue Mocking, views are buffered in its redis client
+	const pendingViews = [
+		{ postId: 'post id', userId: 'viewer id', seenAt: 1629194400000 },
+		{ postId: 'post id', userId: 'other viewer id', seenAt: 1629196200000 },
+		{ postId: 'post id', userId: 'viewer id', seenAt: 1629198000000 },
+		{
+			postId: 'purged post id',
+			userId: 'viewer id',
+			seenAt: 1629198000000,
+		},
+	]
+	const mockRedisTransaction: Record<string, any> = {
+		lrange: jest.fn(() => mockRedisTransaction),
+		ltrim: jest.fn(() => mockRedisTransaction),
+		exec: jest.fn(() =>
+			Promise.resolve([
+				[null, pendingViews.map((view) => JSON.stringify(view))],
+				[null, 'OK'],
+			])
+		),
+	}
+	const mockPostsQueue = {
+		client: {
+			multi: jest.fn(() => mockRedisTransaction),
+		},
+	}
+
+	beforeEach(async () => {
+		const module: TestingModule = await Test.createTestingModule({
+			providers: [
+				PostsQueueConsumer,
+				{
+					provide: getRepositoryToken(Post),
+					useValue: mockPostsRepository,
+				},
+				{
+					provide: getRepositoryToken(Attachments),
+					useValue: mockAttachmentsRepository,
+				},
+				{
+					provide: getRepositoryToken(PostView),
+					useValue: mockViewsRepository,
+				},
+				{
+					provide: getRepositoryToken(PostViewBucket),
+					useValue: mockViewBucketsRepository,
+				},
+				{
+					provide: getRepositoryToken(User),
+					useValue: mockUsersRepository,
+				},
+				{
+					provide: getQueueToken('posts-service-queues'),
+					useValue: mockPostsQueue,
+				},
+			],
+		}).compile()
+
+		consumer = module.get<PostsQueueConsumer>(PostsQueueConsumer)
+		jest.clearAllMocks()
+	})
+
+	afterEach(() => jest.useRealTimers())
+
+	it('should be defined', () => {
+		expect(consumer).toBeDefined()
+	})
+
+	describe('publishScheduledPost()', () => {
+		it('should only publish the post once its time has come', async () => {
+			const now = new Date('2021-08-17T10:00:00.000Z')
+			jest.useFakeTimers('modern')
+			jest.setSystemTime(now)
+
+			await consumer.publishScheduledPost({
+				data: { postId: 'scheduled post id' },
+			} as Job)
+
+			expect(mockPostsRepository.update).toHaveBeenCalledWith(
+				{
+					id: 'scheduled post id',
+					scheduled: true,
+					publish_at: LessThanOrEqual(now),
+				},
+				{
+					scheduled: false,
+					created_at: now,
+					hot_score: hotScore(0, now),
+				}
+			)
+		})
+	})
+
+	describe('purgeDeletedPosts()', () => {
+		it('should only purge posts trashed before the retention window', async () => {
+			const now = new Date('2021-08-17T10:00:00.000Z')
+			jest.useFakeTimers('modern')
+			jest.setSystemTime(now)
+
+			await consumer.purgeDeletedPosts()
+
+			expect(mockPostsRepository.find).toHaveBeenCalledWith({
+				where: {
+					deleted_at: LessThanOrEqual(
+						new Date(
+							now.getTime() -
+								TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000
+						)
+					),
+				},
+				relations: ['attachments'],
+				withDeleted: true,
+			})
+		})
+
+		it('should delete attachments after their posts', async () => {
+			await consumer.purgeDeletedPosts()
+
+			expect(mockPostsRepository.delete).toHaveBeenCalledWith([
+				'expired post id',
+				'expired text post id',
+			])
+			expect(mockAttachmentsRepository.delete).toHaveBeenCalledWith([
+				'attachment id',
+			])
+			expect(
+				mockPostsRepository.delete.mock.invocationCallOrder[0]
+			).toBeLessThan(
+				mockAttachmentsRepository.delete.mock.invocationCallOrder[0]
+			)
+		})
+
+		it('should do nothing when no post has expired', async () => {
+			mockPostsRepository.find.mockImplementationOnce(() =>
+				Promise.resolve([])
+			)
+
+			await consumer.purgeDeletedPosts()
+
+			expect(mockPostsRepository.delete).not.toHaveBeenCalled()
+			expect(mockAttachmentsRepository.delete).not.toHaveBeenCalled()
+		})
+	})
+
+	describe('flushPostViews()', () => {
+		it('should take one batch off the buffer', async () => {
+			await consumer.flushPostViews()
+
+			expect(mockRedisTransaction.lrange).toHaveBeenCalledWith(
+				PENDING_POST_VIEWS_KEY,
+				0,
+				POST_VIEWS_BATCH_SIZE - 1
+			)
+			expect(mockRedisTransaction.ltrim).toHaveBeenCalledWith(
+				PENDING_POST_VIEWS_KEY,
+				POST_VIEWS_BATCH_SIZE,
+				-1
+			)
+		})
+
+		it('should upsert one row per viewer of existing posts', async () => {
+			await consumer.flushPostViews()
+
+			expect(mockQueryBuilder.into).toHaveBeenCalledWith(PostView)
+			expect(mockQueryBuilder.values).toHaveBeenCalledWith([
+				{
+					post: { id: 'post id' },
+					user: { id: 'viewer id' },
+					first_seen: new Date(1629194400000),
+					last_seen: new Date(1629198000000),
+					count: 2,
+				},
+				{
+					post: { id: 'post id' },
+					user: { id: 'other viewer id' },
+					first_seen: new Date(1629196200000),
+					last_seen: new Date(1629196200000),
+					count: 1,
+				},
+			])
+
+			// views of a known viewer are added up, never replaced
+			const [conflict] = mockQueryBuilder.onConflict.mock.calls[0]
+			expect(conflict).toMatch(/^\("userId", "postId"\) DO UPDATE SET/)
+			expect(conflict).toContain(
+				'"last_seen" = GREATEST("post_view"."last_seen", EXCLUDED."last_seen")'
+			)
+			expect(conflict).toContain(
+				'"count" = "post_view"."count" + EXCLUDED."count"'
+			)
+		})
+
+		it('should add up views of each post by hour', async () => {
+			await consumer.flushPostViews()
+
+			expect(mockQueryBuilder.into).toHaveBeenCalledWith(PostViewBucket)
+			expect(mockQueryBuilder.values).toHaveBeenCalledWith([
+				{
+					post: { id: 'post id' },
+					hour: new Date('2021-08-17T10:00:00.000Z'),
+					count: 2,
+				},
+				{
+					post: { id: 'post id' },
+					hour: new Date('2021-08-17T11:00:00.000Z'),
+					count: 1,
+				},
+			])
+			expect(mockQueryBuilder.onConflict).toHaveBeenCalledWith(
+				expect.stringMatching(
+					/^\("postId", "hour"\) DO UPDATE SET\s+"count" = "post_view_bucket"."count" \+ EXCLUDED."count"/
+				)
+			)
+			expect(mockQueryBuilder.execute).toHaveBeenCalledTimes(2)
+		})
+
+		it('should store the new scores of the viewed posts', async () => {
+			await consumer.flushPostViews()
+
+			const score = postScore({
+				upvoteCount: 1,
+				downvoteCount: 0,
+				commentCount: 0,
+				reachCount: 2,
+			})
+			expect(mockQueryBuilder.whereInIds).toHaveBeenCalledWith([
+				'post id',
+			])
+			expect(mockPostsRepository.update).toHaveBeenCalledWith('post id', {
+				score,
+				hot_score: hotScore(score, createdAt),
+			})
+		})
+
+		it('should do nothing when the buffer is empty', async () => {
+			mockRedisTransaction.exec.mockImplementationOnce(() =>
+				Promise.resolve([
+					[null, []],
+					[null, 'OK'],
+				])
+			)
+
+			await consumer.flushPostViews()
+
+			expect(mockPostsRepository.findByIds).not.toHaveBeenCalled()
+			expect(mockQueryBuilder.execute).not.toHaveBeenCalled()
+		})
+	})
+})
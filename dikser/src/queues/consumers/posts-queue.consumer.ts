@@ -0,0 +1,218 @@
+import { Processor, Process, InjectQueue } from '@nestjs/bull'
+import { InjectRepository } from '@nestjs/typeorm'
+import { Job, Queue } from 'bull'
+import { LessThanOrEqual, Repository } from 'typeorm'
+import { Attachments } from '../../posts/entities/attachments.entity'
+import { Post } from '../../posts/entities/post.entity'
+import { PostView } from '../../posts/entities/post-view.entity'
+import { PostViewBucket } from '../../posts/entities/post-view-bucket.entity'
+import { User } from '../../users/entities/user.entity'
+import { hotScore, postScore } from '../../shared/utils/post-ranking'
+import {
+	PendingPostView,
+	PENDING_POST_VIEWS_KEY,
+} from '../producers/posts-queue.producer'
+
+// how long a trashed post could still be restored
+export const TRASH_RETENTION_DAYS = 30
+
+// most views written by one flush, the rest waits for the next one
+export const POST_VIEWS_BATCH_SIZE = 5000
+
+const HOUR_IN_MS = 60 * 60 * 1000
+
+@Processor('posts-service-queues')
+export class PostsQueueConsumer {
+	constructor(
+		@InjectRepository(Post)
+		private readonly postsRepository: Repository<Post>,
+		@InjectRepository(Attachments)
+		private readonly attachmentsRepository: Repository<Attachments>,
+		@InjectRepository(PostView)
+		private readonly viewsRepository: Repository<PostView>,
+		@InjectRepository(PostViewBucket)
+		private readonly viewBucketsRepository: Repository<PostViewBucket>,
+		@InjectRepository(User)
+		private readonly usersRepository: Repository<User>,
+		@InjectQueue('posts-service-queues') private postsQueue: Queue
+	) {}
+
+	@Process('publish-post')
+	async publishScheduledPost(job: Job) {
+		/**
+		 * Only publish when the post is still scheduled and its time has come,
+		 * a stale job of a rescheduled or cancelled post changes nothing.
+		 * Creation date is moved to the publishing time,
+		 * so the post shows up on top of the feeds.
+		 * Nobody could interact with a scheduled post,
+		 * so it is ranked like a brand new post.
+		 */
+		const publishedAt = new Date()
+		await this.postsRepository.update(
+			{
+				id: job.data.postId,
+				scheduled: true,
+				publish_at: LessThanOrEqual(new Date()),
+			},
+			{
+				scheduled: false,
+				created_at: publishedAt,
+				hot_score: hotScore(0, publishedAt),
+			}
+		)
+	}
+
+	@Process('purge-deleted-posts')
+	async purgeDeletedPosts() {
+		const expiredAt = new Date(
+			Date.now() - TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000
+		)
+		const expiredPosts = await this.postsRepository.find({
+			where: { deleted_at: LessThanOrEqual(expiredAt) },
+			relations: ['attachments'],
+			withDeleted: true,
+		})
+		if (!expiredPosts.length) return
+
+		/**
+		 * Comments, media items and revisions are removed
+		 * along with the post by their ON DELETE CASCADE,
+		 * attachments are referenced by the post itself
+		 * so they could only be removed after it
+		 */
+		await this.postsRepository.delete(expiredPosts.map((post) => post.id))
+
+		const attachmentIds = expiredPosts
+			.filter((post) => post.attachments)
+			.map((post) => post.attachments.id)
+		if (attachmentIds.length)
+			await this.attachmentsRepository.delete(attachmentIds)
+	}
+
+	@Process('flush-post-views')
+	async flushPostViews() {
+		// take a batch off the buffer atomically, views pushed meanwhile stay
+		const [[, rawViews]] = await this.postsQueue.client
+			.multi()
+			.lrange(PENDING_POST_VIEWS_KEY, 0, POST_VIEWS_BATCH_SIZE - 1)
+			.ltrim(PENDING_POST_VIEWS_KEY, POST_VIEWS_BATCH_SIZE, -1)
+			.exec()
+		const pendingViews = (rawViews as string[]).map(
+			(rawView) => JSON.parse(rawView) as PendingPostView
+		)
+		if (!pendingViews.length) return
+
+		/**
+		 * Posts and users could be purged while their views were buffered,
+		 * one missing row would fail the whole batch
+		 */
+		const postIds = [...new Set(pendingViews.map((view) => view.postId))]
+		const userIds = [...new Set(pendingViews.map((view) => view.userId))]
+		const existingPosts = await this.postsRepository.findByIds(postIds, {
+			select: ['id'],
+			withDeleted: true,
+		})
+		const existingUsers = await this.usersRepository.findByIds(userIds, {
+			select: ['id'],
+		})
+
+		// merge views of the same user on the same post into one row
+		const rows = new Map<
+			string,
+			Pick<
+				PostView,
+				'post' | 'user' | 'first_seen' | 'last_seen' | 'count'
+			>
+		>()
+		const buckets = new Map<
+			string,
+			Pick<PostViewBucket, 'post' | 'hour' | 'count'>
+		>()
+		for (const { postId, userId, seenAt } of pendingViews) {
+			if (
+				!existingPosts.some((post) => post.id === postId) ||
+				!existingUsers.some((user) => user.id === userId)
+			)
+				continue
+
+			const seenDate = new Date(seenAt)
+
+			// views of the same post within the same hour are added up
+			const hour = seenDate.getTime() - (seenDate.getTime() % HOUR_IN_MS)
+			const bucket = buckets.get(`${postId}:${hour}`)
+			if (bucket) bucket.count += 1
+			else
+				buckets.set(`${postId}:${hour}`, {
+					post: { id: postId } as Post,
+					hour: new Date(hour),
+					count: 1,
+				})
+
+			const key = `${postId}:${userId}`
+			const row = rows.get(key)
+			if (!row) {
+				rows.set(key, {
+					post: { id: postId } as Post,
+					user: { id: userId } as User,
+					first_seen: seenDate,
+					last_seen: seenDate,
+					count: 1,
+				})
+				continue
+			}
+			if (seenDate < row.first_seen) row.first_seen = seenDate
+			if (seenDate > row.last_seen) row.last_seen = seenDate
+			row.count += 1
+		}
+		if (!rows.size) return
+
+		await this.viewsRepository
+			.createQueryBuilder()
+			.insert()
+			.into(PostView)
+			.values([...rows.values()])
+			.onConflict(
+				`("userId", "postId") DO UPDATE SET
+					"last_seen" = GREATEST("post_view"."last_seen", EXCLUDED."last_seen"),
+					"count" = "post_view"."count" + EXCLUDED."count"`
+			)
+			.execute()
+
+		await this.viewBucketsRepository
+			.createQueryBuilder()
+			.insert()
+			.into(PostViewBucket)
+			.values([...buckets.values()])
+			.onConflict(
+				`("postId", "hour") DO UPDATE SET
+					"count" = "post_view_bucket"."count" + EXCLUDED."count"`
+			)
+			.execute()
+
+		await this.refreshScores(existingPosts.map((post) => post.id))
+	}
+
+	/**
+	 * Reachs are part of the score, so scores of the viewed posts
+	 * are stored again like PostsService.refreshScore does
+	 * @see shared/utils/post-ranking.ts
+	 */
+	private async refreshScores(postIds: string[]) {
+		const posts = await this.postsRepository
+			.createQueryBuilder('post')
+			.loadRelationCountAndMap('post.upvoteCount', 'post.upvoter')
+			.loadRelationCountAndMap('post.downvoteCount', 'post.downvoter')
+			.loadRelationCountAndMap('post.reachCount', 'post.views')
+			.loadRelationCountAndMap('post.commentCount', 'post.comments')
+			.whereInIds(postIds)
+			.getMany()
+
+		for (const post of posts) {
+			const score = postScore(post)
+			await this.postsRepository.update(post.id, {
+				score,
+				hot_score: hotScore(score, post.created_at),
+			})
+		}
+	}
+}
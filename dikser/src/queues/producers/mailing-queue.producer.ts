@@ -1,13 +1,28 @@
-import { Injectable } from '@nestjs/common'
+import { Injectable, OnModuleInit } from '@nestjs/common'
 import { Queue } from 'bull'
 import { InjectQueue } from '@nestjs/bull'
 
 @Injectable()
-export class MailingQueueProducer {
+export class MailingQueueProducer implements OnModuleInit {
 	constructor(
 		@InjectQueue('mailing-service-queues') private mailingQueue: Queue
 	) {}
 
+	/**
+	 * Repeatable jobs are stored in redis,
+	 * adding the same one on every start does not duplicate it
+	 */
+	async onModuleInit() {
+		await this.mailingQueue.add(
+			'dispatch-on-this-day-emails',
+			{},
+			{
+				jobId: 'dispatch-on-this-day-emails',
+				repeat: { cron: '0 7 * * *' }, // every day at 07:00
+			}
+		)
+	}
+
 	async sendGreetingEmailToQueue(username: string, email: string) {
 		await this.mailingQueue.add(
 			'send-greeting-email',
@@ -21,4 +36,22 @@ export class MailingQueueProducer {
 			}
 		)
 	}
+
+	async sendOnThisDayEmailToQueue(
+		username: string,
+		email: string,
+		memories: { caption: string; yearsAgo: number }[]
+	) {
+		await this.mailingQueue.add(
+			'send-on-this-day-email',
+			{
+				username,
+				email,
+				memories,
+			},
+			{
+				attempts: 5,
+			}
+		)
+	}
 }
@@ -0,0 +1,25 @@
+import { Injectable } from '@nestjs/common'
+import { Queue } from 'bull'
+import { InjectQueue } from '@nestjs/bull'
+
+@Injectable()
+export class MediaQueueProducer {
+	constructor(
+		@InjectQueue('media-processing-queues') private mediaQueue: Queue
+	) {}
+
+	async processImagesToQueue(mediaItemIds: string[]) {
+		await this.mediaQueue.addBulk(
+			mediaItemIds.map((mediaItemId) => ({
+				name: 'process-image',
+				data: {
+					mediaItemId,
+				},
+				opts: {
+					attempts: 3,
+					backoff: 10000, // 10 seconds
+				},
+			}))
+		)
+	}
+}
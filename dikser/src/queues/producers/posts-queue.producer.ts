@@ -0,0 +1,100 @@
+import { Injectable, OnModuleInit } from '@nestjs/common'
+import { Queue } from 'bull'
+import { InjectQueue } from '@nestjs/bull'
+
+// views of the same user on the same post within this window count once
+export const POST_VIEW_DEDUPE_SECONDS = 30 * 60
+
+// redis list of views waiting to be written by the flush-post-views job
+export const PENDING_POST_VIEWS_KEY = 'post-views:pending'
+
+export interface PendingPostView {
+	postId: string
+	userId: string
+	seenAt: string
+}
+
+@Injectable()
+export class PostsQueueProducer implements OnModuleInit {
+	constructor(
+		@InjectQueue('posts-service-queues') private postsQueue: Queue
+	) {}
+
+	async onModuleInit() {
+		await this.postsQueue.add(
+			'purge-deleted-posts',
+			{},
+			{
+				jobId: 'purge-deleted-posts',
+				repeat: { cron: '0 3 * * *' }, // every day at 03:00
+			}
+		)
+		await this.postsQueue.add(
+			'flush-post-views',
+			{},
+			{
+				jobId: 'flush-post-views',
+				repeat: { every: 60 * 1000 }, // every minute
+				removeOnComplete: true,
+			}
+		)
+	}
+
+	/**
+	 * Feeds report a view on every impression,
+	 * so views are deduplicated and buffered in redis,
+	 * the flush-post-views job writes them to the database in batches
+	 * @returns whether the view is counted
+	 */
+	async bufferPostView(postId: string, userId: string) {
+		const isNewView = await this.postsQueue.client.set(
+			`post-views:seen:${postId}:${userId}`,
+			'1',
+			'EX',
+			POST_VIEW_DEDUPE_SECONDS,
+			'NX'
+		)
+		if (!isNewView) return false
+
+		const view: PendingPostView = {
+			postId,
+			userId,
+			seenAt: new Date().toISOString(),
+		}
+		await this.postsQueue.client.rpush(
+			PENDING_POST_VIEWS_KEY,
+			JSON.stringify(view)
+		)
+		return true
+	}
+
+	/**
+	 * Each post has at most one publishing job,
+	 * identified by the post id so it can be found again
+	 */
+	private getPublishingJobId(postId: string) {
+		return `publish-post:${postId}`
+	}
+
+	async schedulePostPublishing(postId: string, publishAt: Date) {
+		await this.postsQueue.add(
+			'publish-post',
+			{
+				postId,
+			},
+			{
+				jobId: this.getPublishingJobId(postId),
+				delay: Math.max(publishAt.getTime() - Date.now(), 0),
+				attempts: 5,
+				removeOnComplete: true,
+			}
+		)
+	}
+
+	async cancelPostPublishing(postId: string) {
+		const job = await this.postsQueue.getJob(
+			this.getPublishingJobId(postId)
+		)
+		if (job) await job.remove()
+	}
+}
@@ -1,7 +1,20 @@
 import { Module } from '@nestjs/common'
 import { BullModule } from '@nestjs/bull'
+import { TypeOrmModule } from '@nestjs/typeorm'
+import { Post } from '../posts/entities/post.entity'
+import { Attachments } from '../posts/entities/attachments.entity'
+import { User } from '../users/entities/user.entity'
+import { MediaItem } from '../posts/entities/media-item.entity'
+import { PostView } from '../posts/entities/post-view.entity'
+import { PostViewBucket } from '../posts/entities/post-view-bucket.entity'
+import { PostPolicyModule } from '../posts/post-policy.module'
+import { UploadsModule } from '../uploads/uploads.module'
 import { MailingQueueConsumer } from './consumers/mailing-queue.consumer'
 import { MailingQueueProducer } from './producers/mailing-queue.producer'
+import { PostsQueueConsumer } from './consumers/posts-queue.consumer'
+import { PostsQueueProducer } from './producers/posts-queue.producer'
+import { MediaQueueConsumer } from './consumers/media-queue.consumer'
+import { MediaQueueProducer } from './producers/media-queue.producer'
 
 @Module({
 	imports: [
@@ -23,8 +36,38 @@ import { MailingQueueProducer } from './producers/mailing-queue.producer'
 		BullModule.registerQueue({
 			name: 'mailing-service-queues',
 		}),
+		BullModule.registerQueue({
+			name: 'posts-service-queues',
+		}),
+		BullModule.registerQueue({
+			name: 'media-processing-queues',
+		}),
+		TypeOrmModule.forFeature([
+			Post,
+			Attachments,
+			User,
+			MediaItem,
+			PostView,
+			PostViewBucket,
+		]),
+		UploadsModule,
+		PostPolicyModule,
+	],
+	exports: [
+		MailingQueueConsumer,
+		MailingQueueProducer,
+		PostsQueueConsumer,
+		PostsQueueProducer,
+		MediaQueueConsumer,
+		MediaQueueProducer,
+	],
+	providers: [
+		MailingQueueConsumer,
+		MailingQueueProducer,
+		PostsQueueConsumer,
+		PostsQueueProducer,
+		MediaQueueConsumer,
+		MediaQueueProducer,
 	],
-	exports: [MailingQueueConsumer, MailingQueueProducer],
-	providers: [MailingQueueConsumer, MailingQueueProducer],
 })
 export class QueuesModule {}
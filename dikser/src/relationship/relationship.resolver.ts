@@ -1,5 +1,5 @@
 import { UseGuards } from '@nestjs/common'
-import { Args, Mutation, Resolver } from '@nestjs/graphql'
+import { Args, Mutation, Parent, ResolveField, Resolver } from '@nestjs/graphql'
 import { AuthStatusGuard } from '../auth/guards/auth.guard'
 import { CurrentUser } from '../shared/decorators/current-user.decorator'
 import { User } from '../users/entities/user.entity'
@@ -7,8 +7,11 @@ import { CreateRelationshipInput } from './dto/create-relationship.input'
 import { DeleteRelationshipResponse } from './dto/delete-relationship.dto'
 import { Relationship } from './entities/relationship.entity'
 import { RelationshipService } from './relationship.service'
+import { Loaders } from '../shared/decorators/loaders.decorator'
+import { DataLoaders } from '../loaders/loaders.service'
+import { Post } from '../posts/entities/post.entity'
 
-@Resolver()
+@Resolver(() => Relationship)
 export class RelationshipResolver {
 	constructor(private readonly relationshipService: RelationshipService) {}
 
@@ -32,4 +35,27 @@ export class RelationshipResolver {
 	): Promise<DeleteRelationshipResponse> {
 		return this.relationshipService.delete(currentUser.id)
 	}
+
+	/**
+	 * @ResolveFields
+	 * Relationship relations are batch-loaded by DataLoaders
+	 */
+	@ResolveField(() => [User], { nullable: true })
+	async partnership(
+		@Parent() relationship: Relationship,
+		@Loaders() loaders: DataLoaders
+	) {
+		return (
+			relationship.partnership ??
+			loaders.relationshipPartnership.load(relationship.id)
+		)
+	}
+
+	@ResolveField(() => [Post], { nullable: true })
+	async posts(
+		@Parent() relationship: Relationship,
+		@Loaders() loaders: DataLoaders
+	) {
+		return loaders.relationshipPosts.load(relationship.id)
+	}
 }
@@ -0,0 +1,6 @@
+import { ObjectType } from '@nestjs/graphql'
+import { Paginated } from '../../shared/dto/paginated.dto'
+import { SearchResult } from './search-result.dto'
+
+@ObjectType()
+export class PaginatedSearchResults extends Paginated(SearchResult) {}
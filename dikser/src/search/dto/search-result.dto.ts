@@ -0,0 +1,42 @@
+import { Field, ObjectType } from '@nestjs/graphql'
+import { Comment } from '../../comments/entities/comment.entity'
+import { Post } from '../../posts/entities/post.entity'
+import { SearchType } from './search-type.enum'
+
+@ObjectType()
+export class SearchResult {
+	constructor(
+		id: string,
+		type: SearchType,
+		snippet: string,
+		post?: Post,
+		comment?: Comment
+	) {
+		this.id = id
+		this.type = type
+		this.snippet = snippet
+		this.post = post
+		this.comment = comment
+	}
+
+	// id of the matched post or comment
+	@Field()
+	id: string
+
+	@Field(() => SearchType)
+	type: SearchType
+
+	/**
+	 * Matched part of the content as HTML,
+	 * every matched word is wrapped in <mark></mark>
+	 * and the content itself is escaped
+	 */
+	@Field()
+	snippet: string
+
+	@Field(() => Post, { nullable: true })
+	post?: Post
+
+	@Field(() => Comment, { nullable: true })
+	comment?: Comment
+}
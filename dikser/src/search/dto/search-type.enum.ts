@@ -0,0 +1,11 @@
+import { registerEnumType } from '@nestjs/graphql'
+
+export enum SearchType {
+	POST = 'POST',
+	COMMENT = 'COMMENT',
+}
+
+registerEnumType(SearchType, {
+	name: 'SearchType',
+	description: 'Kind of content to search, post captions or comment texts',
+})
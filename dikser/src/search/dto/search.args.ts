@@ -0,0 +1,16 @@
+import { ArgsType, Field } from '@nestjs/graphql'
+import { IsEnum, IsString, Length } from 'class-validator'
+import { PaginationArgs } from '../../shared/dto/pagination.args'
+import { SearchType } from './search-type.enum'
+
+@ArgsType()
+export class SearchArgs extends PaginationArgs {
+	@Field()
+	@IsString()
+	@Length(1, 100)
+	query: string
+
+	@Field(() => SearchType, { defaultValue: SearchType.POST })
+	@IsEnum(SearchType)
+	type: SearchType = SearchType.POST
+}
@@ -0,0 +1,18 @@
+import { Module } from '@nestjs/common'
+import { TypeOrmModule } from '@nestjs/typeorm'
+import { Comment } from '../comments/entities/comment.entity'
+import { Post } from '../posts/entities/post.entity'
+import { PostsModule } from '../posts/posts.module'
+import { UsersModule } from '../users/users.module'
+import { SearchResolver } from './search.resolver'
+import { SearchService } from './search.service'
+
+@Module({
+	imports: [
+		TypeOrmModule.forFeature([Post, Comment]),
+		UsersModule,
+		PostsModule,
+	],
+	providers: [SearchResolver, SearchService],
+})
+export class SearchModule {}
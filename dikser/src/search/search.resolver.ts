@@ -0,0 +1,24 @@
+import { Args, Query, Resolver } from '@nestjs/graphql'
+import { CurrentUser } from '../shared/decorators/current-user.decorator'
+import { User } from '../users/entities/user.entity'
+import { PaginatedSearchResults } from './dto/paginated-search-results.dto'
+import { SearchArgs } from './dto/search.args'
+import { SearchService } from './search.service'
+
+@Resolver()
+export class SearchResolver {
+	constructor(private readonly searchService: SearchService) {}
+
+	/**
+	 * @param searchArgs
+	 * @returns a page of posts or comments matching the query,
+	 * most relevant first, with highlighted snippets of the matched content
+	 */
+	@Query(() => PaginatedSearchResults, { name: 'search' })
+	async search(
+		@Args() searchArgs: SearchArgs,
+		@CurrentUser() currentUser?: User
+	): Promise<PaginatedSearchResults> {
+		return await this.searchService.search(searchArgs, currentUser?.id)
+	}
+}
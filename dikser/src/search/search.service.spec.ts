@@ -0,0 +1,220 @@
+import { BadRequestException } from '@nestjs/common'
+import { Test, TestingModule } from '@nestjs/testing'
+import { getRepositoryToken } from '@nestjs/typeorm'
+import { Comment } from '../comments/entities/comment.entity'
+import { Post } from '../posts/entities/post.entity'
+import { PostPolicyService } from '../posts/post-policy.service'
+import { UsersService } from '../users/users.service'
+import { SearchType } from './dto/search-type.enum'
+import { SearchService } from './search.service'
+
+describe('SearchService', () => {
+	let service: SearchService
+
+	// * Query Builder Mocking
+	const mockQueryBuilder: Record<string, any> = {
+		alias: 'post',
+		expressionMap: { mainAlias: { metadata: { tableName: 'post' } } },
+		innerJoin: jest.fn(() => mockQueryBuilder),
+		where: jest.fn(() => mockQueryBuilder),
+		andWhere: jest.fn(() => mockQueryBuilder),
+		addSelect: jest.fn(() => mockQueryBuilder),
+		setParameter: jest.fn(() => mockQueryBuilder),
+		orderBy: jest.fn(() => mockQueryBuilder),
+		addOrderBy: jest.fn(() => mockQueryBuilder),
+		take: jest.fn(() => mockQueryBuilder),
+		getRawAndEntities: jest.fn(() =>
+			Promise.resolve({
+				entities: [
+					{
+						id: '4500fdce-c3ff-4646-bad5-d1b7748f4b54',
+						caption: 'our first trip to the beach',
+					},
+				],
+				raw: [
+					{
+						post_id: '4500fdce-c3ff-4646-bad5-d1b7748f4b54',
+						comment_id: '4500fdce-c3ff-4646-bad5-d1b7748f4b54',
+						snippet: 'our first trip to the \u0002beach\u0003',
+					},
+				],
+			})
+		),
+	}
+
+	const mockRepository = {
+		createQueryBuilder: jest.fn(() => mockQueryBuilder),
+	}
+
+	const mockUsersService = {
+		findById: jest.fn((id: string) => ({
+			id,
+			relationship: { id: 'relationship id' },
+		})),
+	}
+
+	const mockPostPolicyService = {
+		whereListable: jest.fn((query) => query),
+	}
+
+	beforeEach(async () => {
+		const module: TestingModule = await Test.createTestingModule({
+			providers: [
+				SearchService,
+				...[Post, Comment].map((entity) => ({
+					provide: getRepositoryToken(entity),
+					useValue: mockRepository,
+				})),
+				{
+					provide: UsersService,
+					useValue: mockUsersService,
+				},
+				{
+					provide: PostPolicyService,
+					useValue: mockPostPolicyService,
+				},
+			],
+		}).compile()
+
+		service = module.get<SearchService>(SearchService)
+		jest.clearAllMocks()
+	})
+
+	it('should be defined', () => {
+		expect(service).toBeDefined()
+	})
+
+	it('should return a page of posts with highlighted snippets', async () => {
+		const result = await service.search({
+			query: 'beach',
+			type: SearchType.POST,
+			first: 10,
+		})
+
+		expect(mockQueryBuilder.andWhere).toHaveBeenCalledWith(
+			expect.stringContaining("to_tsvector('simple', post.caption_text)"),
+			{ query: 'beach' }
+		)
+		expect(result.edges[0].node).toEqual(
+			expect.objectContaining({
+				id: '4500fdce-c3ff-4646-bad5-d1b7748f4b54',
+				type: SearchType.POST,
+				snippet: 'our first trip to the <mark>beach</mark>',
+				post: expect.any(Object),
+			})
+		)
+		expect(result.pageInfo.hasNextPage).toBe(false)
+	})
+
+	it('should return the most relevant posts first', async () => {
+		await service.search({
+			query: 'beach',
+			type: SearchType.POST,
+			first: 10,
+		})
+
+		expect(mockQueryBuilder.addSelect).toHaveBeenCalledWith(
+			"ts_rank(to_tsvector('simple', post.caption_text), plainto_tsquery('simple', :query))",
+			'rank'
+		)
+		expect(mockQueryBuilder.orderBy).toHaveBeenCalledWith('rank', 'DESC')
+	})
+
+	it('should escape the content of snippets', async () => {
+		mockQueryBuilder.getRawAndEntities.mockImplementationOnce(() =>
+			Promise.resolve({
+				entities: [{ id: '4500fdce-c3ff-4646-bad5-d1b7748f4b54' }],
+				raw: [
+					{
+						post_id: '4500fdce-c3ff-4646-bad5-d1b7748f4b54',
+						snippet:
+							'<img src=x onerror="alert(1)"> \u0002beach\u0003 & sun',
+					},
+				],
+			})
+		)
+
+		const result = await service.search({
+			query: 'beach',
+			type: SearchType.POST,
+			first: 10,
+		})
+
+		expect(result.edges[0].node.snippet).toEqual(
+			'&lt;img src=x onerror=&quot;alert(1)&quot;&gt; <mark>beach</mark> &amp; sun'
+		)
+	})
+
+	it('should compare the rank of the cursor row in SQL', async () => {
+		const cursor = Buffer.from(
+			'cursor:4500fdce-c3ff-4646-bad5-d1b7748f4b54'
+		).toString('base64')
+
+		await service.search({
+			query: 'beach',
+			type: SearchType.COMMENT,
+			first: 10,
+			after: cursor,
+		})
+
+		expect(mockQueryBuilder.andWhere).toHaveBeenCalledWith(
+			expect.stringContaining(
+				"(SELECT ts_rank(to_tsvector('simple', cursor_row.text), plainto_tsquery('simple', :query)), cursor_row.id"
+			),
+			{ cursorId: '4500fdce-c3ff-4646-bad5-d1b7748f4b54' }
+		)
+	})
+
+	it('should search comments of visible posts', async () => {
+		const result = await service.search({
+			query: 'beach',
+			type: SearchType.COMMENT,
+			first: 10,
+		})
+
+		expect(mockQueryBuilder.innerJoin).toHaveBeenCalledWith(
+			'comment.post',
+			'post'
+		)
+		expect(result.edges[0].node.type).toEqual(SearchType.COMMENT)
+		expect(result.edges[0].node.comment).toEqual(expect.any(Object))
+	})
+
+	it('should not look up relationship of anonymous user', async () => {
+		await service.search({
+			query: 'beach',
+			type: SearchType.POST,
+			first: 10,
+		})
+
+		expect(mockUsersService.findById).not.toHaveBeenCalled()
+	})
+
+	it('should look up relationship of the current user', async () => {
+		await service.search(
+			{ query: 'beach', type: SearchType.POST, first: 10 },
+			'current user id'
+		)
+
+		expect(mockUsersService.findById).toHaveBeenCalledWith(
+			'current user id'
+		)
+		expect(mockPostPolicyService.whereListable).toHaveBeenCalledWith(
+			mockQueryBuilder,
+			'post',
+			'current user id',
+			'relationship id'
+		)
+	})
+
+	it('should reject an invalid cursor', async () => {
+		await expect(
+			service.search({
+				query: 'beach',
+				type: SearchType.POST,
+				first: 10,
+				after: 'invalid',
+			})
+		).rejects.toBeInstanceOf(BadRequestException)
+	})
+})
@@ -0,0 +1,201 @@
+import { Injectable } from '@nestjs/common'
+import { InjectRepository } from '@nestjs/typeorm'
+import { Repository, SelectQueryBuilder } from 'typeorm'
+import { Comment } from '../comments/entities/comment.entity'
+import { Post } from '../posts/entities/post.entity'
+import { PostPolicyService } from '../posts/post-policy.service'
+import { PaginationArgs } from '../shared/dto/pagination.args'
+import { decodeCursor, toConnection } from '../shared/utils/pagination'
+import { UsersService } from '../users/users.service'
+import { SearchResult } from './dto/search-result.dto'
+import { SearchType } from './dto/search-type.enum'
+import { SearchArgs } from './dto/search.args'
+
+/**
+ * Matched words are wrapped in these control characters by ts_headline,
+ * they are turned into <mark></mark> once the snippet is escaped
+ */
+const MATCH_START = '\u0002'
+const MATCH_END = '\u0003'
+
+/**
+ * Options of ts_headline, at most two fragments of the content are returned
+ * @see https://www.postgresql.org/docs/current/textsearch-controls.html#TEXTSEARCH-HEADLINE
+ */
+const HEADLINE_OPTIONS = `StartSel=${MATCH_START}, StopSel=${MATCH_END}, MaxFragments=2, MaxWords=20, MinWords=5`
+
+const HTML_ENTITIES: Record<string, string> = {
+	'&': '&amp;',
+	'<': '&lt;',
+	'>': '&gt;',
+	'"': '&quot;',
+	"'": '&#39;',
+}
+
+/**
+ * Snippets are rendered as HTML by clients,
+ * so everything written by users is escaped and only <mark> is left
+ */
+function toSnippet(headline: string) {
+	return headline
+		.replace(/[&<>"']/g, (character) => HTML_ENTITIES[character])
+		.split(MATCH_START)
+		.join('<mark>')
+		.split(MATCH_END)
+		.join('</mark>')
+}
+
+/**
+ * Most relevant matches first, with the id as a stable tiebreaker.
+ * Like @see paginateQuery the rank of the cursor row is computed in SQL,
+ * @param rank expression of the rank of the given alias
+ */
+function paginateByRank<T>(
+	query: SelectQueryBuilder<T>,
+	{ first, after }: PaginationArgs,
+	rank: (alias: string) => string
+) {
+	const alias = query.alias
+	const tableName = query.expressionMap.mainAlias!.metadata.tableName
+
+	query
+		.addSelect(rank(alias), 'rank')
+		.orderBy('rank', 'DESC')
+		.addOrderBy(`${alias}.id`, 'DESC')
+		.take(first + 1)
+
+	if (after) {
+		query.andWhere(
+			`(${rank(alias)}, ${alias}.id) < (SELECT ${rank(
+				'cursor_row'
+			)}, cursor_row.id FROM "${tableName}" cursor_row WHERE cursor_row.id = :cursorId)`,
+			{ cursorId: decodeCursor(after) }
+		)
+	}
+
+	return query
+}
+
+@Injectable()
+export class SearchService {
+	constructor(
+		@InjectRepository(Post)
+		private readonly postsRepository: Repository<Post>,
+		@InjectRepository(Comment)
+		private readonly commentsRepository: Repository<Comment>,
+		private readonly usersService: UsersService,
+		private readonly postPolicy: PostPolicyService
+	) {}
+
+	async search(searchArgs: SearchArgs, userId?: string) {
+		/**
+		 * Only content of posts the user could see listed is searchable,
+		 * relationship of the user decides which private posts are
+		 * @see PostPolicyService.whereListable
+		 */
+		const relationshipId = userId
+			? (await this.usersService.findById(userId)).relationship?.id
+			: undefined
+
+		const results =
+			searchArgs.type === SearchType.COMMENT
+				? await this.searchComments(searchArgs, userId, relationshipId)
+				: await this.searchPosts(searchArgs, userId, relationshipId)
+
+		return toConnection(results, searchArgs.first)
+	}
+
+	private async searchPosts(
+		searchArgs: SearchArgs,
+		userId?: string,
+		relationshipId?: string
+	) {
+		/**
+		 * The to_tsvector expression must be the same as the index one,
+		 * otherwise PostgreSQL would scan every post instead
+		 * @see database/migrations/1792600000000-CaptionTextSearch.ts
+		 */
+		const query = this.postPolicy
+			.whereListable(
+				this.postsRepository.createQueryBuilder('post'),
+				'post',
+				userId,
+				relationshipId
+			)
+			.andWhere(
+				`to_tsvector('simple', post.caption_text) @@ plainto_tsquery('simple', :query)`,
+				{ query: searchArgs.query }
+			)
+			.addSelect(
+				`ts_headline('simple', post.caption_text, plainto_tsquery('simple', :query), :headlineOptions)`,
+				'snippet'
+			)
+			.setParameter('headlineOptions', HEADLINE_OPTIONS)
+
+		const { entities, raw } = await paginateByRank(
+			query,
+			searchArgs,
+			(alias) =>
+				`ts_rank(to_tsvector('simple', ${alias}.caption_text), plainto_tsquery('simple', :query))`
+		).getRawAndEntities()
+
+		return entities.map(
+			(post) =>
+				new SearchResult(
+					post.id,
+					SearchType.POST,
+					toSnippet(
+						raw.find((row) => row.post_id === post.id)?.snippet ??
+							''
+					),
+					post
+				)
+		)
+	}
+
+	private async searchComments(
+		searchArgs: SearchArgs,
+		userId?: string,
+		relationshipId?: string
+	) {
+		const query = this.postPolicy
+			.whereListable(
+				this.commentsRepository
+					.createQueryBuilder('comment')
+					.innerJoin('comment.post', 'post'),
+				'post',
+				userId,
+				relationshipId
+			)
+			.andWhere(
+				`to_tsvector('simple', comment.text) @@ plainto_tsquery('simple', :query)`,
+				{ query: searchArgs.query }
+			)
+			.addSelect(
+				`ts_headline('simple', comment.text, plainto_tsquery('simple', :query), :headlineOptions)`,
+				'snippet'
+			)
+			.setParameter('headlineOptions', HEADLINE_OPTIONS)
+
+		const { entities, raw } = await paginateByRank(
+			query,
+			searchArgs,
+			(alias) =>
+				`ts_rank(to_tsvector('simple', ${alias}.text), plainto_tsquery('simple', :query))`
+		).getRawAndEntities()
+
+		return entities.map(
+			(comment) =>
+				new SearchResult(
+					comment.id,
+					SearchType.COMMENT,
+					toSnippet(
+						raw.find((row) => row.comment_id === comment.id)
+							?.snippet ?? ''
+					),
+					undefined,
+					comment
+				)
+		)
+	}
+}
@@ -0,0 +1,13 @@
+import { createParamDecorator, ExecutionContext } from '@nestjs/common'
+import { GqlExecutionContext } from '@nestjs/graphql'
+
+/**
+ * Request-scoped DataLoaders bound to graphql context
+ * @see loaders/loaders.service.ts
+ */
+export const Loaders = createParamDecorator(
+	(_: unknown, context: ExecutionContext) => {
+		const ctx = GqlExecutionContext.create(context)
+		return ctx.getContext().loaders
+	}
+)
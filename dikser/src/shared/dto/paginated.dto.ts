@@ -0,0 +1,37 @@
+import { Type } from '@nestjs/common'
+import { Field, ObjectType } from '@nestjs/graphql'
+
+@ObjectType()
+export class PageInfo {
+	@Field()
+	hasNextPage: boolean
+
+	@Field({ nullable: true })
+	endCursor?: string
+}
+
+/**
+ * Build a connection type (edges & pageInfo) for the given node type.
+ * @Usage class PaginatedPosts extends Paginated(Post) {}
+ */
+export function Paginated<T>(classRef: Type<T>) {
+	@ObjectType(`${classRef.name}Edge`)
+	abstract class EdgeType {
+		@Field()
+		cursor: string
+
+		@Field(() => classRef)
+		node: T
+	}
+
+	@ObjectType({ isAbstract: true })
+	abstract class PaginatedType {
+		@Field(() => [EdgeType])
+		edges: EdgeType[]
+
+		@Field(() => PageInfo)
+		pageInfo: PageInfo
+	}
+
+	return PaginatedType
+}
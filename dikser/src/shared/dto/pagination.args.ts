@@ -0,0 +1,22 @@
+import { ArgsType, Field, Int } from '@nestjs/graphql'
+import { IsInt, IsOptional, IsString, Max, Min } from 'class-validator'
+
+/**
+ * Relay-style forward pagination arguments,
+ * shared by every query that returns a connection.
+ * @see https://relay.dev/graphql/connections.htm
+ */
+@ArgsType()
+export class PaginationArgs {
+	@Field(() => Int, { nullable: true, defaultValue: 10 })
+	@IsInt()
+	@Min(1)
+	@Max(50)
+	@IsOptional()
+	first = 10
+
+	@Field({ nullable: true })
+	@IsString()
+	@IsOptional()
+	after?: string
+}
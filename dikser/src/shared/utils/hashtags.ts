@@ -0,0 +1,38 @@
+// letters, numbers and underscores of any language after a "#"
+const HASHTAG_PATTERN = /#([\p{L}\p{N}_]{1,50})/gu
+
+// a caption could not flood the tags with a long list of hashtags
+const MAX_HASHTAGS = 10
+
+/**
+ * Captions written in the web editor are raw Draft.js content states,
+ * only the text of its blocks is read so keys and styles never count as tags.
+ * Plain text captions are read as they are.
+ */
+export function captionToText(caption: string) {
+	try {
+		const content = JSON.parse(caption)
+		if (Array.isArray(content?.blocks))
+			return content.blocks
+				.map((block: { text?: string }) => block.text ?? '')
+				.join('\n')
+	} catch {
+		// not a JSON caption
+	}
+	return caption
+}
+
+/**
+ * @returns unique lowercased #tags of a caption, without the "#"
+ */
+export function extractHashtags(caption: string) {
+	const text = captionToText(caption)
+	const pattern = new RegExp(HASHTAG_PATTERN)
+	const tags = new Set<string>()
+
+	let match: RegExpExecArray | null
+	while (tags.size < MAX_HASHTAGS && (match = pattern.exec(text)) !== null)
+		tags.add(match[1].toLowerCase())
+
+	return [...tags]
+}
@@ -0,0 +1,54 @@
+import { Brackets, SelectQueryBuilder } from 'typeorm'
+import { Post } from '../../posts/entities/post.entity'
+import { PostPolicyService } from '../../posts/post-policy.service'
+import { User } from '../../users/entities/user.entity'
+
+/**
+ * Narrow a post query builder down to memories of the given user,
+ * which are posts created on the same calendar day in previous years.
+ * Own posts of any visibility and private posts of the user relationship
+ * are included, other people's public posts are not memories of the user.
+ * Whether the user could see them at all is up to the policy
+ * @see PostPolicyService.whereListable
+ * Relationship of the user must be loaded.
+ */
+export function whereOnThisDay(
+	postPolicy: PostPolicyService,
+	query: SelectQueryBuilder<Post>,
+	user: User,
+	date: Date = new Date()
+) {
+	const alias = query.alias
+
+	return postPolicy
+		.whereListable(
+			query.innerJoin(`${alias}.author`, 'author'),
+			alias,
+			user.id,
+			user.relationship?.id
+		)
+		.andWhere(
+			new Brackets((owned) => {
+				owned.where('author.id = :userId', { userId: user.id })
+
+				if (user.relationship)
+					owned.orWhere(
+						`${alias}.type = :privateType AND ${alias}.relationship = :relationshipId`,
+						{
+							privateType: 'private',
+							relationshipId: user.relationship.id,
+						}
+					)
+			})
+		)
+		.andWhere(`EXTRACT(MONTH FROM ${alias}.created_at) = :month`, {
+			month: date.getMonth() + 1,
+		})
+		.andWhere(`EXTRACT(DAY FROM ${alias}.created_at) = :day`, {
+			day: date.getDate(),
+		})
+		.andWhere(`EXTRACT(YEAR FROM ${alias}.created_at) < :year`, {
+			year: date.getFullYear(),
+		})
+		.orderBy(`${alias}.created_at`, 'DESC')
+}
@@ -0,0 +1,73 @@
+import { BadRequestException } from '@nestjs/common'
+import { isUUID } from 'class-validator'
+import { SelectQueryBuilder } from 'typeorm'
+import { PaginationArgs } from '../dto/pagination.args'
+
+export function encodeCursor(id: string) {
+	return Buffer.from(`cursor:${id}`).toString('base64')
+}
+
+export function decodeCursor(cursor: string) {
+	const id = Buffer.from(cursor, 'base64').toString().replace('cursor:', '')
+
+	// cursor is only valid when it holds an entity id
+	if (!isUUID(id)) throw new BadRequestException('Invalid cursor')
+	return id
+}
+
+/**
+ * Apply keyset pagination to a query builder.
+ * Rows are ordered by created_at, or the given column,
+ * with the id as a stable tiebreaker.
+ * The cursor row is looked up in SQL so timestamp precision is never lost
+ * by round-tripping it through a JavaScript Date.
+ * One extra row is taken to know whether there is a next page.
+ */
+export function paginateQuery<T>(
+	query: SelectQueryBuilder<T>,
+	{ first, after }: PaginationArgs,
+	order: 'ASC' | 'DESC' = 'DESC',
+	column = 'created_at'
+) {
+	const alias = query.alias
+	const tableName = query.expressionMap.mainAlias!.metadata.tableName
+
+	query
+		.orderBy(`${alias}.${column}`, order)
+		.addOrderBy(`${alias}.id`, order)
+		.take(first + 1)
+
+	if (after) {
+		query.andWhere(
+			`(${alias}.${column}, ${alias}.id) ${
+				order === 'DESC' ? '<' : '>'
+			} (SELECT cursor_row.${column}, cursor_row.id FROM "${tableName}" cursor_row WHERE cursor_row.id = :cursorId)`,
+			{ cursorId: decodeCursor(after) }
+		)
+	}
+
+	return query
+}
+
+/**
+ * Turn rows fetched by @see paginateQuery into a connection object
+ */
+export function toConnection<T extends { id: string }>(
+	rows: T[],
+	first: number
+) {
+	const edges = rows.slice(0, first).map((node) => ({
+		cursor: encodeCursor(node.id),
+		node,
+	}))
+
+	return {
+		edges,
+		pageInfo: {
+			hasNextPage: rows.length > first,
+			endCursor: edges.length
+				? edges[edges.length - 1].cursor
+				: undefined,
+		},
+	}
+}
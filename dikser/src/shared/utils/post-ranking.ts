@@ -0,0 +1,51 @@
+import { Post } from '../../posts/entities/post.entity'
+
+/**
+ * How much each interaction is worth in the score of a post,
+ * reach is only a hint of interest so it weighs the least
+ */
+export const SCORE_WEIGHTS = {
+	upvote: 1,
+	downvote: -1,
+	comment: 2,
+	reach: 0.1,
+}
+
+/**
+ * Seconds a post has to be newer to outrank a post
+ * with a 10 times higher score, @see hotScore
+ */
+export const HOT_DECAY_SECONDS = 45000
+
+/**
+ * Score ranking TOP feeds, the sum of the weighted interactions
+ */
+export function postScore({
+	upvoteCount = 0,
+	downvoteCount = 0,
+	commentCount = 0,
+	reachCount = 0,
+}: Partial<Post>) {
+	return (
+		upvoteCount * SCORE_WEIGHTS.upvote +
+		downvoteCount * SCORE_WEIGHTS.downvote +
+		commentCount * SCORE_WEIGHTS.comment +
+		reachCount * SCORE_WEIGHTS.reach
+	)
+}
+
+/**
+ * Score ranking HOT feeds, decayed by the age of the post.
+ * Instead of lowering the score of older posts as time goes by,
+ * newer posts get a higher base, so the score of a post
+ * only changes when its interactions change and it could be stored.
+ * @see https://medium.com/hacking-and-gonzo/how-reddit-ranking-algorithms-work-ef111e33d0d9
+ */
+export function hotScore(score: number, createdAt: Date) {
+	const order = Math.log10(Math.max(Math.abs(score), 1))
+
+	return (
+		Math.sign(score) * order +
+		createdAt.getTime() / 1000 / HOT_DECAY_SECONDS
+	)
+}
@@ -0,0 +1,97 @@
+import * as DataLoader from 'dataloader'
+import { OrderByCondition, Repository, SelectQueryBuilder } from 'typeorm'
+
+// entity of a relation, the element type of to-many relations
+type Related<T> = T extends (infer R)[] ? R : T
+
+const isToMany = <T>(related: T): related is T & Related<T>[] =>
+	Array.isArray(related)
+
+interface RelationLoaderOptions<R> {
+	// nested relations of the loaded entity, e.g ['related.author', 'author']
+	joins?: [string, string][]
+	// drop related entities the current user is not allowed to see
+	filter?: (related: R) => boolean
+	// order of the related entities, e.g { 'related.created_at': 'DESC' }
+	orderBy?: OrderByCondition
+}
+
+/**
+ * Create a DataLoader which batch-loads one relation of many parents
+ * with a single SQL statement, keyed by parent id.
+ * Related entities are joined under the "related" alias.
+ * @see https://github.com/graphql/dataloader
+ */
+export function createRelationLoader<
+	E extends { id: string },
+	K extends keyof E & string
+>(
+	repository: Repository<E>,
+	relation: K,
+	{ joins = [], filter, orderBy }: RelationLoaderOptions<Related<E[K]>> = {}
+) {
+	return new DataLoader<string, E[K] | null>(async (ids) => {
+		const query = repository
+			.createQueryBuilder('parent')
+			.leftJoinAndSelect(`parent.${relation}`, 'related')
+			.whereInIds(ids as string[])
+		joins.forEach(([path, alias]) => query.leftJoinAndSelect(path, alias))
+		if (orderBy) query.orderBy(orderBy)
+
+		const parents = await query.getMany()
+		const relatedById = new Map<string, E[K]>(
+			parents.map((parent) => [parent.id, parent[relation]])
+		)
+
+		return ids.map((id) => {
+			const related = relatedById.get(id)
+			if (!filter || !related) return related ?? null
+			// entities are dropped from the loaded list, so it keeps its type
+			if (isToMany(related)) {
+				const visible = related.filter(filter)
+				related.splice(0, related.length, ...visible)
+				return related
+			}
+			return filter(related as Related<E[K]>) ? related : null
+		})
+	})
+}
+
+// count mapped next to the columns of a parent by TypeORM
+type Counted<E> = E & { relationCount?: number }
+
+/**
+ * Create a DataLoader which counts one relation of many parents,
+ * TypeORM runs a single grouped COUNT query instead of loading the relation.
+ * Related entities are counted under the "related" alias.
+ * @param where narrows down the counted entities, e.g to skip trashed ones
+ */
+export function createCountLoader<
+	E extends { id: string },
+	K extends keyof E & string
+>(
+	repository: Repository<E>,
+	relation: K,
+	where?: (
+		query: SelectQueryBuilder<Related<E[K]>>
+	) => SelectQueryBuilder<Related<E[K]>>
+) {
+	return new DataLoader<string, number>(async (ids) => {
+		const parents: Counted<E>[] = await repository
+			.createQueryBuilder('parent')
+			.select('parent.id')
+			.loadRelationCountAndMap(
+				'parent.relationCount',
+				`parent.${relation}`,
+				'related',
+				where
+			)
+			.whereInIds(ids as string[])
+			.getMany()
+
+		return ids.map(
+			(id) =>
+				parents.find((parent) => parent.id === id)?.relationCount ?? 0
+		)
+	})
+}
@@ -0,0 +1,67 @@
+import { Request, RequestHandler, Response } from 'express'
+import * as session from 'express-session'
+import * as redis from 'redis'
+import * as connectRedis from 'connect-redis'
+import { Client } from 'connect-redis'
+import { IncomingMessage } from 'http'
+import { User } from '../../users/entities/user.entity'
+
+let sessionMiddleware: RequestHandler | undefined
+
+/**
+ * Express session stored in redis,
+ * created once so HTTP requests and subscriptions share the same store
+ */
+export function configureSession() {
+	if (sessionMiddleware) return sessionMiddleware
+
+	// Redis config
+	const REDIS_URI = process.env.REDIS_TLS_URL
+	const redisClient = redis.createClient({
+		url: REDIS_URI,
+		tls:
+			process.env.NODE_ENV === 'production'
+				? {
+						rejectUnauthorized: false,
+				  }
+				: false,
+	})
+	const RedisStore = connectRedis(session)
+
+	sessionMiddleware = session({
+		cookie: {
+			domain: process.env.TOP_DOMAIN_CLIENT_ORIGIN! || undefined,
+			maxAge: 86400000, // 1 day
+			secure: process.env.NODE_ENV === 'production', // transmit only over https
+			httpOnly: true, // prevent client JS reading the cookie
+			sameSite: 'lax',
+		},
+		proxy: true,
+		secret: process.env.SESSION_KEY!,
+		resave: false,
+		saveUninitialized: false,
+		store: new RedisStore({
+			client: redisClient as Client,
+		}),
+	})
+
+	return sessionMiddleware
+}
+
+/**
+ * WebSocket connections never go through express middlewares,
+ * so the session of their upgrade request is read here instead.
+ * Passport stores the logged in user in the session,
+ * @see auth/utils/SessionSerializer.ts
+ */
+export function readSessionUser(request: IncomingMessage) {
+	const req = request as Request & {
+		session?: { passport?: { user?: User } }
+	}
+
+	return new Promise<User | undefined>((resolve) =>
+		configureSession()(req, {} as Response, () =>
+			resolve(req.session?.passport?.user)
+		)
+	)
+}
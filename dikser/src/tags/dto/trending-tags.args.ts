@@ -0,0 +1,12 @@
+import { ArgsType, Field, Int } from '@nestjs/graphql'
+import { IsInt, Max, Min } from 'class-validator'
+
+@ArgsType()
+export class TrendingTagsArgs {
+	// most tags returned at once, same bounds as a page of a connection
+	@Field(() => Int, { defaultValue: 10 })
+	@IsInt()
+	@Min(1)
+	@Max(50)
+	limit = 10
+}
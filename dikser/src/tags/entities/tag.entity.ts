@@ -0,0 +1,39 @@
+import { Field, Int, ObjectType } from '@nestjs/graphql'
+import {
+	Column,
+	CreateDateColumn,
+	Entity,
+	ManyToMany,
+	PrimaryGeneratedColumn,
+} from 'typeorm'
+import { Post } from '../../posts/entities/post.entity'
+
+/**
+ * #tag written in post captions,
+ * stored lowercased without the "#"
+ */
+@ObjectType()
+@Entity()
+export class Tag {
+	@Field()
+	@PrimaryGeneratedColumn('uuid')
+	id: string
+
+	@Field()
+	@Column({ unique: true })
+	name: string
+
+	@Field({ nullable: true })
+	@CreateDateColumn({
+		type: 'timestamp with time zone',
+	})
+	created_at: Date
+
+	// posts of a tag are queried with postsByTag
+	@ManyToMany((_) => Post, (post: Post) => post.tags)
+	posts: Post[]
+
+	// number of recent posts, only counted for trending tags
+	@Field(() => Int, { nullable: true })
+	postCount: number
+}
@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common'
+import { TypeOrmModule } from '@nestjs/typeorm'
+import { PostPolicyModule } from '../posts/post-policy.module'
+import { Tag } from './entities/tag.entity'
+import { TagsResolver } from './tags.resolver'
+import { TagsService } from './tags.service'
+
+@Module({
+	imports: [TypeOrmModule.forFeature([Tag]), PostPolicyModule],
+	providers: [TagsResolver, TagsService],
+	exports: [TagsService],
+})
+export class TagsModule {}
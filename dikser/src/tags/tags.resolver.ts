@@ -0,0 +1,18 @@
+import { Args, Query, Resolver } from '@nestjs/graphql'
+import { TrendingTagsArgs } from './dto/trending-tags.args'
+import { Tag } from './entities/tag.entity'
+import { TagsService } from './tags.service'
+
+@Resolver(() => Tag)
+export class TagsResolver {
+	constructor(private readonly tagsService: TagsService) {}
+
+	/**
+	 * @returns tags used by the most public posts in the past week,
+	 * each tag comes with its number of posts
+	 */
+	@Query(() => [Tag], { name: 'trendingTags' })
+	async findTrending(@Args() { limit }: TrendingTagsArgs): Promise<Tag[]> {
+		return await this.tagsService.findTrending(limit, 7)
+	}
+}
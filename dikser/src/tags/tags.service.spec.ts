@@ -0,0 +1,113 @@
+import { Test, TestingModule } from '@nestjs/testing'
+import { getRepositoryToken } from '@nestjs/typeorm'
+import { PostPolicyService } from '../posts/post-policy.service'
+import { Tag } from './entities/tag.entity'
+import { TagsService } from './tags.service'
+
+describe('TagsService', () => {
+	let service: TagsService
+
+	// * Query Builder Mocking
+	const mockQueryBuilder: Record<string, any> = {
+		insert: jest.fn(() => mockQueryBuilder),
+		into: jest.fn(() => mockQueryBuilder),
+		values: jest.fn(() => mockQueryBuilder),
+		orIgnore: jest.fn(() => mockQueryBuilder),
+		execute: jest.fn(() => Promise.resolve()),
+		innerJoin: jest.fn(() => mockQueryBuilder),
+		select: jest.fn(() => mockQueryBuilder),
+		addSelect: jest.fn(() => mockQueryBuilder),
+		where: jest.fn(() => mockQueryBuilder),
+		andWhere: jest.fn(() => mockQueryBuilder),
+		groupBy: jest.fn(() => mockQueryBuilder),
+		orderBy: jest.fn(() => mockQueryBuilder),
+		addOrderBy: jest.fn(() => mockQueryBuilder),
+		limit: jest.fn(() => mockQueryBuilder),
+		getRawMany: jest.fn(() =>
+			Promise.resolve([
+				{ id: 'first tag id', name: 'anniversary', postCount: '12' },
+				{ id: 'second tag id', name: 'birthday', postCount: '3' },
+			])
+		),
+	}
+
+	const mockTagsRepository = {
+		createQueryBuilder: jest.fn(() => mockQueryBuilder),
+		find: jest.fn(() => Promise.resolve([])),
+	}
+
+	const mockPostPolicyService = {
+		whereListable: jest.fn((query) => query),
+	}
+
+	beforeEach(async () => {
+		const module: TestingModule = await Test.createTestingModule({
+			providers: [
+				TagsService,
+				{
+					provide: getRepositoryToken(Tag),
+					useValue: mockTagsRepository,
+				},
+				{
+					provide: PostPolicyService,
+					useValue: mockPostPolicyService,
+				},
+			],
+		}).compile()
+
+		service = module.get<TagsService>(TagsService)
+		jest.clearAllMocks()
+	})
+
+	it('should be defined', () => {
+		expect(service).toBeDefined()
+	})
+
+	describe('findOrCreateFromCaption()', () => {
+		it('should create unique lowercased tags of the caption', async () => {
+			await service.findOrCreateFromCaption(
+				'#Anniversary at the beach #anniversary #kenangan_2021'
+			)
+
+			expect(mockQueryBuilder.values).toHaveBeenCalledWith([
+				{ name: 'anniversary' },
+				{ name: 'kenangan_2021' },
+			])
+			expect(mockQueryBuilder.orIgnore).toHaveBeenCalled()
+		})
+
+		it('should only read the text of rich text captions', async () => {
+			await service.findOrCreateFromCaption(
+				JSON.stringify({
+					blocks: [{ key: 'abc', text: 'happy #birthday' }],
+					entityMap: { '#notatag': {} },
+				})
+			)
+
+			expect(mockQueryBuilder.values).toHaveBeenCalledWith([
+				{ name: 'birthday' },
+			])
+		})
+
+		it('should not query anything when there is no tag', async () => {
+			expect(
+				await service.findOrCreateFromCaption('no tag here')
+			).toEqual([])
+			expect(mockTagsRepository.createQueryBuilder).not.toHaveBeenCalled()
+		})
+	})
+
+	describe('findTrending()', () => {
+		it('should return tags with their number of posts', async () => {
+			expect(await service.findTrending(10, 7)).toEqual([
+				expect.objectContaining({ name: 'anniversary', postCount: 12 }),
+				expect.objectContaining({ name: 'birthday', postCount: 3 }),
+			])
+			expect(mockQueryBuilder.limit).toHaveBeenCalledWith(10)
+			expect(mockPostPolicyService.whereListable).toHaveBeenCalledWith(
+				mockQueryBuilder,
+				'post'
+			)
+		})
+	})
+})
@@ -0,0 +1,75 @@
+import { Injectable } from '@nestjs/common'
+import { InjectRepository } from '@nestjs/typeorm'
+import { In, Repository } from 'typeorm'
+import { PostPolicyService } from '../posts/post-policy.service'
+import { extractHashtags } from '../shared/utils/hashtags'
+import { Tag } from './entities/tag.entity'
+
+@Injectable()
+export class TagsService {
+	constructor(
+		@InjectRepository(Tag)
+		private readonly tagsRepository: Repository<Tag>,
+		private readonly postPolicy: PostPolicyService
+	) {}
+
+	/**
+	 * Find tags written in the caption,
+	 * new tags are created on the fly
+	 */
+	async findOrCreateFromCaption(caption: string) {
+		const names = extractHashtags(caption)
+		if (!names.length) return []
+
+		/**
+		 * Existing tags are ignored instead of failing,
+		 * two posts could introduce the same tag at once
+		 */
+		await this.tagsRepository
+			.createQueryBuilder()
+			.insert()
+			.into(Tag)
+			.values(names.map((name) => ({ name })))
+			.orIgnore()
+			.execute()
+
+		return await this.tagsRepository.find({ where: { name: In(names) } })
+	}
+
+	/**
+	 * Tags used by the most public posts in the past days
+	 * @param limit maximum number of tags
+	 * @param days how far back posts are counted
+	 */
+	async findTrending(limit: number, days: number) {
+		const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000)
+
+		const rows: { id: string; name: string; postCount: string }[] =
+			// trends are the same for everyone, like the public feed
+			await this.postPolicy
+				.whereListable(
+					this.tagsRepository
+						.createQueryBuilder('tag')
+						.innerJoin('tag.posts', 'post')
+						.select('tag.id', 'id')
+						.addSelect('tag.name', 'name')
+						.addSelect('COUNT(post.id)', 'postCount'),
+					'post'
+				)
+				.andWhere('post.created_at >= :since', { since })
+				.groupBy('tag.id')
+				.orderBy('"postCount"', 'DESC')
+				.addOrderBy('tag.name', 'ASC')
+				.limit(limit)
+				.getRawMany()
+
+		// COUNT is returned as string by postgres
+		return rows.map((row) =>
+			Object.assign(new Tag(), {
+				id: row.id,
+				name: row.name,
+				postCount: Number(row.postCount),
+			})
+		)
+	}
+}
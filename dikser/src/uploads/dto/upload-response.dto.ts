@@ -0,0 +1,20 @@
+/**
+ * Uploaded file, fields are named after CreateMediaItemInput
+ * so the client could pass them right away
+ */
+export class UploadResponse {
+	constructor(type: string, uri: string, mime: string, size: number) {
+		this.type = type
+		this.uri = uri
+		this.mime = mime
+		this.size = size
+	}
+
+	type: string
+
+	uri: string
+
+	mime: string
+
+	size: number
+}
@@ -0,0 +1,80 @@
+import { Injectable } from '@nestjs/common'
+import { encode } from 'blurhash'
+import * as sharp from 'sharp'
+
+// formats sharp could re-encode without losing anything, e.g animation
+export const PROCESSABLE_MIME_TYPES = ['image/jpeg', 'image/png', 'image/webp']
+
+/**
+ * Width of every rendition in pixels,
+ * images smaller than that are never enlarged
+ */
+export const RENDITION_WIDTHS = {
+	thumbnail: 320,
+	medium: 1080,
+}
+
+export interface ProcessedImage {
+	// original image without any metadata
+	original: Buffer
+	width: number
+	height: number
+	thumbnail: Buffer
+	medium: Buffer
+	blurhash: string
+}
+
+@Injectable()
+export class ImageProcessingService {
+	/**
+	 * Images straight from a phone carry EXIF metadata,
+	 * including the GPS location where it was taken.
+	 * sharp drops every metadata on output unless asked to keep it,
+	 * the image is rotated first so its EXIF orientation is not lost.
+	 */
+	async stripMetadata(image: Buffer, mime: string) {
+		const format = mime.split('/')[1] as keyof sharp.FormatEnum
+		return await sharp(image).rotate().toFormat(format).toBuffer()
+	}
+
+	async process(image: Buffer, mime: string): Promise<ProcessedImage> {
+		const original = await this.stripMetadata(image, mime)
+		const { width = 0, height = 0 } = await sharp(original).metadata()
+
+		const [thumbnail, medium, blurhash] = await Promise.all([
+			this.resize(original, RENDITION_WIDTHS.thumbnail),
+			this.resize(original, RENDITION_WIDTHS.medium),
+			this.blurhash(original),
+		])
+
+		return { original, width, height, thumbnail, medium, blurhash }
+	}
+
+	private async resize(image: Buffer, width: number) {
+		return await sharp(image)
+			.resize({ width, withoutEnlargement: true })
+			.webp()
+			.toBuffer()
+	}
+
+	/**
+	 * Blurhash is computed from a tiny version of the image,
+	 * it is only a placeholder so details do not matter
+	 * @see https://github.com/woltapp/blurhash
+	 */
+	private async blurhash(image: Buffer) {
+		const { data, info } = await sharp(image)
+			.resize(32, 32, { fit: 'inside' })
+			.ensureAlpha()
+			.raw()
+			.toBuffer({ resolveWithObject: true })
+
+		return encode(
+			new Uint8ClampedArray(data),
+			info.width,
+			info.height,
+			4,
+			3
+		)
+	}
+}
@@ -0,0 +1,45 @@
+import { Injectable } from '@nestjs/common'
+import { promises as fs } from 'fs'
+import { dirname, join } from 'path'
+import { StorageDriver } from './storage-driver.interface'
+
+/**
+ * Store uploaded files in a local directory,
+ * they are served by the server itself under /uploads
+ * @see main.ts
+ */
+@Injectable()
+export class LocalDiskStorageDriver implements StorageDriver {
+	static readonly directory =
+		process.env.UPLOADS_DIR || join(process.cwd(), 'uploads')
+
+	private readonly baseUrl =
+		process.env.UPLOADS_BASE_URL ||
+		`http://localhost:${process.env.PORT || 3000}`
+
+	async put(key: string, body: Buffer, _mime: string) {
+		const path = join(LocalDiskStorageDriver.directory, key)
+
+		await fs.mkdir(dirname(path), { recursive: true })
+		await fs.writeFile(path, body)
+
+		return `${this.baseUrl}/uploads/${key}`
+	}
+
+	async get(key: string) {
+		return await fs.readFile(join(LocalDiskStorageDriver.directory, key))
+	}
+
+	async delete(key: string) {
+		await fs.unlink(join(LocalDiskStorageDriver.directory, key))
+	}
+
+	keyOf(uri: string) {
+		const prefix = `${this.baseUrl}/uploads/`
+		if (!uri.startsWith(prefix)) return undefined
+
+		// never read outside of the uploads directory
+		const key = uri.slice(prefix.length)
+		return key.split('/').includes('..') ? undefined : key
+	}
+}
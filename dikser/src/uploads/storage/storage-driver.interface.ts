@@ -0,0 +1,24 @@
+/**
+ * Where uploaded files are stored,
+ * drivers are swapped without touching the upload logic.
+ * @see storageDrivers for the drivers to choose from
+ */
+export interface StorageDriver {
+	/**
+	 * Store the file under the given key
+	 * @returns public uri of the stored file
+	 */
+	put(key: string, body: Buffer, mime: string): Promise<string>
+
+	get(key: string): Promise<Buffer>
+
+	delete(key: string): Promise<void>
+
+	/**
+	 * @returns key of a file stored by this driver,
+	 * undefined when the uri points anywhere else
+	 */
+	keyOf(uri: string): string | undefined
+}
+
+export const STORAGE_DRIVER = 'STORAGE_DRIVER'
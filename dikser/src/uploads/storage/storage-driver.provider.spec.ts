@@ -0,0 +1,51 @@
+import { LocalDiskStorageDriver } from './local-disk.storage-driver'
+import { createStorageDriver } from './storage-driver.provider'
+
+describe('createStorageDriver', () => {
+	const env = process.env
+
+	beforeEach(() => {
+		process.env = { ...env }
+		delete process.env.UPLOADS_DRIVER
+		delete process.env.UPLOADS_BASE_URL
+	})
+
+	afterAll(() => {
+		process.env = env
+	})
+
+	it('should use the local disk by default in development', () => {
+		process.env.NODE_ENV = 'development'
+
+		expect(createStorageDriver()).toBeInstanceOf(LocalDiskStorageDriver)
+	})
+
+	it('should use the configured driver', () => {
+		process.env.UPLOADS_DRIVER = 'local'
+
+		expect(createStorageDriver()).toBeInstanceOf(LocalDiskStorageDriver)
+	})
+
+	it('should refuse an unknown driver', () => {
+		process.env.UPLOADS_DRIVER = 'unknown'
+
+		expect(() => createStorageDriver()).toThrow('UPLOADS_DRIVER')
+	})
+
+	it('should refuse to start in production without configuration', () => {
+		process.env.NODE_ENV = 'production'
+		process.env.UPLOADS_DRIVER = 'local'
+
+		expect(() => createStorageDriver()).toThrow(
+			'UPLOADS_BASE_URL must be set in production'
+		)
+	})
+
+	it('should start in production once configured', () => {
+		process.env.NODE_ENV = 'production'
+		process.env.UPLOADS_DRIVER = 'local'
+		process.env.UPLOADS_BASE_URL = 'https://api.dikenang.test'
+
+		expect(createStorageDriver()).toBeInstanceOf(LocalDiskStorageDriver)
+	})
+})
@@ -0,0 +1,39 @@
+import { Provider, Type } from '@nestjs/common'
+import { LocalDiskStorageDriver } from './local-disk.storage-driver'
+import { STORAGE_DRIVER, StorageDriver } from './storage-driver.interface'
+
+// drivers by their UPLOADS_DRIVER name
+export const storageDrivers: Record<string, Type<StorageDriver>> = {
+	local: LocalDiskStorageDriver,
+}
+
+/**
+ * Driver is chosen by UPLOADS_DRIVER, local disk by default in development.
+ * In production both UPLOADS_DRIVER and UPLOADS_BASE_URL are required,
+ * the server refuses to start rather than link files to localhost
+ */
+export const createStorageDriver = (): StorageDriver => {
+	if (process.env.NODE_ENV === 'production') {
+		const missing = ['UPLOADS_DRIVER', 'UPLOADS_BASE_URL'].filter(
+			(name) => !process.env[name]
+		)
+		if (missing.length)
+			throw new Error(`${missing.join(', ')} must be set in production`)
+	}
+
+	const name = process.env.UPLOADS_DRIVER || 'local'
+	const Driver = storageDrivers[name]
+	if (!Driver)
+		throw new Error(
+			`Unknown UPLOADS_DRIVER "${name}", expected one of ${Object.keys(
+				storageDrivers
+			).join(', ')}`
+		)
+
+	return new Driver()
+}
+
+export const storageDriverProvider: Provider = {
+	provide: STORAGE_DRIVER,
+	useFactory: createStorageDriver,
+}
@@ -0,0 +1,41 @@
+import {
+	Controller,
+	Post,
+	Req,
+	UploadedFile,
+	UseGuards,
+	UseInterceptors,
+} from '@nestjs/common'
+import { FileInterceptor } from '@nestjs/platform-express'
+import { Request } from 'express'
+import { AuthenticatedGuard } from '../auth/guards/auth.guard'
+import { User } from '../users/entities/user.entity'
+import {
+	MAX_UPLOAD_SIZES,
+	UploadedMedia,
+	UploadsService,
+} from './uploads.service'
+
+@Controller('uploads')
+export class UploadsController {
+	constructor(private readonly uploadsService: UploadsService) {}
+
+	/**
+	 * @Usage multipart/form-data request with the media in "file" field,
+	 * returns uri to be used in CreateAttachmentInput media
+	 */
+	@Post()
+	@UseGuards(AuthenticatedGuard)
+	@UseInterceptors(
+		FileInterceptor('file', {
+			// stop reading early, exact limit per type is checked later
+			limits: {
+				fileSize: Math.max(...Object.values(MAX_UPLOAD_SIZES)),
+				files: 1,
+			},
+		})
+	)
+	async upload(@Req() req: Request, @UploadedFile() file?: UploadedMedia) {
+		return await this.uploadsService.upload((req.user as User).id, file)
+	}
+}
@@ -0,0 +1,18 @@
+import { Module } from '@nestjs/common'
+import { ImageProcessingService } from './image-processing.service'
+import { storageDriverProvider } from './storage/storage-driver.provider'
+import { STORAGE_DRIVER } from './storage/storage-driver.interface'
+import { UploadsController } from './uploads.controller'
+import { UploadsService } from './uploads.service'
+
+@Module({
+	providers: [
+		UploadsService,
+		ImageProcessingService,
+		// another storage only needs to implement StorageDriver, @see storageDrivers
+		storageDriverProvider,
+	],
+	controllers: [UploadsController],
+	exports: [STORAGE_DRIVER, ImageProcessingService],
+})
+export class UploadsModule {}
@@ -0,0 +1,154 @@
+import { BadRequestException, PayloadTooLargeException } from '@nestjs/common'
+import { Test, TestingModule } from '@nestjs/testing'
+import { ImageProcessingService } from './image-processing.service'
+import { STORAGE_DRIVER } from './storage/storage-driver.interface'
+import { UploadsService } from './uploads.service'
+
+describe('UploadsService', () => {
+	let service: UploadsService
+
+	// first bytes of a png file
+	const pngBuffer = Buffer.from([
+		0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a,
+	])
+
+	// first bytes of a heic photo, "ftyp" box of the "heic" brand
+	const heicBuffer = Buffer.from([
+		0x00, 0x00, 0x00, 0x18, 0x66, 0x74, 0x79, 0x70, 0x68, 0x65, 0x69, 0x63,
+	])
+
+	// first bytes of a quicktime movie, "ftyp" box of the "qt  " brand
+	const movBuffer = Buffer.from([
+		0x00, 0x00, 0x00, 0x14, 0x66, 0x74, 0x79, 0x70, 0x71, 0x74, 0x20, 0x20,
+	])
+
+	// png re-encoded without its metadata
+	const strippedBuffer = Buffer.from([
+		0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x00,
+	])
+
+	// Storage Driver Mocking
+	const mockStorageDriver = {
+		put: jest.fn((key: string) =>
+			Promise.resolve(`http://localhost:3000/uploads/${key}`)
+		),
+		delete: jest.fn(() => Promise.resolve()),
+	}
+
+	// Image Processing Mocking
+	const mockImageProcessingService = {
+		stripMetadata: jest.fn(() => Promise.resolve(strippedBuffer)),
+	}
+
+	beforeEach(async () => {
+		const module: TestingModule = await Test.createTestingModule({
+			providers: [
+				UploadsService,
+				{
+					provide: STORAGE_DRIVER,
+					useValue: mockStorageDriver,
+				},
+				{
+					provide: ImageProcessingService,
+					useValue: mockImageProcessingService,
+				},
+			],
+		}).compile()
+
+		service = module.get<UploadsService>(UploadsService)
+		jest.clearAllMocks()
+	})
+
+	it('should be defined', () => {
+		expect(service).toBeDefined()
+	})
+
+	it('should store the image without its metadata and return its uri', async () => {
+		const result = await service.upload('user id', {
+			originalname: 'beach.png',
+			mimetype: 'image/png',
+			size: pngBuffer.length,
+			buffer: pngBuffer,
+		})
+
+		expect(mockImageProcessingService.stripMetadata).toHaveBeenCalledWith(
+			pngBuffer,
+			'image/png'
+		)
+		expect(mockStorageDriver.put).toHaveBeenCalledWith(
+			expect.stringMatching(/^user id\/[0-9a-f]{32}\.png$/),
+			strippedBuffer,
+			'image/png'
+		)
+		expect(result).toEqual({
+			type: 'image',
+			uri: expect.stringContaining('http://localhost:3000/uploads/'),
+			mime: 'image/png',
+			size: strippedBuffer.length,
+		})
+	})
+
+	it('should refuse image whose metadata could not be stripped', async () => {
+		await expect(
+			service.upload('user id', {
+				originalname: 'beach.heic',
+				mimetype: 'image/heic',
+				size: heicBuffer.length,
+				buffer: heicBuffer,
+			})
+		).rejects.toBeInstanceOf(BadRequestException)
+		expect(mockStorageDriver.put).not.toHaveBeenCalled()
+	})
+
+	it('should tell quicktime movie apart from mp4 video', async () => {
+		const result = await service.upload('user id', {
+			originalname: 'beach.mov',
+			mimetype: 'video/quicktime',
+			size: movBuffer.length,
+			buffer: movBuffer,
+		})
+
+		expect(mockImageProcessingService.stripMetadata).not.toHaveBeenCalled()
+		expect(result.mime).toEqual('video/quicktime')
+	})
+
+	it('should refuse file which content is not a media', async () => {
+		await expect(
+			service.upload('user id', {
+				originalname: 'script.png',
+				mimetype: 'image/png',
+				size: 12,
+				buffer: Buffer.from('alert("hi")'),
+			})
+		).rejects.toBeInstanceOf(BadRequestException)
+		expect(mockStorageDriver.put).not.toHaveBeenCalled()
+	})
+
+	it('should refuse file which content does not match its type', async () => {
+		await expect(
+			service.upload('user id', {
+				originalname: 'beach.mp4',
+				mimetype: 'video/mp4',
+				size: pngBuffer.length,
+				buffer: pngBuffer,
+			})
+		).rejects.toBeInstanceOf(BadRequestException)
+	})
+
+	it('should refuse image larger than its limit', async () => {
+		await expect(
+			service.upload('user id', {
+				originalname: 'beach.png',
+				mimetype: 'image/png',
+				size: 11 * 1024 * 1024,
+				buffer: pngBuffer,
+			})
+		).rejects.toBeInstanceOf(PayloadTooLargeException)
+	})
+
+	it('should refuse request without file', async () => {
+		await expect(service.upload('user id')).rejects.toBeInstanceOf(
+			BadRequestException
+		)
+	})
+})
@@ -0,0 +1,86 @@
+import {
+	BadRequestException,
+	Inject,
+	Injectable,
+	PayloadTooLargeException,
+} from '@nestjs/common'
+import { randomBytes } from 'crypto'
+import { UploadResponse } from './dto/upload-response.dto'
+import {
+	ImageProcessingService,
+	PROCESSABLE_MIME_TYPES,
+} from './image-processing.service'
+import {
+	StorageDriver,
+	STORAGE_DRIVER,
+} from './storage/storage-driver.interface'
+import { detectMimeType } from './utils/detect-mime-type'
+
+// Maximum size of each media type in bytes
+export const MAX_UPLOAD_SIZES: Record<string, number> = {
+	image: 10 * 1024 * 1024, // 10 MB
+	video: 100 * 1024 * 1024, // 100 MB
+	audio: 20 * 1024 * 1024, // 20 MB
+}
+
+// GIF has no EXIF, so it is stored as it is
+const METADATA_FREE_MIME_TYPES = ['image/gif']
+
+// Uploaded file as given by multer memory storage
+export interface UploadedMedia {
+	originalname: string
+	mimetype: string
+	size: number
+	buffer: Buffer
+}
+
+@Injectable()
+export class UploadsService {
+	constructor(
+		@Inject(STORAGE_DRIVER) private readonly storageDriver: StorageDriver,
+		private readonly imageProcessingService: ImageProcessingService
+	) {}
+
+	async upload(userId: string, file?: UploadedMedia) {
+		if (!file) throw new BadRequestException('File is required')
+
+		/**
+		 * Trust the content of the file, not its name
+		 * or the MIME type claimed by the client
+		 */
+		const mime = detectMimeType(file.buffer)
+		if (!mime || mime.split('/')[0] !== file.mimetype.split('/')[0])
+			throw new BadRequestException('Unsupported file type')
+
+		const type = mime.split('/')[0]
+		if (file.size > MAX_UPLOAD_SIZES[type])
+			throw new PayloadTooLargeException(
+				`${type} could not be larger than ${
+					MAX_UPLOAD_SIZES[type] / 1024 / 1024
+				} MB`
+			)
+
+		/**
+		 * Metadata of images, e.g the GPS location of a photo,
+		 * is removed before the file is ever public.
+		 * Images whose metadata could not be removed, e.g HEIC, are refused
+		 */
+		let body = file.buffer
+		if (type === 'image' && !METADATA_FREE_MIME_TYPES.includes(mime)) {
+			if (!PROCESSABLE_MIME_TYPES.includes(mime))
+				throw new BadRequestException('Unsupported file type')
+			body = await this.imageProcessingService.stripMetadata(body, mime)
+		}
+
+		/**
+		 * Files are grouped by its uploader,
+		 * random names never collide nor leak the original name
+		 */
+		const key = `${userId}/${randomBytes(16).toString('hex')}.${
+			mime.split('/')[1]
+		}`
+		const uri = await this.storageDriver.put(key, body, mime)
+
+		return new UploadResponse(type, uri, mime, body.length)
+	}
+}
@@ -0,0 +1,51 @@
+/**
+ * File signatures of every accepted media type.
+ * MIME type sent by the client could be anything,
+ * so the first bytes of the file are checked instead.
+ */
+const SIGNATURES: { mime: string; offset: number; bytes: number[] }[] = [
+	{ mime: 'image/jpeg', offset: 0, bytes: [0xff, 0xd8, 0xff] },
+	{ mime: 'image/png', offset: 0, bytes: [0x89, 0x50, 0x4e, 0x47] },
+	{ mime: 'image/gif', offset: 0, bytes: [0x47, 0x49, 0x46, 0x38] },
+	{ mime: 'image/webp', offset: 8, bytes: [0x57, 0x45, 0x42, 0x50] },
+	{ mime: 'video/webm', offset: 0, bytes: [0x1a, 0x45, 0xdf, 0xa3] },
+	{ mime: 'audio/mpeg', offset: 0, bytes: [0x49, 0x44, 0x33] },
+	{ mime: 'audio/ogg', offset: 0, bytes: [0x4f, 0x67, 0x67, 0x53] },
+	{ mime: 'audio/wav', offset: 8, bytes: [0x57, 0x41, 0x56, 0x45] },
+]
+
+/**
+ * MP4, MOV and HEIC files all start with the same "ftyp" box,
+ * its major brand right after it tells what the file really is.
+ * Files of any other brand are not accepted.
+ * @see https://www.ftyps.com
+ */
+const FTYP_BOX = [0x66, 0x74, 0x79, 0x70]
+const FTYP_BRANDS: Record<string, string> = {
+	isom: 'video/mp4',
+	iso2: 'video/mp4',
+	mp41: 'video/mp4',
+	mp42: 'video/mp4',
+	avc1: 'video/mp4',
+	dash: 'video/mp4',
+	'M4V ': 'video/mp4',
+	'qt  ': 'video/quicktime',
+	'M4A ': 'audio/mp4',
+	heic: 'image/heic',
+	heix: 'image/heic',
+	mif1: 'image/heif',
+	msf1: 'image/heif',
+}
+
+/**
+ * @returns MIME type of the file from its content,
+ * undefined when it is not an accepted media type
+ */
+export function detectMimeType(buffer: Buffer) {
+	if (FTYP_BOX.every((byte, index) => buffer[4 + index] === byte))
+		return FTYP_BRANDS[buffer.toString('latin1', 8, 12)]
+
+	return SIGNATURES.find(({ offset, bytes }) =>
+		bytes.every((byte, index) => buffer[offset + index] === byte)
+	)?.mime
+}
@@ -1,5 +1,5 @@
 import { Field, InputType } from '@nestjs/graphql'
-import { IsEmail, IsOptional, IsUrl, Length } from 'class-validator'
+import { IsBoolean, IsEmail, IsOptional, IsUrl, Length } from 'class-validator'
 
 @InputType()
 export class UpdateUserInput {
@@ -20,4 +20,9 @@ export class UpdateUserInput {
 	@IsUrl()
 	@IsOptional()
 	avatar_url?: string
+
+	@Field({ nullable: true })
+	@IsBoolean()
+	@IsOptional()
+	on_this_day_reminder?: boolean
 }
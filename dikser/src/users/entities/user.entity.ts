@@ -48,6 +48,11 @@ export class User {
 	@Column('text', { nullable: true })
 	avatar_url: string
 
+	// opt-in daily email of "on this day" memories
+	@Field()
+	@Column({ default: false })
+	on_this_day_reminder: boolean
+
 	@Field({ nullable: true })
 	@CreateDateColumn()
 	created_at: Date
@@ -60,6 +65,10 @@ export class User {
 	@OneToMany((_) => Post, (contents: Post) => contents.author)
 	contents: Post[]
 
+	// Featured posts in pin order, @see Post.pinned_at
+	@Field((_) => [Post], { nullable: true })
+	pinnedPosts: Post[]
+
 	// User Comment Relations
 	@Field((_) => [Comment], { nullable: true })
 	@OneToMany((_) => Comment, (comments: Comment) => comments.author)
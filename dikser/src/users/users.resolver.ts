@@ -1,4 +1,11 @@
-import { Resolver, Query, Mutation, Args } from '@nestjs/graphql'
+import {
+	Resolver,
+	Query,
+	Mutation,
+	Args,
+	ResolveField,
+	Parent,
+} from '@nestjs/graphql'
 import { UsersService } from './users.service'
 import { User } from './entities/user.entity'
 import { UseGuards } from '@nestjs/common'
@@ -6,6 +13,12 @@ import { UpdateUserInput } from './dto/update-user.input'
 import { CurrentUser } from '../shared/decorators/current-user.decorator'
 import { AuthStatusGuard } from '../auth/guards/auth.guard'
 import { AGuard } from '../shared/guards/a.guard'
+import { Loaders } from '../shared/decorators/loaders.decorator'
+import { DataLoaders } from '../loaders/loaders.service'
+import { Post } from '../posts/entities/post.entity'
+import { Comment } from '../comments/entities/comment.entity'
+import { Relationship } from '../relationship/entities/relationship.entity'
+import { Badge } from '../badges/entities/badge.entity'
 
 @Resolver(() => User)
 export class UsersResolver {
@@ -45,4 +58,55 @@ export class UsersResolver {
 	): Promise<User> {
 		return await this.usersService.update(id, updateUserInput)
 	}
+
+	/**
+	 * @ResolveFields
+	 * User relations are batch-loaded by DataLoaders,
+	 * posts the current user can not see are left out
+	 */
+	@ResolveField(() => [Post], { nullable: true })
+	async contents(@Parent() user: User, @Loaders() loaders: DataLoaders) {
+		return loaders.userContents.load(user.id)
+	}
+
+	@ResolveField(() => [Post], { nullable: true })
+	async pinnedPosts(@Parent() user: User, @Loaders() loaders: DataLoaders) {
+		return loaders.userPinnedPosts.load(user.id)
+	}
+
+	@ResolveField(() => [Comment], { nullable: true })
+	async comments(@Parent() user: User, @Loaders() loaders: DataLoaders) {
+		return loaders.userComments.load(user.id)
+	}
+
+	@ResolveField(() => [Post], { nullable: true })
+	async upvotes(@Parent() user: User, @Loaders() loaders: DataLoaders) {
+		return loaders.userUpvotes.load(user.id)
+	}
+
+	@ResolveField(() => [Post], { nullable: true })
+	async downvotes(@Parent() user: User, @Loaders() loaders: DataLoaders) {
+		return loaders.userDownvotes.load(user.id)
+	}
+
+	// viewed posts are private to the user itself
+	@ResolveField(() => [Post], { nullable: true })
+	async viewed(
+		@Parent() user: User,
+		@Loaders() loaders: DataLoaders,
+		@CurrentUser() currentUser?: User
+	) {
+		if (user.id !== currentUser?.id) return null
+		return loaders.userViewed.load(user.id)
+	}
+
+	@ResolveField(() => Relationship, { nullable: true })
+	async relationship(@Parent() user: User, @Loaders() loaders: DataLoaders) {
+		return user.relationship ?? loaders.userRelationship.load(user.id)
+	}
+
+	@ResolveField(() => [Badge], { nullable: true })
+	async badges(@Parent() user: User, @Loaders() loaders: DataLoaders) {
+		return user.badges ?? loaders.userBadges.load(user.id)
+	}
 }
@@ -5,10 +5,15 @@ import FeedInputBox from '../feed/FeedInputBox'
 import FeedPost from '../feed/FeedPost'
 import Leftbar from '../sidebar/leftbar/Leftbar'
 import Rightbar from '../sidebar/rightbar/Rightbar'
-import { useGetPublicFeedsQuery } from '../../generated/graphql'
+import {
+	FeedSort,
+	useGetPublicFeedsQuery,
+	useGetRelationshipFeedsQuery,
+} from '../../generated/graphql'
 import FeedPostSkeleton from '../feed/FeedPostSkeleton'
 import LoadingBrand from '../loading/LoadingBrand'
 import dismissAlert from '../../utils/dismissAlert'
+import Button from '../button/Button'
 
 import Tabs from '@material-ui/core/Tabs'
 import Tab from '@material-ui/core/Tab'
@@ -87,7 +92,18 @@ export default function IndexBody({ profile }: Props) {
 	 * helper function and result like { loading, data, error, refetch. etc }
 	 * @see https://www.apollographql.com/docs/react/data/queries/#options
 	 */
-	const publicFeedsHooks = useGetPublicFeedsQuery()
+	const [sort, setSort] = useState<FeedSort>(FeedSort.New)
+	const publicFeedsHooks = useGetPublicFeedsQuery({
+		variables: { sort },
+	})
+
+	/**
+	 * Private feeds of current user relationship,
+	 * only fetched once "Your Partner" tab is opened
+	 */
+	const relationshipFeedsHooks = useGetRelationshipFeedsQuery({
+		skip: value !== 1,
+	})
 
 	return (
 		<IndexBodyWrapper>
@@ -184,6 +200,30 @@ export default function IndexBody({ profile }: Props) {
 
 				<TabsPanelWrapper>
 					<TabPanel value={value} index={0}>
+						{/* Ranking of public feeds, TOP covers the past week */}
+						<FeedSortWrapper>
+							{[FeedSort.New, FeedSort.Hot, FeedSort.Top].map(
+								(feedSort) => (
+									<Chip
+										key={feedSort}
+										label={feedSort}
+										size="small"
+										variant={
+											sort === feedSort
+												? 'default'
+												: 'outlined'
+										}
+										onClick={() => setSort(feedSort)}
+										style={{
+											color: 'var(--font-white-800)',
+											borderColor:
+												'var(--font-white-300)',
+										}}
+									/>
+								)
+							)}
+						</FeedSortWrapper>
+
 						{/* When API calls is not ready, render Skeleton Component */}
 						{publicFeedsHooks.loading ? (
 							<>
@@ -194,47 +234,146 @@ export default function IndexBody({ profile }: Props) {
 						) : (
 							[
 								// When API calls is ready, map the result into FeedPost Component
-								publicFeedsHooks.data?.posts.map((value) => (
-									<FeedPost
-										key={value.id}
-										profile={profile}
-										postId={value.id}
-										caption={value.caption}
-										type={value.type as string}
-										authorId={value.author.id}
-										username={value.author.username}
-										badge={
-											value.author.badges
-												? value.author.badges[0]
-												: undefined
-										}
-										timestamp={value.created_at}
-										imageSrc={value.attachments?.uri}
-										avatarSrc={
-											value.author.avatar_url as
-												| string
-												| undefined
-										}
-										commentSum={0}
-										onRefecthCallback={() =>
-											publicFeedsHooks.refetch()
+								publicFeedsHooks.data?.posts.edges.map(
+									({ node: value }) => (
+										<FeedPost
+											key={value.id}
+											profile={profile}
+											postId={value.id}
+											caption={value.caption}
+											type={value.type as string}
+											authorId={value.author.id}
+											username={value.author.username}
+											badge={
+												value.author.badges
+													? value.author.badges[0]
+													: undefined
+											}
+											timestamp={value.created_at}
+											edited={value.edited}
+											media={value.media ?? undefined}
+											repost={value.repost}
+											pinned={!!value.pinned_at}
+											isBookmarked={value.isBookmarked}
+											reactionCounts={
+												value.reactionCounts
+											}
+											myReaction={value.myReaction}
+											repostSum={value.repostCount ?? 0}
+											original={value.original}
+											avatarSrc={
+												value.author.avatar_url as
+													| string
+													| undefined
+											}
+											commentSum={value.commentCount ?? 0}
+											upvoteSum={value.upvoteCount ?? 0}
+											downvoteSum={
+												value.downvoteCount ?? 0
+											}
+											reachSum={value.reachCount ?? 0}
+											myVote={value.myVote}
+											onRefecthCallback={() =>
+												publicFeedsHooks.refetch()
+											}
+										/>
+									)
+								),
+								// Load next page of feeds when there is any
+								publicFeedsHooks.data?.posts.pageInfo
+									.hasNextPage && (
+									<Button
+										key="load-more"
+										type="button"
+										text="Load more"
+										width="100%"
+										margin="8px 0"
+										onClick={() =>
+											publicFeedsHooks.fetchMore({
+												variables: {
+													after: publicFeedsHooks.data
+														?.posts.pageInfo
+														.endCursor,
+												},
+											})
 										}
 									/>
-								)),
+								),
 							]
 						)}
 					</TabPanel>
 					<TabPanel value={value} index={1}>
 						{/* Feed Partner Post */}
-						<h1
-							style={{
-								color: '#fff',
-								display: 'flex',
-								justifyContent: 'center',
-							}}
-						>
+						{relationshipFeedsHooks.loading ? (
 							<LoadingBrand height="400px" />
-						</h1>
+						) : (
+							[
+								relationshipFeedsHooks.data?.relationshipFeed.edges.map(
+									({ node: value }) => (
+										<FeedPost
+											key={value.id}
+											profile={profile}
+											postId={value.id}
+											caption={value.caption}
+											type={value.type as string}
+											authorId={value.author.id}
+											username={value.author.username}
+											badge={
+												value.author.badges
+													? value.author.badges[0]
+													: undefined
+											}
+											timestamp={value.created_at}
+											edited={value.edited}
+											media={value.media ?? undefined}
+											repost={value.repost}
+											pinned={!!value.pinned_at}
+											isBookmarked={value.isBookmarked}
+											reactionCounts={
+												value.reactionCounts
+											}
+											myReaction={value.myReaction}
+											repostSum={value.repostCount ?? 0}
+											original={value.original}
+											avatarSrc={
+												value.author.avatar_url as
+													| string
+													| undefined
+											}
+											commentSum={value.commentCount ?? 0}
+											upvoteSum={value.upvoteCount ?? 0}
+											downvoteSum={
+												value.downvoteCount ?? 0
+											}
+											reachSum={value.reachCount ?? 0}
+											myVote={value.myVote}
+											onRefecthCallback={() =>
+												relationshipFeedsHooks.refetch()
+											}
+										/>
+									)
+								),
+								relationshipFeedsHooks.data?.relationshipFeed
+									.pageInfo.hasNextPage && (
+									<Button
+										key="load-more"
+										type="button"
+										text="Load more"
+										width="100%"
+										margin="8px 0"
+										onClick={() =>
+											relationshipFeedsHooks.fetchMore({
+												variables: {
+													after: relationshipFeedsHooks
+														.data?.relationshipFeed
+														.pageInfo.endCursor,
+												},
+											})
+										}
+									/>
+								),
+							]
+						)}
 					</TabPanel>
 				</TabsPanelWrapper>
 			</IndexBodyMidWrapper>
@@ -284,6 +423,12 @@ const TabsPanelWrapper = styled.div`
 	}
 `
 
+const FeedSortWrapper = styled.div`
+	display: flex;
+	gap: 8px;
+	margin-bottom: 8px;
+`
+
 const AlertWrapper = styled.div<{ isHidden?: boolean }>`
 	margin: 18px 0px;
 	display: ${(props) => (!props.isHidden ? 'none' : undefined)};
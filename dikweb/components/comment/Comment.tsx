@@ -1,11 +1,16 @@
+import { useState } from 'react'
 import styled from 'styled-components'
 import Moment from 'moment'
 import { animated, config, useSpring } from 'react-spring'
-import { useGetUserBadgeQuery, User } from '../../generated/graphql'
+import {
+	useGetUserBadgeQuery,
+	useUpdateCommentMutation,
+	User,
+} from '../../generated/graphql'
 import CommentMoreItem from './CommentMoreItem'
 import { UserProfileType } from '../../types/profile.type'
 
-import { Avatar, Chip, IconButton } from '@material-ui/core'
+import { Avatar, Chip, IconButton, TextareaAutosize } from '@material-ui/core'
 import BulletDivider from '../utils/BulletDivider'
 
 interface Props {
@@ -14,6 +19,10 @@ interface Props {
 	author: User
 	text: string
 	timestamp: Date
+	editedAt?: Date | null
+	depth: number
+	// undefined when the comment could not be replied to
+	onReplyCallback?: () => void
 }
 
 export default function Comment(props: Props) {
@@ -23,6 +32,29 @@ export default function Comment(props: Props) {
 		config: config.slow,
 	})
 
+	/**
+	 * State of the inline editor, the new text
+	 * comes back through the comments subscription
+	 */
+	const [isEditing, setIsEditing] = useState<boolean>(false)
+	const [editText, setEditText] = useState<string>(props.text)
+	const [updateComment, updateCommentData] = useUpdateCommentMutation()
+
+	const handleSubmitEdit = async () => {
+		if (!editText.replace(/\s/g, '').length) return
+
+		await updateComment({
+			variables: {
+				updateCommentInput: {
+					id: props.commentId,
+					text: editText,
+				},
+			},
+		})
+
+		setIsEditing(false)
+	}
+
 	/**
 	 * @Query
 	 * Define query to the database to get the user badges
@@ -34,7 +66,7 @@ export default function Comment(props: Props) {
 	})
 
 	return (
-		<CommentItemWrapper style={commentItemFade}>
+		<CommentItemWrapper style={commentItemFade} depth={props.depth}>
 			<IconButton>
 				<Avatar src={props.author.avatar_url as string} />
 			</IconButton>
@@ -76,9 +108,53 @@ export default function Comment(props: Props) {
 						{Moment(props.timestamp).hours()}:
 						{Moment(props.timestamp).minutes()}
 					</CommentTimestamp>
+
+					{props.editedAt ? (
+						<>
+							<BulletDivider color="var(--font-white-200)" />
+							<CommentTimestamp>edited</CommentTimestamp>
+						</>
+					) : undefined}
 				</TimestampWrapper>
 
-				<CommentBodyText>{props.text}</CommentBodyText>
+				{isEditing ? (
+					<>
+						<CommentEditInput
+							autoFocus
+							value={editText}
+							maxLength={1500}
+							rowsMax={10}
+							onChange={(e) => setEditText(e.target.value)}
+						/>
+						<CommentActionsWrapper>
+							<CommentActionButton
+								onClick={
+									updateCommentData.loading
+										? undefined
+										: handleSubmitEdit
+								}
+							>
+								Save
+							</CommentActionButton>
+							<CommentActionButton
+								onClick={() => {
+									setEditText(props.text)
+									setIsEditing(false)
+								}}
+							>
+								Cancel
+							</CommentActionButton>
+						</CommentActionsWrapper>
+					</>
+				) : (
+					<CommentBodyText>{props.text}</CommentBodyText>
+				)}
+
+				{props.onReplyCallback && !isEditing ? (
+					<CommentActionButton onClick={props.onReplyCallback}>
+						Reply
+					</CommentActionButton>
+				) : undefined}
 			</CommentItemBody>
 
 			{/* MORE ITEM COMPONENT */}
@@ -86,13 +162,19 @@ export default function Comment(props: Props) {
 				profile={props.profile}
 				commentId={props.commentId}
 				authorId={props.author.id}
+				onEditCallback={() => {
+					setEditText(props.text)
+					setIsEditing(true)
+				}}
 			/>
 		</CommentItemWrapper>
 	)
 }
 
-const CommentItemWrapper = styled(animated.div)`
+// replies are indented under the comment they reply to
+const CommentItemWrapper = styled(animated.div)<{ depth: number }>`
 	display: flex;
+	margin-left: ${(props) => props.depth * 24}px;
 	align-items: flex-start;
 	padding: 8px 0px;
 	border-top: var(--border);
@@ -122,6 +204,34 @@ const CommentBodyText = styled.span`
 	font-size: 14px;
 `
 
+const CommentActionButton = styled.p`
+	color: var(--font-white-300);
+	font-size: 12px;
+	font-weight: 600;
+	margin-top: 4px;
+	cursor: pointer;
+`
+
+const CommentActionsWrapper = styled.div`
+	display: flex;
+	gap: 12px;
+`
+
+const CommentEditInput = styled(TextareaAutosize)`
+	background: transparent;
+	font-family: var(--font-family);
+	color: var(--font-white-800);
+	padding: 8px 12px;
+	margin-top: 4px;
+	border: var(--border);
+	font-size: 14px;
+	outline: none;
+	border-radius: 12px;
+	width: 100%;
+	resize: none;
+	overflow-y: hidden;
+`
+
 const CommentTimestamp = styled.p`
 	color: var(--font-white-300);
 	font-size: 12px;
@@ -7,10 +7,12 @@ import {
 	Comment as CommentType,
 	useCommentsSubscriptionSubscription,
 	useCreateCommentMutation,
-	useGetPostCommentsQuery,
+	useGetCommentsQuery,
+	useReplyToCommentMutation,
 } from '../../generated/graphql'
 import { UserProfileType } from '../../types/profile.type'
 import scrollToBottom from '../../utils/scrollToBottom'
+import Button from '../button/Button'
 
 import { Avatar, IconButton, TextareaAutosize } from '@material-ui/core'
 import SendIcon from '@material-ui/icons/Send'
@@ -20,15 +22,43 @@ interface Props {
 	postId: string
 }
 
+// Deepest comment that could still be replied to, same as the server
+const MAX_COMMENT_DEPTH = 3
+
+// Comments fetched at a time, older comments come first
+const COMMENTS_PAGE_SIZE = 20
+
+/**
+ * Order comments as threads, each comment followed by its replies.
+ * Replies whose parent is gone, e.g deleted along with it, are left out
+ */
+function threadComments(comments: CommentType[]) {
+	const repliesOf = (parentId: string | null): CommentType[] =>
+		comments
+			.filter((comment) => (comment.parent?.id ?? null) === parentId)
+			.flatMap((comment) => [comment, ...repliesOf(comment.id)])
+
+	return repliesOf(null)
+}
+
 export default function CommentContainer(props: Props) {
 	const [postComments, setPostComments] = useState<CommentType[] | []>([])
 	const [inputComment, setInputComment] = useState<string | undefined>(
 		undefined
 	)
 
+	// Comment being replied to, undefined when commenting on the post
+	const [replyTo, setReplyTo] = useState<CommentType | undefined>(undefined)
+
 	// Hooks to scroll comment container to the bottom
 	const commentItemsRef = useRef(undefined)
 
+	/**
+	 * Comments removed through the subscription,
+	 * they are still in the cached pages of the query
+	 */
+	const removedCommentIds = useRef<Set<string>>(new Set())
+
 	// Send Button Fade Animation
 	const sendButtonFade = useSpring({ opacity: inputComment ? 1 : 0 })
 
@@ -39,10 +69,11 @@ export default function CommentContainer(props: Props) {
 		},
 	})
 
-	// Get Initial Comments
-	const getPostComments = useGetPostCommentsQuery({
+	// Get Initial Comments, the next pages are fetched on demand
+	const getComments = useGetCommentsQuery({
 		variables: {
 			postId: props.postId,
+			first: COMMENTS_PAGE_SIZE,
 		},
 		fetchPolicy: 'network-only',
 	})
@@ -53,6 +84,7 @@ export default function CommentContainer(props: Props) {
 	 * new comments
 	 */
 	const [createComment] = useCreateCommentMutation()
+	const [replyToComment] = useReplyToCommentMutation()
 
 	useEffect(() => {
 		/**
@@ -61,10 +93,24 @@ export default function CommentContainer(props: Props) {
 		 * The initial value is used because graphql subscriptions are
 		 * not yet returning values.
 		 */
-		if (getPostComments.data) {
-			setPostComments(
-				getPostComments.data.getPostComments as CommentType[]
-			)
+		if (getComments.data) {
+			const loadedComments = getComments.data.comments.edges
+				.map(({ node }) => node as CommentType)
+				.filter((comment) => !removedCommentIds.current.has(comment.id))
+
+			/**
+			 * Comments added through the subscription are kept
+			 * after the loaded pages until their own page is loaded
+			 */
+			setPostComments((prev: CommentType[]) => [
+				...loadedComments,
+				...prev.filter(
+					(comment) =>
+						!loadedComments.some(
+							(loaded) => loaded.id === comment.id
+						)
+				),
+			])
 
 			/**
 			 * This function is used to auto-scroll container to the bottom
@@ -73,7 +119,7 @@ export default function CommentContainer(props: Props) {
 			 */
 			scrollToBottom(commentItemsRef)
 		}
-	}, [getPostComments.data])
+	}, [getComments.data])
 
 	useEffect(() => {
 		/**
@@ -89,20 +135,51 @@ export default function CommentContainer(props: Props) {
 				 * supposed to be added, i.e new comments, bind that
 				 * comment to the array object of @postComments
 				 */
+				const { comment, parentId } =
+					commentsSubscriptions.data.commentsSubscription
 				setPostComments(
 					(prev: CommentType[]) =>
 						[
 							...prev,
-							commentsSubscriptions.data?.commentsSubscription
-								.comment,
+							{
+								...comment,
+								parent: parentId ? { id: parentId } : null,
+							},
 						] as CommentType[]
 				)
+			} else if (
+				commentsSubscriptions.data.commentsSubscription.type ===
+				'edited'
+			) {
+				/**
+				 * If incoming comment is edited by its author,
+				 * replace the comment while keeping its place in the thread
+				 */
+				const { comment } =
+					commentsSubscriptions.data.commentsSubscription
+				setPostComments((prev: CommentType[]) =>
+					prev.map((value) =>
+						value.id === comment.id
+							? ({
+									...value,
+									text: comment.text,
+									edited_at: comment.edited_at,
+							  } as CommentType)
+							: value
+					)
+				)
+
+				// edits never move the comment, keep the scroll position
+				return
 			} else {
 				/**
 				 * Instead, If incoming comment from graphql subscription is
 				 * supposed to be removed, i.e deleted by user, filter
 				 * @postComments array to remove the comment.
 				 */
+				removedCommentIds.current.add(
+					commentsSubscriptions.data.commentsSubscription.comment.id
+				)
 				setPostComments((prev: CommentType[]) =>
 					prev.filter(
 						(comment) =>
@@ -125,18 +202,30 @@ export default function CommentContainer(props: Props) {
 	const handleSubmitComment = async () => {
 		if (!inputComment) return
 
-		// send request to create a comment
-		await createComment({
-			variables: {
-				createCommentInput: {
-					postId: props.postId,
-					text: inputComment,
+		// send request to create a comment, or a reply to a comment
+		if (replyTo) {
+			await replyToComment({
+				variables: {
+					replyToCommentInput: {
+						commentId: replyTo.id,
+						text: inputComment,
+					},
+				},
+			})
+		} else {
+			await createComment({
+				variables: {
+					createCommentInput: {
+						postId: props.postId,
+						text: inputComment,
+					},
 				},
-			},
-		})
+			})
+		}
 
 		// reset input field
 		setInputComment('')
+		setReplyTo(undefined)
 	}
 
 	return (
@@ -144,19 +233,57 @@ export default function CommentContainer(props: Props) {
 			{/* All items */}
 			<CommentItemsWrapper ref={commentItemsRef}>
 				{postComments
-					? postComments.map((value) => (
+					? threadComments(postComments).map((value) => (
 							<Comment
 								key={value.id}
 								commentId={value.id}
 								author={value.author}
 								text={value.text}
 								timestamp={value.created_at}
+								editedAt={value.edited_at}
+								depth={value.depth}
 								profile={props.profile}
+								onReplyCallback={
+									value.depth < MAX_COMMENT_DEPTH
+										? () => setReplyTo(value)
+										: undefined
+								}
 							/>
 					  ))
 					: undefined}
+
+				{/* Load next page of comments when there is any */}
+				{getComments.data?.comments.pageInfo.hasNextPage ? (
+					<Button
+						type="button"
+						text={`Load more comments (${
+							getComments.data.comments.totalCount -
+							getComments.data.comments.edges.length
+						})`}
+						width="100%"
+						margin="8px 0"
+						onClick={() =>
+							getComments.fetchMore({
+								variables: {
+									after: getComments.data?.comments.pageInfo
+										.endCursor,
+								},
+							})
+						}
+					/>
+				) : undefined}
 			</CommentItemsWrapper>
 
+			{/* Replying to */}
+			{replyTo ? (
+				<ReplyingToWrapper>
+					Replying to @{replyTo.author.username}
+					<ReplyingToCancel onClick={() => setReplyTo(undefined)}>
+						Cancel
+					</ReplyingToCancel>
+				</ReplyingToWrapper>
+			) : undefined}
+
 			{/* Input */}
 			<CommentInputWrapper>
 				<IconButton>
@@ -194,6 +321,20 @@ const CommentItemsWrapper = styled.div<{ ref?: any }>`
 	overflow-y: auto;
 `
 
+const ReplyingToWrapper = styled.div`
+	display: flex;
+	justify-content: space-between;
+	border-top: var(--border);
+	padding: 8px 18px;
+	color: var(--font-white-300);
+	font-size: 12px;
+`
+
+const ReplyingToCancel = styled.span`
+	cursor: pointer;
+	font-weight: 600;
+`
+
 const CommentInputWrapper = styled.div`
 	border-top: var(--border);
 	display: flex;
@@ -15,12 +15,14 @@ import {
 	ListItemText,
 } from '@material-ui/core'
 import DeleteIcon from '@material-ui/icons/Delete'
+import EditIcon from '@material-ui/icons/Edit'
 import FlagIcon from '@material-ui/icons/Flag'
 
 interface Props {
 	profile: UserProfileType
 	commentId: string
 	authorId: string
+	onEditCallback: () => void
 }
 
 // Material-UI styles
@@ -113,6 +115,22 @@ export default function CommentMoreItem(props: Props) {
 					<ListItemText primary="Report" />
 				</StyledMenuItem>
 
+				{/* Edit Comment */}
+				{/* DONT SHOW IF THE COMMENT IS NOT SAME AUTHOR AS THE USER */}
+				{props.authorId === props.profile.id ? (
+					<StyledMenuItem
+						onClick={() => {
+							props.onEditCallback()
+							handleClose()
+						}}
+					>
+						<ListItemIcon>
+							<EditIcon fontSize="small" />
+						</ListItemIcon>
+						<ListItemText primary="Edit" />
+					</StyledMenuItem>
+				) : undefined}
+
 				{/* Delete Comment */}
 				{/* DONT SHOW IF THE COMMENT IS NOT SAME AUTHOR AS THE USER */}
 				{props.authorId === props.profile.id ? (
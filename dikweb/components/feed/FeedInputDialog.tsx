@@ -50,7 +50,7 @@ export default function FeedInputDialog(props: Props) {
 	/**
 	 * @PostType
 	 * Handle and store post type
-	 * "public" or "private"
+	 * "public", "unlisted", "private" or "only_me"
 	 */
 	const [postType, setPostType] = useState<string>('public')
 
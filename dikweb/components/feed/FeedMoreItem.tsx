@@ -3,7 +3,11 @@ import styled from 'styled-components'
 import Icons from '../icons/Icons'
 import ConfirmationModal from '../modal/ConfirmationModal'
 import { UserProfileType } from '../../types/profile.type'
-import { useDeletePostMutation } from '../../generated/graphql'
+import {
+	useDeletePostMutation,
+	usePinPostMutation,
+	useUnpinPostMutation,
+} from '../../generated/graphql'
 
 import MoreHorizIcon from '@material-ui/icons/MoreHoriz'
 import {
@@ -16,12 +20,14 @@ import {
 } from '@material-ui/core'
 import DeleteForeverRoundedIcon from '@material-ui/icons/DeleteForeverRounded'
 import FaceIcon from '@material-ui/icons/Face'
+import StarIcon from '@material-ui/icons/Star'
 
 interface Props {
 	onRefecthCallback: () => void
 	profile: UserProfileType
 	postAuthorId: string
 	postId: string
+	pinned?: boolean
 }
 
 // Material-UI styles
@@ -72,6 +78,8 @@ export default function FeedMoreItem(props: Props) {
 	const [anchorEl, setAnchorEl] = React.useState<null | HTMLElement>(null)
 	const [openDeleteModal, setOpenDeleteModal] = React.useState<boolean>(false)
 	const [deletePost, deletePostData] = useDeletePostMutation()
+	const [pinPost] = usePinPostMutation()
+	const [unpinPost] = useUnpinPostMutation()
 
 	const handleClick = (event: React.MouseEvent<HTMLElement>) =>
 		setAnchorEl(event.currentTarget)
@@ -92,6 +100,21 @@ export default function FeedMoreItem(props: Props) {
 		setOpenDeleteModal(false)
 	}
 
+	const handlePostPin = async () => {
+		handleClose()
+
+		// Profile shows up to 3 pinned posts, server refuses the 4th one
+		try {
+			const variables = { postId: props.postId }
+			if (props.pinned) await unpinPost({ variables })
+			else await pinPost({ variables })
+
+			props.onRefecthCallback()
+		} catch (e) {
+			// nothing changed, feeds stay as they are
+		}
+	}
+
 	return (
 		<FeedMoreItemWrapper>
 			<Icons
@@ -119,6 +142,23 @@ export default function FeedMoreItem(props: Props) {
 					/>
 				</StyledMenuItem>
 
+				{/* Pin Post */}
+				{props.postAuthorId === props.profile.id ? (
+					<StyledMenuItem onClick={handlePostPin}>
+						<ListItemIcon>
+							<StarIcon />
+						</ListItemIcon>
+						<ListItemText
+							primary={props.pinned ? 'Unpin Post' : 'Pin Post'}
+							secondary={
+								props.pinned
+									? 'Post will no longer be featured on your profile'
+									: 'Post will be featured first on your profile'
+							}
+						/>
+					</StyledMenuItem>
+				) : undefined}
+
 				{/* Delete Post */}
 				{/* DONT SHOW IF THE POST IS NOT SAME AUTHOR AS THE USER */}
 				{props.postAuthorId === props.profile.id ? (
@@ -7,23 +7,26 @@ import RichTextEditor from '../utils/RichTextEditor'
 import BulletDivider from '../utils/BulletDivider'
 import {
 	Badge,
-	useAddDownvoteMutation,
-	useAddUpvoteMutation,
-	useDownvoteSubscription,
-	useGetPostCommentsQuery,
-	useGetPostVotesQuery,
-	useGetPublicFeedReachsQuery,
-	useRemoveDownvoteMutation,
-	useRemoveUpvoteMutation,
+	MediaItem,
+	Post,
+	ReactionCount,
+	User,
+	useBookmarkPostMutation,
+	useRepostMutation,
+	useUnbookmarkPostMutation,
 	useSetCurrentPostReachMutation,
 	useTotalCommentsSubscriptionSubscription,
-	useUpvoteSubscription,
+	useVotePostMutation,
+	useVoteSubscription,
+	VoteDirection,
 } from '../../generated/graphql'
 import Moment from 'moment'
 import { useSpring, animated } from 'react-spring'
 import CommentContainer from '../comment/CommentContainer'
 import FeedViewsTooltip from '../utils/tooltip/FeedViewsTooltip'
 import FeedMoreItem from './FeedMoreItem'
+import FeedReactions from './FeedReactions'
+import visibilityIcon from '../../utils/visibilityIcon'
 
 import { Avatar, IconButton } from '@material-ui/core'
 import ThumbUpAltIcon from '@material-ui/icons/ThumbUpAlt'
@@ -35,8 +38,9 @@ import ThumbDownAltIcon from '@material-ui/icons/ThumbDownAlt'
 import InsertCommentIcon from '@material-ui/icons/InsertComment'
 import ModeCommentOutlinedIcon from '@material-ui/icons/ModeCommentOutlined'
 import ModeCommentIcon from '@material-ui/icons/ModeComment'
-import PublicIcon from '@material-ui/icons/Public'
-import LockIcon from '@material-ui/icons/Lock'
+import RepeatIcon from '@material-ui/icons/Repeat'
+import BookmarkIcon from '@material-ui/icons/Bookmark'
+import BookmarkBorderIcon from '@material-ui/icons/BookmarkBorder'
 import Chip from '@material-ui/core/Chip'
 import ExpandMoreTwoToneIcon from '@material-ui/icons/ExpandMoreTwoTone'
 
@@ -48,11 +52,31 @@ interface Props {
 	username: string
 	badge?: Badge
 	timestamp: string
+	edited?: boolean
 	caption: string
 	commentSum: number
+	upvoteSum: number
+	downvoteSum: number
+	reachSum: number
+	myVote?: VoteDirection | null
 	avatarSrc?: string
-	imageSrc?: string[]
+	media?: Pick<
+		MediaItem,
+		'id' | 'type' | 'uri' | 'medium_uri' | 'alt' | 'width' | 'height'
+	>[]
 	type: string
+	pinned?: boolean
+	isBookmarked?: boolean | null
+	reactionCounts?: Pick<ReactionCount, 'emoji' | 'count'>[] | null
+	myReaction?: string | null
+	repost?: boolean
+	repostSum?: number
+	// null when the shared post is no longer visible
+	original?:
+		| (Pick<Post, 'id' | 'caption' | 'created_at'> & {
+				author: Pick<User, 'id' | 'username' | 'avatar_url'>
+		  })
+		| null
 }
 
 export default function FeedPost(props: Props) {
@@ -76,12 +100,7 @@ export default function FeedPost(props: Props) {
 	 * used as a real-time communications to provide
 	 * low latency update of how many votes in current post
 	 */
-	const getUpvoteSubscriptions = useUpvoteSubscription({
-		variables: {
-			postId: props.postId,
-		},
-	})
-	const getDownvoteSubscriptions = useDownvoteSubscription({
+	const getVoteSubscriptions = useVoteSubscription({
 		variables: {
 			postId: props.postId,
 		},
@@ -96,13 +115,12 @@ export default function FeedPost(props: Props) {
 	 * of animation when number changes
 	 */
 	const upvoteAnimation = useSpring({
-		upvotes: getUpvoteSubscriptions.data?.upvoteSubscription.upvotes,
+		upvotes: getVoteSubscriptions.data?.voteSubscription.upvotes,
 		from: { upvotes: 0 },
 		config: { mass: 1, tension: 500, friction: 0, clamp: true },
 	})
 	const downvoteAnimation = useSpring({
-		downvotes:
-			getDownvoteSubscriptions.data?.downvoteSubscription.downvotes,
+		downvotes: getVoteSubscriptions.data?.voteSubscription.downvotes,
 		from: { downvotes: 0 },
 		config: { mass: 1, tension: 500, friction: 0, clamp: true },
 	})
@@ -112,8 +130,12 @@ export default function FeedPost(props: Props) {
 	 * e.g, if user already voted current post,
 	 * then bind to correspond state value
 	 */
-	const [isUpvoted, setIsUpvoted] = useState<boolean>(false)
-	const [isDownvoted, setIsDownvoted] = useState<boolean>(false)
+	const [isUpvoted, setIsUpvoted] = useState<boolean>(
+		props.myVote === VoteDirection.Up
+	)
+	const [isDownvoted, setIsDownvoted] = useState<boolean>(
+		props.myVote === VoteDirection.Down
+	)
 
 	/**
 	 * @Mutation
@@ -124,35 +146,50 @@ export default function FeedPost(props: Props) {
 
 	/**
 	 * @Mutations
-	 * Define mutations to update
+	 * Define mutation to update
 	 * Votes either upvotes or downvotes
 	 */
-	const [addUpvote] = useAddUpvoteMutation()
-	const [removeUpvote] = useRemoveUpvoteMutation()
-	const [addDownvote] = useAddDownvoteMutation()
-	const [removeDownvote] = useRemoveDownvoteMutation()
+	const [votePost] = useVotePostMutation()
 
 	/**
-	 * @Query
-	 * Define query to the database to get the initial
-	 * value of post reach views
+	 * @Mutation
+	 * Share this post into the current user timeline,
+	 * feeds are refreshed so the repost shows up
 	 */
-	const getPostReachViews = useGetPublicFeedReachsQuery({
-		variables: {
-			postId: props.postId,
-		},
-	})
+	const [repost] = useRepostMutation()
+	const handleRepost = async () => {
+		try {
+			await repost({
+				variables: {
+					postId: props.postId,
+				},
+			})
+			props.onRefecthCallback()
+		} catch (e) {
+			// already reposted or no longer public, nothing to do
+		}
+	}
 
 	/**
-	 * @Query
-	 * Define query to the database to get the initial
-	 * value of post votes, eiher upvotes or downvotes
+	 * @Mutation
+	 * Save this post to look at it later,
+	 * clicking it again removes the bookmark
 	 */
-	const getPostVotes = useGetPostVotesQuery({
-		variables: {
-			postId: props.postId,
-		},
-	})
+	const [isBookmarked, setIsBookmarked] = useState<boolean>(
+		!!props.isBookmarked
+	)
+	const [bookmarkPost] = useBookmarkPostMutation()
+	const [unbookmarkPost] = useUnbookmarkPostMutation()
+	const handleBookmark = async () => {
+		const variables = { postId: props.postId }
+		try {
+			if (isBookmarked) await unbookmarkPost({ variables })
+			else await bookmarkPost({ variables })
+			setIsBookmarked(!isBookmarked)
+		} catch (e) {
+			// post is no longer visible, nothing to do
+		}
+	}
 
 	useEffect(() => {
 		/**
@@ -169,32 +206,6 @@ export default function FeedPost(props: Props) {
 		})
 	}, [])
 
-	useEffect(() => {
-		/**
-		 * Check if post is already voted or not
-		 * If current user is already upvoted, then set upvoted to true
-		 * If current user is already downvoted, then set downvoted to true
-		 */
-		const checkUpvoted = async () => {
-			if (!getPostVotes.data) return null
-			getPostVotes.data?.post?.upvoter?.map((value) => {
-				if (value.id === props.profile.id) {
-					setIsUpvoted(true)
-				}
-			})
-		}
-		const checkDownvoted = async () => {
-			if (!getPostVotes.data) return null
-			getPostVotes.data?.post?.downvoter?.map((value) => {
-				if (value.id === props.profile.id) {
-					setIsDownvoted(true)
-				}
-			})
-		}
-		checkUpvoted()
-		checkDownvoted()
-	}, [getPostVotes.data])
-
 	useLayoutEffect(() => {
 		/**
 		 * When component mounted,
@@ -215,35 +226,15 @@ export default function FeedPost(props: Props) {
 	 * add Upvote to the post or remove the upvote
 	 */
 	const handleUpvotes = () => {
-		// If post is already downvoted
-		if (isDownvoted) {
-			// Remove downvote first
-			removeDownvote({
-				variables: {
-					postId: props.postId,
-				},
-			})
-			setIsDownvoted(false)
-		}
-
-		// If post is not upvoted yet
-		if (!isUpvoted) {
-			// Add Upvote
-			addUpvote({
-				variables: {
-					postId: props.postId,
-				},
-			})
-			setIsUpvoted(true)
-		} else {
-			// If already upvoted, remove Upvote
-			removeUpvote({
-				variables: {
-					postId: props.postId,
-				},
-			})
-			setIsUpvoted(false)
-		}
+		// If already upvoted, remove Upvote, otherwise switch to Upvote
+		votePost({
+			variables: {
+				postId: props.postId,
+				direction: isUpvoted ? VoteDirection.None : VoteDirection.Up,
+			},
+		})
+		setIsUpvoted(!isUpvoted)
+		setIsDownvoted(false)
 	}
 
 	/**
@@ -252,35 +243,17 @@ export default function FeedPost(props: Props) {
 	 * add Downvote to the post or remove the Downvote
 	 */
 	const handleDownvotes = () => {
-		// If post is already upvoted
-		if (isUpvoted) {
-			// Remove Upvote first
-			removeUpvote({
-				variables: {
-					postId: props.postId,
-				},
-			})
-			setIsUpvoted(false)
-		}
-
-		// If not Downvoted yet,
-		if (!isDownvoted) {
-			// Add Downvote
-			addDownvote({
-				variables: {
-					postId: props.postId,
-				},
-			})
-			setIsDownvoted(true)
-		} else {
-			// If already downvoted, remove Downvote
-			removeDownvote({
-				variables: {
-					postId: props.postId,
-				},
-			})
-			setIsDownvoted(false)
-		}
+		// If already downvoted, remove Downvote, otherwise switch to Downvote
+		votePost({
+			variables: {
+				postId: props.postId,
+				direction: isDownvoted
+					? VoteDirection.None
+					: VoteDirection.Down,
+			},
+		})
+		setIsDownvoted(!isDownvoted)
+		setIsUpvoted(false)
 	}
 
 	/**
@@ -293,17 +266,6 @@ export default function FeedPost(props: Props) {
 	// Comment section toggle fade
 	const commentContainerFade = useSpring({ opacity: openComment ? 1 : 0 })
 
-	/**
-	 * @Query
-	 * Define query to the database to get the initial
-	 * value of post total comments
-	 */
-	const getPostInitialComments = useGetPostCommentsQuery({
-		variables: {
-			postId: props.postId,
-		},
-	})
-
 	/**
 	 * @Subscriptions
 	 * used as a real-time communications to provide
@@ -363,11 +325,7 @@ export default function FeedPost(props: Props) {
 						<FeedPostTypeTimestampWrapper>
 							{/* Post Type Icon */}
 							<Icons
-								Icon={
-									props.type === 'public'
-										? PublicIcon
-										: LockIcon
-								}
+								Icon={visibilityIcon(props.type)}
 								hasIconButton={false}
 								size={18}
 							/>
@@ -381,6 +339,8 @@ export default function FeedPost(props: Props) {
 							{/* Post TimeStamp */}
 							<FeedPostTimeStamp>
 								{Moment(props.timestamp).fromNow()}
+								{/* Let readers know the post has been changed */}
+								{props.edited && ' (edited)'}
 							</FeedPostTimeStamp>
 						</FeedPostTypeTimestampWrapper>
 					</FeedPostHeaderText>
@@ -391,6 +351,7 @@ export default function FeedPost(props: Props) {
 					profile={props.profile}
 					postAuthorId={props.authorId}
 					postId={props.postId}
+					pinned={props.pinned}
 					onRefecthCallback={() => props.onRefecthCallback()}
 				/>
 			</FeedPostHeaderWrapper>
@@ -409,6 +370,36 @@ export default function FeedPost(props: Props) {
 					<FadeEffect isTruncated={truncate} />
 				</CaptionWrapper>
 
+				{/* Shared post of a repost or quote post */}
+				{props.repost ? (
+					<OriginalWrapper>
+						{props.original ? (
+							<>
+								<FeedPostProfileH4>
+									{props.original.author.username}
+								</FeedPostProfileH4>
+								<FeedPostTimeStamp>
+									{Moment(
+										props.original.created_at
+									).fromNow()}
+								</FeedPostTimeStamp>
+								<RichTextEditor
+									readOnly={true}
+									initialState={props.original.caption}
+									maxHeight="300px"
+									mobileMaxHeight="300px"
+									margin="-20px 0px 0px 0px"
+									padding="0px"
+								/>
+							</>
+						) : (
+							<FeedPostTimeStamp>
+								This memory is no longer available
+							</FeedPostTimeStamp>
+						)}
+					</OriginalWrapper>
+				) : undefined}
+
 				{/* If Caption is More than 350px */}
 				{truncate ? (
 					<ReadMoreChipWrapper>
@@ -423,20 +414,49 @@ export default function FeedPost(props: Props) {
 
 				{/* Post Attachments */}
 				<FeedPostAttachments>
-					{/* If attachments contains image */}
-					{props.imageSrc && (
-						<Image
-							width={800}
-							height={700}
-							alt={`${props.username}'s post image`}
-							layout="responsive"
-							src={props.imageSrc[0]}
-							objectFit="cover"
-						/>
+					{/* Render every media item in its order */}
+					{props.media?.map((item) =>
+						item.type === 'video' ? (
+							<video
+								key={item.id}
+								src={item.uri}
+								aria-label={item.alt ?? undefined}
+								width="100%"
+								controls
+							/>
+						) : item.type === 'audio' ? (
+							<audio
+								key={item.id}
+								src={item.uri}
+								aria-label={item.alt ?? undefined}
+								style={{ width: '100%' }}
+								controls
+							/>
+						) : (
+							<Image
+								key={item.id}
+								width={item.width ?? 800}
+								height={item.height ?? 700}
+								alt={
+									item.alt ?? `${props.username}'s post image`
+								}
+								layout="responsive"
+								// smaller rendition once the image is processed
+								src={item.medium_uri ?? item.uri}
+								objectFit="cover"
+							/>
+						)
 					)}
 				</FeedPostAttachments>
 			</FeedPostBody>
 
+			{/* Emoji Reactions */}
+			<FeedReactions
+				postId={props.postId}
+				reactionCounts={props.reactionCounts ?? []}
+				myReaction={props.myReaction}
+			/>
+
 			<FeedPostFooter>
 				<FooterAltWrapper>
 					{/* Votes Alt */}
@@ -454,11 +474,11 @@ export default function FeedPost(props: Props) {
 							<VotesAltText style={fade}>
 								{/* CHECK IF THERE IS SUBSCRIPTIONS DATA */}
 								{/* IF THERE IS NO SUBSCRIPTIONS DATA, FALLBACK TO INITIAL DATA */}
-								{getUpvoteSubscriptions.data
+								{getVoteSubscriptions.data
 									? upvoteAnimation.upvotes.to((value) =>
 											Math.floor(value)
 									  )
-									: getPostVotes.data?.post.upvoter?.length}
+									: props.upvoteSum}
 							</VotesAltText>
 						</VotesWrapper>
 
@@ -475,11 +495,11 @@ export default function FeedPost(props: Props) {
 							<VotesAltText style={fade}>
 								{/* CHECK IF THERE IS SUBSCRIPTIONS DATA */}
 								{/* IF THERE IS NO SUBSCRIPTIONS DATA, FALLBACK TO INITIAL DATA */}
-								{getDownvoteSubscriptions.data
+								{getVoteSubscriptions.data
 									? downvoteAnimation.downvotes.to((value) =>
 											Math.floor(value)
 									  )
-									: getPostVotes.data?.post.downvoter?.length}
+									: props.downvoteSum}
 							</VotesAltText>
 						</VotesWrapper>
 
@@ -500,10 +520,22 @@ export default function FeedPost(props: Props) {
 									? commentsAnimation.comments.to((value) =>
 											Math.floor(value)
 									  )
-									: getPostInitialComments.data
-											?.getPostComments?.length}
+									: props.commentSum}
 							</VotesAltText>
 						</VotesWrapper>
+
+						<VotesWrapper>
+							{/* reposts */}
+							<RepeatIcon
+								style={{
+									color: 'var(--font-white-500)',
+									width: '15px',
+									height: '18px',
+									border: 'none',
+								}}
+							/>
+							<VotesAltText>{props.repostSum ?? 0}</VotesAltText>
+						</VotesWrapper>
 					</FeedPostVotes>
 
 					{/* VIEWS TOOLTIP */}
@@ -512,16 +544,11 @@ export default function FeedPost(props: Props) {
 						<FeedReachViews>
 							<FeedReachViewsText>
 								{/* GET VIEWS DATA */}
-								{getPostReachViews?.data?.getPostReachs}
+								{props.reachSum}
 							</FeedReachViewsText>
 							<FeedReachViewsSpan>
 								{/* IF VIEWS MORE THAN 2, THAT MEANS PLURAL */}
-								{getPostReachViews.data
-									? getPostReachViews?.data?.getPostReachs >=
-									  2
-										? 'views'
-										: 'view'
-									: undefined}
+								{props.reachSum >= 2 ? 'views' : 'view'}
 							</FeedReachViewsSpan>
 						</FeedReachViews>
 					</FeedViewsTooltip>
@@ -562,6 +589,22 @@ export default function FeedPost(props: Props) {
 							setOpenComment(false)
 						}}
 					/>
+
+					{/* Repost, only public post could be shared */}
+					{props.type === 'public' ? (
+						<Icons
+							Icon={RepeatIcon}
+							hasIconButton={true}
+							onClickCallback={handleRepost}
+						/>
+					) : undefined}
+
+					{/* Bookmark */}
+					<Icons
+						Icon={isBookmarked ? BookmarkIcon : BookmarkBorderIcon}
+						hasIconButton={true}
+						onClickCallback={handleBookmark}
+					/>
 				</FeedPostButtonWrapper>
 			</FeedPostFooter>
 
@@ -658,6 +701,12 @@ const ReadMoreChipWrapper = styled.div`
 	justify-content: center;
 	padding-top: 4px;
 `
+const OriginalWrapper = styled.div`
+	margin: 8px;
+	padding: 8px;
+	border: 1px solid var(--background-dimmed-300);
+	border-radius: 8px;
+`
 const FeedPostAttachments = styled.div`
 	width: 100%;
 	height: 100%;
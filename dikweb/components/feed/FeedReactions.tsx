@@ -0,0 +1,94 @@
+import { useState } from 'react'
+import styled from 'styled-components'
+import {
+	ReactionCount,
+	useGetReactionEmojisQuery,
+	useReactionSubscription,
+	useReactToPostMutation,
+} from '../../generated/graphql'
+
+import Chip from '@material-ui/core/Chip'
+
+interface Props {
+	postId: string
+	reactionCounts: Pick<ReactionCount, 'emoji' | 'count'>[]
+	myReaction?: string | null
+}
+
+export default function FeedReactions(props: Props) {
+	/**
+	 * Emojis allowed by the server,
+	 * queried once and cached for every post
+	 */
+	const reactionEmojis = useGetReactionEmojisQuery()
+
+	/**
+	 * @Subscriptions
+	 * real-time update of the reactions of current post,
+	 * falls back to the counts of the feed until an event is received
+	 */
+	const getReactionSubscription = useReactionSubscription({
+		variables: {
+			postId: props.postId,
+		},
+	})
+	const reactions =
+		getReactionSubscription.data?.reactionSubscription.reactions ??
+		props.reactionCounts
+
+	// Reaction of the current user, only one emoji per post
+	const [myReaction, setMyReaction] = useState<string | null>(
+		props.myReaction ?? null
+	)
+	const [reactToPost] = useReactToPostMutation()
+
+	/**
+	 * Clicking current reaction removes it,
+	 * clicking another emoji replaces it
+	 */
+	const handleReaction = async (emoji: string) => {
+		const newReaction = emoji === myReaction ? null : emoji
+		try {
+			await reactToPost({
+				variables: {
+					postId: props.postId,
+					emoji: newReaction,
+				},
+			})
+			setMyReaction(newReaction)
+		} catch (e) {
+			// post is no longer visible, nothing to do
+		}
+	}
+
+	return (
+		<FeedReactionsWrapper>
+			{reactionEmojis.data?.reactionEmojis.map((emoji) => {
+				const count =
+					reactions.find((reaction) => reaction.emoji === emoji)
+						?.count ?? 0
+
+				return (
+					<Chip
+						key={emoji}
+						label={count ? `${emoji} ${count}` : emoji}
+						size="small"
+						variant={emoji === myReaction ? 'default' : 'outlined'}
+						onClick={() => handleReaction(emoji)}
+						style={{
+							color: 'var(--font-white-700)',
+							borderColor: 'var(--background-dimmed-300)',
+						}}
+					/>
+				)
+			})}
+		</FeedReactionsWrapper>
+	)
+}
+
+const FeedReactionsWrapper = styled.div`
+	display: flex;
+	flex-wrap: wrap;
+	gap: 4px;
+	padding: 0px 8px 8px 8px;
+`
@@ -4,9 +4,7 @@ import MenuItem from '@material-ui/core/MenuItem'
 import Select from '@material-ui/core/Select'
 import Icons from '../icons/Icons'
 import { createStyles, makeStyles } from '@material-ui/core/styles'
-
-import PublicIcon from '@material-ui/icons/Public'
-import LockIcon from '@material-ui/icons/Lock'
+import visibilityIcon from '../../utils/visibilityIcon'
 
 interface Props {
 	postTypeValue: string
@@ -60,7 +58,7 @@ export default function FeedTypeAttribute(props: Props) {
 	return (
 		<FeedInputProfileAttribute>
 			<Icons
-				Icon={props.postTypeValue === 'public' ? PublicIcon : LockIcon}
+				Icon={visibilityIcon(props.postTypeValue)}
 				size={18}
 				padding="0px"
 				color="var(--font-white-600)"
@@ -80,12 +78,16 @@ export default function FeedTypeAttribute(props: Props) {
 						onChange={props.onChangeCallbacks}
 					>
 						<MenuItem value="public">Publicly Available</MenuItem>
+						<MenuItem value="unlisted">
+							Anyone with the link
+						</MenuItem>
 						<MenuItem
 							value="private"
 							disabled={props.disablePrivate}
 						>
 							Share with partner only
 						</MenuItem>
+						<MenuItem value="only_me">Only me</MenuItem>
 					</Select>
 				</FormControl>
 			</FeedInputProfileAttributeType>
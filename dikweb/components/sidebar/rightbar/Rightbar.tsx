@@ -2,8 +2,18 @@ import styled from 'styled-components'
 import Card from '../../card/Card'
 import SidebarHeader from '../header/SidebarHeader'
 import SidebarHeaderProfile from '../header/SidebarHeaderProfile'
+import { useGetTrendingTagsQuery } from '../../../generated/graphql'
+
+import { Chip } from '@material-ui/core'
 
 export default function Rightbar() {
+	/**
+	 * Tags used by the most public posts in the past week
+	 */
+	const trendingTagsHooks = useGetTrendingTagsQuery({
+		variables: { limit: 10 },
+	})
+
 	return (
 		<RightBarWrapper>
 			{/* Card */}
@@ -14,6 +24,30 @@ export default function Rightbar() {
 					description="Stay tune for future partner feature!"
 				/>
 			</Card>
+
+			{/* Trending Tags, hidden when there is none */}
+			{trendingTagsHooks.data?.trendingTags.length ? (
+				<Card bgColor="var(--background-dimmed-500)">
+					<TrendingTagsTitle>Trending this week</TrendingTagsTitle>
+					<TrendingTagsWrapper>
+						{trendingTagsHooks.data.trendingTags.map((tag) => (
+							<Chip
+								key={tag.id}
+								label={`#${tag.name} · ${tag.postCount ?? 0}`}
+								variant="outlined"
+								size="small"
+								style={{
+									color: 'var(--font-white-800)',
+									borderColor: 'var(--font-white-800)',
+									margin: '2px',
+								}}
+							/>
+						))}
+					</TrendingTagsWrapper>
+				</Card>
+			) : (
+				<></>
+			)}
 		</RightBarWrapper>
 	)
 }
@@ -34,3 +68,17 @@ const RightBarWrapper = styled.div`
 		display: none;
 	}
 `
+
+const TrendingTagsTitle = styled.p`
+	font-weight: 600;
+	font-size: 14px;
+	padding-top: 12px;
+	color: var(--font-white-800);
+`
+
+const TrendingTagsWrapper = styled.div`
+	display: flex;
+	flex-wrap: wrap;
+	justify-content: center;
+	padding: 8px;
+`
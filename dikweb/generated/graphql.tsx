@@ -43,27 +43,67 @@ export type Badge = {
 	owners?: Maybe<Array<User>>
 }
 
+export type Bookmark = {
+	__typename?: 'Bookmark'
+	id: Scalars['String']
+	created_at?: Maybe<Scalars['DateTime']>
+	post: Post
+	collection?: Maybe<BookmarkCollection>
+}
+
+export type BookmarkCollection = {
+	__typename?: 'BookmarkCollection'
+	id: Scalars['String']
+	name: Scalars['String']
+	created_at?: Maybe<Scalars['DateTime']>
+}
+
+export type BookmarkEdge = {
+	__typename?: 'BookmarkEdge'
+	cursor: Scalars['String']
+	node: Bookmark
+}
+
 export type Comment = {
 	__typename?: 'Comment'
 	id: Scalars['String']
 	text: Scalars['String']
 	created_at?: Maybe<Scalars['DateTime']>
 	updated_at?: Maybe<Scalars['DateTime']>
+	edited_at?: Maybe<Scalars['DateTime']>
 	author: User
 	post: Post
+	parent?: Maybe<Comment>
+	replies?: Maybe<Array<Comment>>
+	depth: Scalars['Int']
+	replyCount?: Maybe<Scalars['Int']>
+}
+
+export type CommentEdge = {
+	__typename?: 'CommentEdge'
+	cursor: Scalars['String']
+	node: Comment
+}
+
+/** Order of comments by creation date, OLDEST keeps replies after the comments they reply to */
+export enum CommentOrder {
+	Oldest = 'OLDEST',
+	Newest = 'NEWEST',
 }
 
 export type CommentsDto = {
 	__typename?: 'CommentsDTO'
 	postId: Scalars['String']
+	parentId?: Maybe<Scalars['String']>
 	comment: Comment
 	type: Scalars['String']
 	commentsSum?: Maybe<Scalars['Int']>
 }
 
 export type CreateAttachmentInput = {
-	type: Scalars['String']
-	uri: Array<Scalars['String']>
+	type?: Maybe<Scalars['String']>
+	uri?: Maybe<Array<Scalars['String']>>
+	media?: Maybe<Array<CreateMediaItemInput>>
 }
 
 export type CreateBadgeInput = {
@@ -74,14 +114,30 @@ export type CreateBadgeInput = {
 	border?: Maybe<Scalars['String']>
 }
 
+export type CreateBookmarkCollectionInput = {
+	name: Scalars['String']
+}
+
 export type CreateCommentInput = {
 	text: Scalars['String']
 	postId: Scalars['String']
 }
 
+export type CreateMediaItemInput = {
+	type: Scalars['String']
+	uri: Scalars['String']
+	mime?: Maybe<Scalars['String']>
+	width?: Maybe<Scalars['Int']>
+	height?: Maybe<Scalars['Int']>
+	duration?: Maybe<Scalars['Float']>
+	alt?: Maybe<Scalars['String']>
+	blurhash?: Maybe<Scalars['String']>
+}
+
 export type CreatePostInput = {
 	caption: Scalars['String']
 	type: Scalars['String']
+	publish_at?: Maybe<Scalars['DateTime']>
 }
 
 export type CreateRelationshipInput = {
@@ -111,11 +167,29 @@ export type DeleteRelationshipResponse = {
 	code: Scalars['Float']
 }
 
-export type DownvoteDto = {
-	__typename?: 'DownvoteDTO'
-	postId: Scalars['String']
-	downvotes: Scalars['Int']
-	downvoters: Array<User>
+/** Order of feeds, NEW is the newest first, HOT favours recent popular posts and TOP is the most popular within a time window */
+export enum FeedSort {
+	New = 'NEW',
+	Hot = 'HOT',
+	Top = 'TOP',
+}
+
+export type MediaItem = {
+	__typename?: 'MediaItem'
+	id: Scalars['String']
+	type: Scalars['String']
+	uri: Scalars['String']
+	mime?: Maybe<Scalars['String']>
+	width?: Maybe<Scalars['Int']>
+	height?: Maybe<Scalars['Int']>
+	duration?: Maybe<Scalars['Float']>
+	alt?: Maybe<Scalars['String']>
+	position: Scalars['Int']
+	blurhash?: Maybe<Scalars['String']>
+	thumbnail_uri?: Maybe<Scalars['String']>
+	medium_uri?: Maybe<Scalars['String']>
+	processed: Scalars['Boolean']
+	created_at?: Maybe<Scalars['DateTime']>
 }
 
 export type Mutation = {
@@ -127,17 +201,29 @@ export type Mutation = {
 	removeBadge: DeleteBadgeResponse
 	removeBadgeFromUser: User
 	createPost: Post
+	repost: Post
+	quotePost: Post
 	updatePost: Post
+	restorePostRevision: Post
+	reschedulePost: Post
+	cancelScheduledPost: DeletePostResponse
+	restorePost: Post
+	pinPost: Post
+	unpinPost: Post
 	removePost: DeletePostResponse
 	addPostReachs: Scalars['Int']
-	addUpvote: Scalars['Int']
-	removeUpvote: Scalars['Int']
-	addDownvote: Scalars['Int']
-	removeDownvote: Scalars['Int']
+	votePost: VoteDto
+	reactToPost: ReactionsDto
 	createRelationship: Relationship
 	deleteRelationship: DeleteRelationshipResponse
 	createComment: Scalars['Int']
+	replyToComment: Scalars['Int']
+	updateComment: Scalars['Int']
 	deleteComment: Scalars['Int']
+	bookmarkPost: Post
+	unbookmarkPost: Post
+	createBookmarkCollection: BookmarkCollection
+	removeBookmarkCollection: BookmarkCollection
 }
 
 export type MutationUpdateUserArgs = {
@@ -171,31 +257,59 @@ export type MutationCreatePostArgs = {
 	createPostInput: CreatePostInput
 }
 
+export type MutationRepostArgs = {
+	postId: Scalars['String']
+}
+
+export type MutationQuotePostArgs = {
+	caption: Scalars['String']
+	postId: Scalars['String']
+}
+
 export type MutationUpdatePostArgs = {
 	updatePostInput: UpdatePostInput
 }
 
-export type MutationRemovePostArgs = {
+export type MutationRestorePostRevisionArgs = {
+	revisionId: Scalars['String']
+}
+
+export type MutationReschedulePostArgs = {
+	publishAt: Scalars['DateTime']
 	postId: Scalars['String']
 }
 
-export type MutationAddPostReachsArgs = {
+export type MutationCancelScheduledPostArgs = {
+	postId: Scalars['String']
+}
+
+export type MutationRestorePostArgs = {
 	postId: Scalars['String']
 }
 
-export type MutationAddUpvoteArgs = {
+export type MutationPinPostArgs = {
 	postId: Scalars['String']
 }
 
-export type MutationRemoveUpvoteArgs = {
+export type MutationUnpinPostArgs = {
 	postId: Scalars['String']
 }
 
-export type MutationAddDownvoteArgs = {
+export type MutationRemovePostArgs = {
 	postId: Scalars['String']
 }
 
-export type MutationRemoveDownvoteArgs = {
+export type MutationAddPostReachsArgs = {
+	postId: Scalars['String']
+}
+
+export type MutationVotePostArgs = {
+	direction: VoteDirection
+	postId: Scalars['String']
+}
+
+export type MutationReactToPostArgs = {
+	emoji?: Maybe<Scalars['String']>
 	postId: Scalars['String']
 }
 
@@ -207,24 +321,120 @@ export type MutationCreateCommentArgs = {
 	createCommentInput: CreateCommentInput
 }
 
+export type MutationReplyToCommentArgs = {
+	replyToCommentInput: ReplyToCommentInput
+}
+
+export type MutationUpdateCommentArgs = {
+	updateCommentInput: UpdateCommentInput
+}
+
 export type MutationDeleteCommentArgs = {
 	commentId: Scalars['String']
 }
 
+export type MutationBookmarkPostArgs = {
+	collectionId?: Maybe<Scalars['String']>
+	postId: Scalars['String']
+}
+
+export type MutationUnbookmarkPostArgs = {
+	postId: Scalars['String']
+}
+
+export type MutationCreateBookmarkCollectionArgs = {
+	createBookmarkCollectionInput: CreateBookmarkCollectionInput
+}
+
+export type MutationRemoveBookmarkCollectionArgs = {
+	collectionId: Scalars['String']
+}
+
+export type PageInfo = {
+	__typename?: 'PageInfo'
+	hasNextPage: Scalars['Boolean']
+	endCursor?: Maybe<Scalars['String']>
+}
+
+export type PaginatedBookmarks = {
+	__typename?: 'PaginatedBookmarks'
+	edges: Array<BookmarkEdge>
+	pageInfo: PageInfo
+}
+
+export type PaginatedComments = {
+	__typename?: 'PaginatedComments'
+	edges: Array<CommentEdge>
+	pageInfo: PageInfo
+	totalCount: Scalars['Int']
+}
+
+export type PaginatedPosts = {
+	__typename?: 'PaginatedPosts'
+	edges: Array<PostEdge>
+	pageInfo: PageInfo
+}
+
+export type PaginatedSearchResults = {
+	__typename?: 'PaginatedSearchResults'
+	edges: Array<SearchResultEdge>
+	pageInfo: PageInfo
+}
+
 export type Post = {
 	__typename?: 'Post'
 	id: Scalars['String']
 	caption: Scalars['String']
 	type?: Maybe<Scalars['String']>
+	edited: Scalars['Boolean']
+	scheduled: Scalars['Boolean']
+	publish_at?: Maybe<Scalars['DateTime']>
+	pinned_at?: Maybe<Scalars['DateTime']>
+	repost: Scalars['Boolean']
 	upvoter?: Maybe<Array<User>>
 	downvoter?: Maybe<Array<User>>
 	reachs?: Maybe<Array<User>>
 	created_at?: Maybe<Scalars['DateTime']>
 	updated_at?: Maybe<Scalars['DateTime']>
+	deleted_at?: Maybe<Scalars['DateTime']>
 	author: User
 	attachments?: Maybe<Attachments>
+	media?: Maybe<Array<MediaItem>>
 	relationship?: Maybe<Relationship>
+	original?: Maybe<Post>
 	comments?: Maybe<Array<Comment>>
+	tags?: Maybe<Array<Tag>>
+	revisions?: Maybe<Array<PostRevision>>
+	upvoteCount?: Maybe<Scalars['Int']>
+	downvoteCount?: Maybe<Scalars['Int']>
+	reachCount?: Maybe<Scalars['Int']>
+	commentCount?: Maybe<Scalars['Int']>
+	repostCount?: Maybe<Scalars['Int']>
+	reactionCounts?: Maybe<Array<ReactionCount>>
+	myVote?: Maybe<VoteDirection>
+	myReaction?: Maybe<Scalars['String']>
+	isBookmarked?: Maybe<Scalars['Boolean']>
+}
+
+export type PostEdge = {
+	__typename?: 'PostEdge'
+	cursor: Scalars['String']
+	node: Post
+}
+
+export type PostRevision = {
+	__typename?: 'PostRevision'
+	id: Scalars['String']
+	caption: Scalars['String']
+	type?: Maybe<Scalars['String']>
+	created_at?: Maybe<Scalars['DateTime']>
+}
+
+export type PostViewStat = {
+	__typename?: 'PostViewStat'
+	date: Scalars['DateTime']
+	viewers: Scalars['Int']
+	views: Scalars['Int']
 }
 
 export type Query = {
@@ -234,10 +444,23 @@ export type Query = {
 	getMyProfile: User
 	badges: Array<Badge>
 	badge: Badge
-	posts: Array<Post>
+	posts: PaginatedPosts
+	postsByTag: PaginatedPosts
+	relationshipFeed: PaginatedPosts
 	post: Post
+	onThisDay: Array<Post>
+	myScheduledPosts: Array<Post>
+	myTrash: Array<Post>
 	getPostReachs: Scalars['Int']
+	postViewStats: Array<PostViewStat>
+	reactionEmojis: Array<Scalars['String']>
+	/** @deprecated Use comments instead */
 	getPostComments: Array<Comment>
+	comments: PaginatedComments
+	myBookmarks: PaginatedBookmarks
+	myBookmarkCollections: Array<BookmarkCollection>
+	search: PaginatedSearchResults
+	trendingTags: Array<Tag>
 }
 
 export type QueryUserArgs = {
@@ -248,6 +471,24 @@ export type QueryBadgeArgs = {
 	label: Scalars['String']
 }
 
+export type QueryPostsArgs = {
+	first?: Maybe<Scalars['Int']>
+	after?: Maybe<Scalars['String']>
+	sort?: Maybe<FeedSort>
+	window?: Maybe<TopWindow>
+}
+
+export type QueryPostsByTagArgs = {
+	first?: Maybe<Scalars['Int']>
+	after?: Maybe<Scalars['String']>
+	tag: Scalars['String']
+}
+
+export type QueryRelationshipFeedArgs = {
+	first?: Maybe<Scalars['Int']>
+	after?: Maybe<Scalars['String']>
+}
+
 export type QueryPostArgs = {
 	postId: Scalars['String']
 }
@@ -256,10 +497,51 @@ export type QueryGetPostReachsArgs = {
 	postId: Scalars['String']
 }
 
+export type QueryPostViewStatsArgs = {
+	interval?: Maybe<ViewStatsInterval>
+	postId: Scalars['String']
+}
+
 export type QueryGetPostCommentsArgs = {
 	postId: Scalars['String']
 }
 
+export type QueryCommentsArgs = {
+	first?: Maybe<Scalars['Int']>
+	after?: Maybe<Scalars['String']>
+	postId: Scalars['String']
+	order?: Maybe<CommentOrder>
+}
+
+export type QueryMyBookmarksArgs = {
+	collectionId?: Maybe<Scalars['String']>
+	first?: Maybe<Scalars['Int']>
+	after?: Maybe<Scalars['String']>
+}
+
+export type QuerySearchArgs = {
+	first?: Maybe<Scalars['Int']>
+	after?: Maybe<Scalars['String']>
+	query: Scalars['String']
+	type?: Maybe<SearchType>
+}
+
+export type QueryTrendingTagsArgs = {
+	limit?: Maybe<Scalars['Int']>
+}
+
+export type ReactionCount = {
+	__typename?: 'ReactionCount'
+	emoji: Scalars['String']
+	count: Scalars['Int']
+}
+
+export type ReactionsDto = {
+	__typename?: 'ReactionsDTO'
+	postId: Scalars['String']
+	reactions: Array<ReactionCount>
+}
+
 export type Relationship = {
 	__typename?: 'Relationship'
 	id: Scalars['String']
@@ -271,18 +553,44 @@ export type Relationship = {
 	posts?: Maybe<Array<Post>>
 }
 
+export type ReplyToCommentInput = {
+	text: Scalars['String']
+	commentId: Scalars['String']
+}
+
+export type SearchResult = {
+	__typename?: 'SearchResult'
+	id: Scalars['String']
+	type: SearchType
+	snippet: Scalars['String']
+	post?: Maybe<Post>
+	comment?: Maybe<Comment>
+}
+
+export type SearchResultEdge = {
+	__typename?: 'SearchResultEdge'
+	cursor: Scalars['String']
+	node: SearchResult
+}
+
+/** Kind of content to search, post captions or comment texts */
+export enum SearchType {
+	Post = 'POST',
+	Comment = 'COMMENT',
+}
+
 export type Subscription = {
 	__typename?: 'Subscription'
-	upvoteSubscription: UpvoteDto
-	downvoteSubscription: DownvoteDto
+	voteSubscription: VoteDto
+	reactionSubscription: ReactionsDto
 	commentsSubscription: CommentsDto
 }
 
-export type SubscriptionUpvoteSubscriptionArgs = {
+export type SubscriptionVoteSubscriptionArgs = {
 	postId: Scalars['String']
 }
 
-export type SubscriptionDownvoteSubscriptionArgs = {
+export type SubscriptionReactionSubscriptionArgs = {
 	postId: Scalars['String']
 }
 
@@ -290,6 +598,28 @@ export type SubscriptionCommentsSubscriptionArgs = {
 	postId: Scalars['String']
 }
 
+export type Tag = {
+	__typename?: 'Tag'
+	id: Scalars['String']
+	name: Scalars['String']
+	created_at?: Maybe<Scalars['DateTime']>
+	postCount?: Maybe<Scalars['Int']>
+}
+
+/** How far back TOP feeds look for posts */
+export enum TopWindow {
+	Day = 'DAY',
+	Week = 'WEEK',
+	Month = 'MONTH',
+	Year = 'YEAR',
+	All = 'ALL',
+}
+
+export type UpdateCommentInput = {
+	text: Scalars['String']
+	id: Scalars['String']
+}
+
 export type UpdatePostInput = {
 	caption?: Maybe<Scalars['String']>
 	type?: Maybe<Scalars['String']>
@@ -301,13 +631,7 @@ export type UpdateUserInput = {
 	email?: Maybe<Scalars['String']>
 	bio?: Maybe<Scalars['String']>
 	avatar_url?: Maybe<Scalars['String']>
-}
-
-export type UpvoteDto = {
-	__typename?: 'UpvoteDTO'
-	postId: Scalars['String']
-	upvotes: Scalars['Int']
-	upvoters: Array<User>
+	on_this_day_reminder?: Maybe<Scalars['Boolean']>
 }
 
 export type User = {
@@ -317,9 +641,11 @@ export type User = {
 	email: Scalars['String']
 	bio?: Maybe<Scalars['String']>
 	avatar_url?: Maybe<Scalars['String']>
+	on_this_day_reminder: Scalars['Boolean']
 	created_at?: Maybe<Scalars['DateTime']>
 	updated_at?: Maybe<Scalars['DateTime']>
 	contents?: Maybe<Array<Post>>
+	pinnedPosts?: Maybe<Array<Post>>
 	comments?: Maybe<Array<Comment>>
 	upvotes?: Maybe<Array<Post>>
 	downvotes?: Maybe<Array<Post>>
@@ -328,23 +654,43 @@ export type User = {
 	badges?: Maybe<Array<Badge>>
 }
 
-export type AddDownvoteMutationVariables = Exact<{
+/** Length of each bucket of post view stats */
+export enum ViewStatsInterval {
+	Hour = 'HOUR',
+	Day = 'DAY',
+	Week = 'WEEK',
+	Month = 'MONTH',
+}
+
+export type VoteDto = {
+	__typename?: 'VoteDTO'
+	postId: Scalars['String']
+	upvotes: Scalars['Int']
+	downvotes: Scalars['Int']
+}
+
+/** Vote of a user to a post, NONE means no vote at all */
+export enum VoteDirection {
+	Up = 'UP',
+	Down = 'DOWN',
+	None = 'NONE',
+}
+
+export type BookmarkPostMutationVariables = Exact<{
 	postId: Scalars['String']
 }>
 
-export type AddDownvoteMutation = { __typename?: 'Mutation' } & Pick<
-	Mutation,
-	'addDownvote'
->
+export type BookmarkPostMutation = { __typename?: 'Mutation' } & {
+	bookmarkPost: { __typename?: 'Post' } & Pick<Post, 'id' | 'isBookmarked'>
+}
 
-export type AddUpvoteMutationVariables = Exact<{
+export type UnbookmarkPostMutationVariables = Exact<{
 	postId: Scalars['String']
 }>
 
-export type AddUpvoteMutation = { __typename?: 'Mutation' } & Pick<
-	Mutation,
-	'addUpvote'
->
+export type UnbookmarkPostMutation = { __typename?: 'Mutation' } & {
+	unbookmarkPost: { __typename?: 'Post' } & Pick<Post, 'id' | 'isBookmarked'>
+}
 
 export type CreateCommentMutationVariables = Exact<{
 	createCommentInput: CreateCommentInput
@@ -389,24 +735,55 @@ export type DeletePostMutation = { __typename?: 'Mutation' } & {
 	>
 }
 
-export type RemoveDownvoteMutationVariables = Exact<{
+export type PinPostMutationVariables = Exact<{
 	postId: Scalars['String']
 }>
 
-export type RemoveDownvoteMutation = { __typename?: 'Mutation' } & Pick<
-	Mutation,
-	'removeDownvote'
->
+export type PinPostMutation = { __typename?: 'Mutation' } & {
+	pinPost: { __typename?: 'Post' } & Pick<Post, 'id' | 'pinned_at'>
+}
 
-export type RemoveUpvoteMutationVariables = Exact<{
+export type UnpinPostMutationVariables = Exact<{
 	postId: Scalars['String']
 }>
 
-export type RemoveUpvoteMutation = { __typename?: 'Mutation' } & Pick<
+export type UnpinPostMutation = { __typename?: 'Mutation' } & {
+	unpinPost: { __typename?: 'Post' } & Pick<Post, 'id' | 'pinned_at'>
+}
+
+export type ReactToPostMutationVariables = Exact<{
+	postId: Scalars['String']
+	emoji?: Maybe<Scalars['String']>
+}>
+
+export type ReactToPostMutation = { __typename?: 'Mutation' } & {
+	reactToPost: { __typename?: 'ReactionsDTO' } & {
+		reactions: Array<
+			{ __typename?: 'ReactionCount' } & Pick<
+				ReactionCount,
+				'emoji' | 'count'
+			>
+		>
+	}
+}
+
+export type ReplyToCommentMutationVariables = Exact<{
+	replyToCommentInput: ReplyToCommentInput
+}>
+
+export type ReplyToCommentMutation = { __typename?: 'Mutation' } & Pick<
 	Mutation,
-	'removeUpvote'
+	'replyToComment'
 >
 
+export type RepostMutationVariables = Exact<{
+	postId: Scalars['String']
+}>
+
+export type RepostMutation = { __typename?: 'Mutation' } & {
+	repost: { __typename?: 'Post' } & Pick<Post, 'id'>
+}
+
 export type SetCurrentPostReachMutationVariables = Exact<{
 	postId: Scalars['String']
 }>
@@ -416,81 +793,256 @@ export type SetCurrentPostReachMutation = { __typename?: 'Mutation' } & Pick<
 	'addPostReachs'
 >
 
-export type GetPostCommentsQueryVariables = Exact<{
+export type UpdateCommentMutationVariables = Exact<{
+	updateCommentInput: UpdateCommentInput
+}>
+
+export type UpdateCommentMutation = { __typename?: 'Mutation' } & Pick<
+	Mutation,
+	'updateComment'
+>
+
+export type VotePostMutationVariables = Exact<{
 	postId: Scalars['String']
+	direction: VoteDirection
 }>
 
-export type GetPostCommentsQuery = { __typename?: 'Query' } & {
-	getPostComments: Array<
-		{ __typename?: 'Comment' } & Pick<
-			Comment,
-			'id' | 'text' | 'created_at'
-		> & {
-				author: { __typename?: 'User' } & Pick<
-					User,
-					'id' | 'email' | 'username' | 'avatar_url'
-				>
-			}
+export type VotePostMutation = { __typename?: 'Mutation' } & {
+	votePost: { __typename?: 'VoteDTO' } & Pick<
+		VoteDto,
+		'postId' | 'upvotes' | 'downvotes'
 	>
 }
 
-export type GetPublicFeedReachsQueryVariables = Exact<{
+export type GetCommentsQueryVariables = Exact<{
 	postId: Scalars['String']
+	first?: Maybe<Scalars['Int']>
+	after?: Maybe<Scalars['String']>
 }>
 
-export type GetPublicFeedReachsQuery = { __typename?: 'Query' } & Pick<
-	Query,
-	'getPostReachs'
->
+export type GetCommentsQuery = { __typename?: 'Query' } & {
+	comments: { __typename?: 'PaginatedComments' } & Pick<
+		PaginatedComments,
+		'totalCount'
+	> & {
+			edges: Array<
+				{ __typename?: 'CommentEdge' } & Pick<CommentEdge, 'cursor'> & {
+						node: { __typename?: 'Comment' } & Pick<
+							Comment,
+							'id' | 'text' | 'created_at' | 'edited_at' | 'depth'
+						> & {
+								parent?: Maybe<
+									{ __typename?: 'Comment' } & Pick<
+										Comment,
+										'id'
+									>
+								>
+								author: { __typename?: 'User' } & Pick<
+									User,
+									'id' | 'email' | 'username' | 'avatar_url'
+								>
+							}
+					}
+			>
+			pageInfo: { __typename?: 'PageInfo' } & Pick<
+				PageInfo,
+				'hasNextPage' | 'endCursor'
+			>
+		}
+}
 
-export type GetPostVotesQueryVariables = Exact<{
-	postId: Scalars['String']
+export type GetPublicFeedsQueryVariables = Exact<{
+	first?: Maybe<Scalars['Int']>
+	after?: Maybe<Scalars['String']>
+	sort?: Maybe<FeedSort>
+	window?: Maybe<TopWindow>
 }>
 
-export type GetPostVotesQuery = { __typename?: 'Query' } & {
-	post: { __typename?: 'Post' } & {
-		upvoter?: Maybe<
-			Array<{ __typename?: 'User' } & Pick<User, 'id' | 'username'>>
+export type GetPublicFeedsQuery = { __typename?: 'Query' } & {
+	posts: { __typename?: 'PaginatedPosts' } & {
+		edges: Array<
+			{ __typename?: 'PostEdge' } & Pick<PostEdge, 'cursor'> & {
+					node: { __typename?: 'Post' } & Pick<
+						Post,
+						| 'id'
+						| 'caption'
+						| 'type'
+						| 'created_at'
+						| 'edited'
+						| 'pinned_at'
+						| 'repost'
+						| 'upvoteCount'
+						| 'downvoteCount'
+						| 'reachCount'
+						| 'commentCount'
+						| 'repostCount'
+						| 'myVote'
+						| 'isBookmarked'
+						| 'myReaction'
+					> & {
+							reactionCounts?: Maybe<
+								Array<
+									{ __typename?: 'ReactionCount' } & Pick<
+										ReactionCount,
+										'emoji' | 'count'
+									>
+								>
+							>
+							author: { __typename?: 'User' } & Pick<
+								User,
+								'id' | 'username' | 'avatar_url'
+							> & {
+									badges?: Maybe<
+										Array<
+											{ __typename?: 'Badge' } & Pick<
+												Badge,
+												| 'id'
+												| 'label'
+												| 'variant'
+												| 'color'
+												| 'background'
+												| 'border'
+											>
+										>
+									>
+								}
+							original?: Maybe<
+								{ __typename?: 'Post' } & Pick<
+									Post,
+									'id' | 'caption' | 'created_at'
+								> & {
+										author: { __typename?: 'User' } & Pick<
+											User,
+											'id' | 'username' | 'avatar_url'
+										>
+									}
+							>
+							media?: Maybe<
+								Array<
+									{ __typename?: 'MediaItem' } & Pick<
+										MediaItem,
+										| 'id'
+										| 'type'
+										| 'uri'
+										| 'medium_uri'
+										| 'alt'
+										| 'width'
+										| 'height'
+									>
+								>
+							>
+						}
+				}
 		>
-		downvoter?: Maybe<
-			Array<{ __typename?: 'User' } & Pick<User, 'id' | 'username'>>
+		pageInfo: { __typename?: 'PageInfo' } & Pick<
+			PageInfo,
+			'hasNextPage' | 'endCursor'
 		>
 	}
 }
 
-export type GetPublicFeedsQueryVariables = Exact<{ [key: string]: never }>
+export type GetReactionEmojisQueryVariables = Exact<{ [key: string]: never }>
 
-export type GetPublicFeedsQuery = { __typename?: 'Query' } & {
-	posts: Array<
-		{ __typename?: 'Post' } & Pick<
-			Post,
-			'id' | 'caption' | 'type' | 'created_at'
-		> & {
-				author: { __typename?: 'User' } & Pick<
-					User,
-					'id' | 'username' | 'avatar_url'
-				> & {
-						badges?: Maybe<
-							Array<
-								{ __typename?: 'Badge' } & Pick<
-									Badge,
-									| 'id'
-									| 'label'
-									| 'variant'
-									| 'color'
-									| 'background'
-									| 'border'
+export type GetReactionEmojisQuery = { __typename?: 'Query' } & Pick<
+	Query,
+	'reactionEmojis'
+>
+
+export type GetRelationshipFeedsQueryVariables = Exact<{
+	first?: Maybe<Scalars['Int']>
+	after?: Maybe<Scalars['String']>
+}>
+
+export type GetRelationshipFeedsQuery = { __typename?: 'Query' } & {
+	relationshipFeed: { __typename?: 'PaginatedPosts' } & {
+		edges: Array<
+			{ __typename?: 'PostEdge' } & Pick<PostEdge, 'cursor'> & {
+					node: { __typename?: 'Post' } & Pick<
+						Post,
+						| 'id'
+						| 'caption'
+						| 'type'
+						| 'created_at'
+						| 'edited'
+						| 'pinned_at'
+						| 'repost'
+						| 'upvoteCount'
+						| 'downvoteCount'
+						| 'reachCount'
+						| 'commentCount'
+						| 'repostCount'
+						| 'myVote'
+						| 'isBookmarked'
+						| 'myReaction'
+					> & {
+							reactionCounts?: Maybe<
+								Array<
+									{ __typename?: 'ReactionCount' } & Pick<
+										ReactionCount,
+										'emoji' | 'count'
+									>
 								>
 							>
-						>
-					}
-				attachments?: Maybe<
-					{ __typename?: 'Attachments' } & Pick<
-						Attachments,
-						'id' | 'type' | 'uri'
-					>
-				>
-			}
+							author: { __typename?: 'User' } & Pick<
+								User,
+								'id' | 'username' | 'avatar_url'
+							> & {
+									badges?: Maybe<
+										Array<
+											{ __typename?: 'Badge' } & Pick<
+												Badge,
+												| 'id'
+												| 'label'
+												| 'variant'
+												| 'color'
+												| 'background'
+												| 'border'
+											>
+										>
+									>
+								}
+							original?: Maybe<
+								{ __typename?: 'Post' } & Pick<
+									Post,
+									'id' | 'caption' | 'created_at'
+								> & {
+										author: { __typename?: 'User' } & Pick<
+											User,
+											'id' | 'username' | 'avatar_url'
+										>
+									}
+							>
+							media?: Maybe<
+								Array<
+									{ __typename?: 'MediaItem' } & Pick<
+										MediaItem,
+										| 'id'
+										| 'type'
+										| 'uri'
+										| 'medium_uri'
+										| 'alt'
+										| 'width'
+										| 'height'
+									>
+								>
+							>
+						}
+				}
+		>
+		pageInfo: { __typename?: 'PageInfo' } & Pick<
+			PageInfo,
+			'hasNextPage' | 'endCursor'
+		>
+	}
+}
+
+export type GetTrendingTagsQueryVariables = Exact<{
+	limit?: Maybe<Scalars['Int']>
+}>
+
+export type GetTrendingTagsQuery = { __typename?: 'Query' } & {
+	trendingTags: Array<
+		{ __typename?: 'Tag' } & Pick<Tag, 'id' | 'name' | 'postCount'>
 	>
 }
 
@@ -525,11 +1077,11 @@ export type CommentsSubscriptionSubscription = {
 } & {
 	commentsSubscription: { __typename?: 'CommentsDTO' } & Pick<
 		CommentsDto,
-		'postId' | 'type'
+		'postId' | 'parentId' | 'type'
 	> & {
 			comment: { __typename?: 'Comment' } & Pick<
 				Comment,
-				'id' | 'text' | 'created_at'
+				'id' | 'text' | 'created_at' | 'edited_at' | 'depth'
 			> & {
 					author: { __typename?: 'User' } & Pick<
 						User,
@@ -539,15 +1091,19 @@ export type CommentsSubscriptionSubscription = {
 		}
 }
 
-export type DownvoteSubscriptionVariables = Exact<{
+export type ReactionSubscriptionVariables = Exact<{
 	postId: Scalars['String']
 }>
 
-export type DownvoteSubscription = { __typename?: 'Subscription' } & {
-	downvoteSubscription: { __typename?: 'DownvoteDTO' } & Pick<
-		DownvoteDto,
-		'downvotes'
-	> & { downvoters: Array<{ __typename?: 'User' } & Pick<User, 'id'>> }
+export type ReactionSubscription = { __typename?: 'Subscription' } & {
+	reactionSubscription: { __typename?: 'ReactionsDTO' } & {
+		reactions: Array<
+			{ __typename?: 'ReactionCount' } & Pick<
+				ReactionCount,
+				'emoji' | 'count'
+			>
+		>
+	}
 }
 
 export type TotalCommentsSubscriptionSubscriptionVariables = Exact<{
@@ -563,111 +1119,118 @@ export type TotalCommentsSubscriptionSubscription = {
 	>
 }
 
-export type UpvoteSubscriptionVariables = Exact<{
+export type VoteSubscriptionVariables = Exact<{
 	postId: Scalars['String']
 }>
 
-export type UpvoteSubscription = { __typename?: 'Subscription' } & {
-	upvoteSubscription: { __typename?: 'UpvoteDTO' } & Pick<
-		UpvoteDto,
-		'upvotes'
-	> & { upvoters: Array<{ __typename?: 'User' } & Pick<User, 'id'>> }
+export type VoteSubscription = { __typename?: 'Subscription' } & {
+	voteSubscription: { __typename?: 'VoteDTO' } & Pick<
+		VoteDto,
+		'upvotes' | 'downvotes'
+	>
 }
 
-export const AddDownvoteDocument = gql`
-	mutation addDownvote($postId: String!) {
-		addDownvote(postId: $postId)
+export const BookmarkPostDocument = gql`
+	mutation bookmarkPost($postId: String!) {
+		bookmarkPost(postId: $postId) {
+			id
+			isBookmarked
+		}
 	}
 `
-export type AddDownvoteMutationFn = Apollo.MutationFunction<
-	AddDownvoteMutation,
-	AddDownvoteMutationVariables
+export type BookmarkPostMutationFn = Apollo.MutationFunction<
+	BookmarkPostMutation,
+	BookmarkPostMutationVariables
 >
 
 /**
- * __useAddDownvoteMutation__
+ * __useBookmarkPostMutation__
  *
- * To run a mutation, you first call `useAddDownvoteMutation` within a React component and pass it any options that fit your needs.
- * When your component renders, `useAddDownvoteMutation` returns a tuple that includes:
+ * To run a mutation, you first call `useBookmarkPostMutation` within a React component and pass it any options that fit your needs.
+ * When your component renders, `useBookmarkPostMutation` returns a tuple that includes:
  * - A mutate function that you can call at any time to execute the mutation
  * - An object with fields that represent the current status of the mutation's execution
  *
  * @param baseOptions options that will be passed into the mutation, supported options are listed on: https://www.apollographql.com/docs/react/api/react-hooks/#options-2;
  *
  * @example
- * const [addDownvoteMutation, { data, loading, error }] = useAddDownvoteMutation({
+ * const [bookmarkPostMutation, { data, loading, error }] = useBookmarkPostMutation({
  *   variables: {
  *      postId: // value for 'postId'
  *   },
  * });
  */
-export function useAddDownvoteMutation(
+export function useBookmarkPostMutation(
 	baseOptions?: Apollo.MutationHookOptions<
-		AddDownvoteMutation,
-		AddDownvoteMutationVariables
+		BookmarkPostMutation,
+		BookmarkPostMutationVariables
 	>
 ) {
 	const options = { ...defaultOptions, ...baseOptions }
 	return Apollo.useMutation<
-		AddDownvoteMutation,
-		AddDownvoteMutationVariables
-	>(AddDownvoteDocument, options)
-}
-export type AddDownvoteMutationHookResult = ReturnType<
-	typeof useAddDownvoteMutation
->
-export type AddDownvoteMutationResult =
-	Apollo.MutationResult<AddDownvoteMutation>
-export type AddDownvoteMutationOptions = Apollo.BaseMutationOptions<
-	AddDownvoteMutation,
-	AddDownvoteMutationVariables
->
-export const AddUpvoteDocument = gql`
-	mutation addUpvote($postId: String!) {
-		addUpvote(postId: $postId)
+		BookmarkPostMutation,
+		BookmarkPostMutationVariables
+	>(BookmarkPostDocument, options)
+}
+export type BookmarkPostMutationHookResult = ReturnType<
+	typeof useBookmarkPostMutation
+>
+export type BookmarkPostMutationResult =
+	Apollo.MutationResult<BookmarkPostMutation>
+export type BookmarkPostMutationOptions = Apollo.BaseMutationOptions<
+	BookmarkPostMutation,
+	BookmarkPostMutationVariables
+>
+export const UnbookmarkPostDocument = gql`
+	mutation unbookmarkPost($postId: String!) {
+		unbookmarkPost(postId: $postId) {
+			id
+			isBookmarked
+		}
 	}
 `
-export type AddUpvoteMutationFn = Apollo.MutationFunction<
-	AddUpvoteMutation,
-	AddUpvoteMutationVariables
+export type UnbookmarkPostMutationFn = Apollo.MutationFunction<
+	UnbookmarkPostMutation,
+	UnbookmarkPostMutationVariables
 >
 
 /**
- * __useAddUpvoteMutation__
+ * __useUnbookmarkPostMutation__
  *
- * To run a mutation, you first call `useAddUpvoteMutation` within a React component and pass it any options that fit your needs.
- * When your component renders, `useAddUpvoteMutation` returns a tuple that includes:
+ * To run a mutation, you first call `useUnbookmarkPostMutation` within a React component and pass it any options that fit your needs.
+ * When your component renders, `useUnbookmarkPostMutation` returns a tuple that includes:
  * - A mutate function that you can call at any time to execute the mutation
  * - An object with fields that represent the current status of the mutation's execution
  *
  * @param baseOptions options that will be passed into the mutation, supported options are listed on: https://www.apollographql.com/docs/react/api/react-hooks/#options-2;
  *
  * @example
- * const [addUpvoteMutation, { data, loading, error }] = useAddUpvoteMutation({
+ * const [unbookmarkPostMutation, { data, loading, error }] = useUnbookmarkPostMutation({
  *   variables: {
  *      postId: // value for 'postId'
  *   },
  * });
  */
-export function useAddUpvoteMutation(
+export function useUnbookmarkPostMutation(
 	baseOptions?: Apollo.MutationHookOptions<
-		AddUpvoteMutation,
-		AddUpvoteMutationVariables
+		UnbookmarkPostMutation,
+		UnbookmarkPostMutationVariables
 	>
 ) {
 	const options = { ...defaultOptions, ...baseOptions }
-	return Apollo.useMutation<AddUpvoteMutation, AddUpvoteMutationVariables>(
-		AddUpvoteDocument,
-		options
-	)
+	return Apollo.useMutation<
+		UnbookmarkPostMutation,
+		UnbookmarkPostMutationVariables
+	>(UnbookmarkPostDocument, options)
 }
-export type AddUpvoteMutationHookResult = ReturnType<
-	typeof useAddUpvoteMutation
+export type UnbookmarkPostMutationHookResult = ReturnType<
+	typeof useUnbookmarkPostMutation
 >
-export type AddUpvoteMutationResult = Apollo.MutationResult<AddUpvoteMutation>
-export type AddUpvoteMutationOptions = Apollo.BaseMutationOptions<
-	AddUpvoteMutation,
-	AddUpvoteMutationVariables
+export type UnbookmarkPostMutationResult =
+	Apollo.MutationResult<UnbookmarkPostMutation>
+export type UnbookmarkPostMutationOptions = Apollo.BaseMutationOptions<
+	UnbookmarkPostMutation,
+	UnbookmarkPostMutationVariables
 >
 export const CreateCommentDocument = gql`
 	mutation CreateComment($createCommentInput: CreateCommentInput!) {
@@ -876,101 +1439,252 @@ export type DeletePostMutationOptions = Apollo.BaseMutationOptions<
 	DeletePostMutation,
 	DeletePostMutationVariables
 >
-export const RemoveDownvoteDocument = gql`
-	mutation removeDownvote($postId: String!) {
-		removeDownvote(postId: $postId)
+export const PinPostDocument = gql`
+	mutation pinPost($postId: String!) {
+		pinPost(postId: $postId) {
+			id
+			pinned_at
+		}
 	}
 `
-export type RemoveDownvoteMutationFn = Apollo.MutationFunction<
-	RemoveDownvoteMutation,
-	RemoveDownvoteMutationVariables
+export type PinPostMutationFn = Apollo.MutationFunction<
+	PinPostMutation,
+	PinPostMutationVariables
 >
 
 /**
- * __useRemoveDownvoteMutation__
+ * __usePinPostMutation__
  *
- * To run a mutation, you first call `useRemoveDownvoteMutation` within a React component and pass it any options that fit your needs.
- * When your component renders, `useRemoveDownvoteMutation` returns a tuple that includes:
+ * To run a mutation, you first call `usePinPostMutation` within a React component and pass it any options that fit your needs.
+ * When your component renders, `usePinPostMutation` returns a tuple that includes:
  * - A mutate function that you can call at any time to execute the mutation
  * - An object with fields that represent the current status of the mutation's execution
  *
  * @param baseOptions options that will be passed into the mutation, supported options are listed on: https://www.apollographql.com/docs/react/api/react-hooks/#options-2;
  *
  * @example
- * const [removeDownvoteMutation, { data, loading, error }] = useRemoveDownvoteMutation({
+ * const [pinPostMutation, { data, loading, error }] = usePinPostMutation({
  *   variables: {
  *      postId: // value for 'postId'
  *   },
  * });
  */
-export function useRemoveDownvoteMutation(
+export function usePinPostMutation(
 	baseOptions?: Apollo.MutationHookOptions<
-		RemoveDownvoteMutation,
-		RemoveDownvoteMutationVariables
+		PinPostMutation,
+		PinPostMutationVariables
 	>
 ) {
 	const options = { ...defaultOptions, ...baseOptions }
-	return Apollo.useMutation<
-		RemoveDownvoteMutation,
-		RemoveDownvoteMutationVariables
-	>(RemoveDownvoteDocument, options)
-}
-export type RemoveDownvoteMutationHookResult = ReturnType<
-	typeof useRemoveDownvoteMutation
->
-export type RemoveDownvoteMutationResult =
-	Apollo.MutationResult<RemoveDownvoteMutation>
-export type RemoveDownvoteMutationOptions = Apollo.BaseMutationOptions<
-	RemoveDownvoteMutation,
-	RemoveDownvoteMutationVariables
->
-export const RemoveUpvoteDocument = gql`
-	mutation removeUpvote($postId: String!) {
-		removeUpvote(postId: $postId)
+	return Apollo.useMutation<PinPostMutation, PinPostMutationVariables>(
+		PinPostDocument,
+		options
+	)
+}
+export type PinPostMutationHookResult = ReturnType<typeof usePinPostMutation>
+export type PinPostMutationResult = Apollo.MutationResult<PinPostMutation>
+export type PinPostMutationOptions = Apollo.BaseMutationOptions<
+	PinPostMutation,
+	PinPostMutationVariables
+>
+export const UnpinPostDocument = gql`
+	mutation unpinPost($postId: String!) {
+		unpinPost(postId: $postId) {
+			id
+			pinned_at
+		}
+	}
+`
+export type UnpinPostMutationFn = Apollo.MutationFunction<
+	UnpinPostMutation,
+	UnpinPostMutationVariables
+>
+
+/**
+ * __useUnpinPostMutation__
+ *
+ * To run a mutation, you first call `useUnpinPostMutation` within a React component and pass it any options that fit your needs.
+ * When your component renders, `useUnpinPostMutation` returns a tuple that includes:
+ * - A mutate function that you can call at any time to execute the mutation
+ * - An object with fields that represent the current status of the mutation's execution
+ *
+ * @param baseOptions options that will be passed into the mutation, supported options are listed on: https://www.apollographql.com/docs/react/api/react-hooks/#options-2;
+ *
+ * @example
+ * const [unpinPostMutation, { data, loading, error }] = useUnpinPostMutation({
+ *   variables: {
+ *      postId: // value for 'postId'
+ *   },
+ * });
+ */
+export function useUnpinPostMutation(
+	baseOptions?: Apollo.MutationHookOptions<
+		UnpinPostMutation,
+		UnpinPostMutationVariables
+	>
+) {
+	const options = { ...defaultOptions, ...baseOptions }
+	return Apollo.useMutation<UnpinPostMutation, UnpinPostMutationVariables>(
+		UnpinPostDocument,
+		options
+	)
+}
+export type UnpinPostMutationHookResult = ReturnType<
+	typeof useUnpinPostMutation
+>
+export type UnpinPostMutationResult = Apollo.MutationResult<UnpinPostMutation>
+export type UnpinPostMutationOptions = Apollo.BaseMutationOptions<
+	UnpinPostMutation,
+	UnpinPostMutationVariables
+>
+export const ReactToPostDocument = gql`
+	mutation reactToPost($postId: String!, $emoji: String) {
+		reactToPost(postId: $postId, emoji: $emoji) {
+			reactions {
+				emoji
+				count
+			}
+		}
 	}
 `
-export type RemoveUpvoteMutationFn = Apollo.MutationFunction<
-	RemoveUpvoteMutation,
-	RemoveUpvoteMutationVariables
+export type ReactToPostMutationFn = Apollo.MutationFunction<
+	ReactToPostMutation,
+	ReactToPostMutationVariables
 >
 
 /**
- * __useRemoveUpvoteMutation__
+ * __useReactToPostMutation__
  *
- * To run a mutation, you first call `useRemoveUpvoteMutation` within a React component and pass it any options that fit your needs.
- * When your component renders, `useRemoveUpvoteMutation` returns a tuple that includes:
+ * To run a mutation, you first call `useReactToPostMutation` within a React component and pass it any options that fit your needs.
+ * When your component renders, `useReactToPostMutation` returns a tuple that includes:
  * - A mutate function that you can call at any time to execute the mutation
  * - An object with fields that represent the current status of the mutation's execution
  *
  * @param baseOptions options that will be passed into the mutation, supported options are listed on: https://www.apollographql.com/docs/react/api/react-hooks/#options-2;
  *
  * @example
- * const [removeUpvoteMutation, { data, loading, error }] = useRemoveUpvoteMutation({
+ * const [reactToPostMutation, { data, loading, error }] = useReactToPostMutation({
  *   variables: {
  *      postId: // value for 'postId'
+ *      emoji: // value for 'emoji'
+ *   },
+ * });
+ */
+export function useReactToPostMutation(
+	baseOptions?: Apollo.MutationHookOptions<
+		ReactToPostMutation,
+		ReactToPostMutationVariables
+	>
+) {
+	const options = { ...defaultOptions, ...baseOptions }
+	return Apollo.useMutation<
+		ReactToPostMutation,
+		ReactToPostMutationVariables
+	>(ReactToPostDocument, options)
+}
+export type ReactToPostMutationHookResult = ReturnType<
+	typeof useReactToPostMutation
+>
+export type ReactToPostMutationResult =
+	Apollo.MutationResult<ReactToPostMutation>
+export type ReactToPostMutationOptions = Apollo.BaseMutationOptions<
+	ReactToPostMutation,
+	ReactToPostMutationVariables
+>
+export const ReplyToCommentDocument = gql`
+	mutation ReplyToComment($replyToCommentInput: ReplyToCommentInput!) {
+		replyToComment(replyToCommentInput: $replyToCommentInput)
+	}
+`
+export type ReplyToCommentMutationFn = Apollo.MutationFunction<
+	ReplyToCommentMutation,
+	ReplyToCommentMutationVariables
+>
+
+/**
+ * __useReplyToCommentMutation__
+ *
+ * To run a mutation, you first call `useReplyToCommentMutation` within a React component and pass it any options that fit your needs.
+ * When your component renders, `useReplyToCommentMutation` returns a tuple that includes:
+ * - A mutate function that you can call at any time to execute the mutation
+ * - An object with fields that represent the current status of the mutation's execution
+ *
+ * @param baseOptions options that will be passed into the mutation, supported options are listed on: https://www.apollographql.com/docs/react/api/react-hooks/#options-2;
+ *
+ * @example
+ * const [replyToCommentMutation, { data, loading, error }] = useReplyToCommentMutation({
+ *   variables: {
+ *      replyToCommentInput: // value for 'replyToCommentInput'
  *   },
  * });
  */
-export function useRemoveUpvoteMutation(
+export function useReplyToCommentMutation(
 	baseOptions?: Apollo.MutationHookOptions<
-		RemoveUpvoteMutation,
-		RemoveUpvoteMutationVariables
+		ReplyToCommentMutation,
+		ReplyToCommentMutationVariables
 	>
 ) {
 	const options = { ...defaultOptions, ...baseOptions }
 	return Apollo.useMutation<
-		RemoveUpvoteMutation,
-		RemoveUpvoteMutationVariables
-	>(RemoveUpvoteDocument, options)
+		ReplyToCommentMutation,
+		ReplyToCommentMutationVariables
+	>(ReplyToCommentDocument, options)
 }
-export type RemoveUpvoteMutationHookResult = ReturnType<
-	typeof useRemoveUpvoteMutation
+export type ReplyToCommentMutationHookResult = ReturnType<
+	typeof useReplyToCommentMutation
+>
+export type ReplyToCommentMutationResult =
+	Apollo.MutationResult<ReplyToCommentMutation>
+export type ReplyToCommentMutationOptions = Apollo.BaseMutationOptions<
+	ReplyToCommentMutation,
+	ReplyToCommentMutationVariables
 >
-export type RemoveUpvoteMutationResult =
-	Apollo.MutationResult<RemoveUpvoteMutation>
-export type RemoveUpvoteMutationOptions = Apollo.BaseMutationOptions<
-	RemoveUpvoteMutation,
-	RemoveUpvoteMutationVariables
+export const RepostDocument = gql`
+	mutation repost($postId: String!) {
+		repost(postId: $postId) {
+			id
+		}
+	}
+`
+export type RepostMutationFn = Apollo.MutationFunction<
+	RepostMutation,
+	RepostMutationVariables
+>
+
+/**
+ * __useRepostMutation__
+ *
+ * To run a mutation, you first call `useRepostMutation` within a React component and pass it any options that fit your needs.
+ * When your component renders, `useRepostMutation` returns a tuple that includes:
+ * - A mutate function that you can call at any time to execute the mutation
+ * - An object with fields that represent the current status of the mutation's execution
+ *
+ * @param baseOptions options that will be passed into the mutation, supported options are listed on: https://www.apollographql.com/docs/react/api/react-hooks/#options-2;
+ *
+ * @example
+ * const [repostMutation, { data, loading, error }] = useRepostMutation({
+ *   variables: {
+ *      postId: // value for 'postId'
+ *   },
+ * });
+ */
+export function useRepostMutation(
+	baseOptions?: Apollo.MutationHookOptions<
+		RepostMutation,
+		RepostMutationVariables
+	>
+) {
+	const options = { ...defaultOptions, ...baseOptions }
+	return Apollo.useMutation<RepostMutation, RepostMutationVariables>(
+		RepostDocument,
+		options
+	)
+}
+export type RepostMutationHookResult = ReturnType<typeof useRepostMutation>
+export type RepostMutationResult = Apollo.MutationResult<RepostMutation>
+export type RepostMutationOptions = Apollo.BaseMutationOptions<
+	RepostMutation,
+	RepostMutationVariables
 >
 export const SetCurrentPostReachDocument = gql`
 	mutation setCurrentPostReach($postId: String!) {
@@ -1020,217 +1734,252 @@ export type SetCurrentPostReachMutationOptions = Apollo.BaseMutationOptions<
 	SetCurrentPostReachMutation,
 	SetCurrentPostReachMutationVariables
 >
-export const GetPostCommentsDocument = gql`
-	query GetPostComments($postId: String!) {
-		getPostComments(postId: $postId) {
-			id
-			text
-			created_at
-			author {
-				id
-				email
-				username
-				avatar_url
-			}
-		}
+export const UpdateCommentDocument = gql`
+	mutation UpdateComment($updateCommentInput: UpdateCommentInput!) {
+		updateComment(updateCommentInput: $updateCommentInput)
 	}
 `
+export type UpdateCommentMutationFn = Apollo.MutationFunction<
+	UpdateCommentMutation,
+	UpdateCommentMutationVariables
+>
 
 /**
- * __useGetPostCommentsQuery__
+ * __useUpdateCommentMutation__
  *
- * To run a query within a React component, call `useGetPostCommentsQuery` and pass it any options that fit your needs.
- * When your component renders, `useGetPostCommentsQuery` returns an object from Apollo Client that contains loading, error, and data properties
- * you can use to render your UI.
+ * To run a mutation, you first call `useUpdateCommentMutation` within a React component and pass it any options that fit your needs.
+ * When your component renders, `useUpdateCommentMutation` returns a tuple that includes:
+ * - A mutate function that you can call at any time to execute the mutation
+ * - An object with fields that represent the current status of the mutation's execution
  *
- * @param baseOptions options that will be passed into the query, supported options are listed on: https://www.apollographql.com/docs/react/api/react-hooks/#options;
+ * @param baseOptions options that will be passed into the mutation, supported options are listed on: https://www.apollographql.com/docs/react/api/react-hooks/#options-2;
  *
  * @example
- * const { data, loading, error } = useGetPostCommentsQuery({
+ * const [updateCommentMutation, { data, loading, error }] = useUpdateCommentMutation({
  *   variables: {
- *      postId: // value for 'postId'
+ *      updateCommentInput: // value for 'updateCommentInput'
  *   },
  * });
  */
-export function useGetPostCommentsQuery(
-	baseOptions: Apollo.QueryHookOptions<
-		GetPostCommentsQuery,
-		GetPostCommentsQueryVariables
-	>
-) {
-	const options = { ...defaultOptions, ...baseOptions }
-	return Apollo.useQuery<GetPostCommentsQuery, GetPostCommentsQueryVariables>(
-		GetPostCommentsDocument,
-		options
-	)
-}
-export function useGetPostCommentsLazyQuery(
-	baseOptions?: Apollo.LazyQueryHookOptions<
-		GetPostCommentsQuery,
-		GetPostCommentsQueryVariables
+export function useUpdateCommentMutation(
+	baseOptions?: Apollo.MutationHookOptions<
+		UpdateCommentMutation,
+		UpdateCommentMutationVariables
 	>
 ) {
 	const options = { ...defaultOptions, ...baseOptions }
-	return Apollo.useLazyQuery<
-		GetPostCommentsQuery,
-		GetPostCommentsQueryVariables
-	>(GetPostCommentsDocument, options)
+	return Apollo.useMutation<
+		UpdateCommentMutation,
+		UpdateCommentMutationVariables
+	>(UpdateCommentDocument, options)
 }
-export type GetPostCommentsQueryHookResult = ReturnType<
-	typeof useGetPostCommentsQuery
->
-export type GetPostCommentsLazyQueryHookResult = ReturnType<
-	typeof useGetPostCommentsLazyQuery
+export type UpdateCommentMutationHookResult = ReturnType<
+	typeof useUpdateCommentMutation
 >
-export type GetPostCommentsQueryResult = Apollo.QueryResult<
-	GetPostCommentsQuery,
-	GetPostCommentsQueryVariables
+export type UpdateCommentMutationResult =
+	Apollo.MutationResult<UpdateCommentMutation>
+export type UpdateCommentMutationOptions = Apollo.BaseMutationOptions<
+	UpdateCommentMutation,
+	UpdateCommentMutationVariables
 >
-export const GetPublicFeedReachsDocument = gql`
-	query getPublicFeedReachs($postId: String!) {
-		getPostReachs(postId: $postId)
+export const VotePostDocument = gql`
+	mutation votePost($postId: String!, $direction: VoteDirection!) {
+		votePost(postId: $postId, direction: $direction) {
+			postId
+			upvotes
+			downvotes
+		}
 	}
 `
+export type VotePostMutationFn = Apollo.MutationFunction<
+	VotePostMutation,
+	VotePostMutationVariables
+>
 
 /**
- * __useGetPublicFeedReachsQuery__
+ * __useVotePostMutation__
  *
- * To run a query within a React component, call `useGetPublicFeedReachsQuery` and pass it any options that fit your needs.
- * When your component renders, `useGetPublicFeedReachsQuery` returns an object from Apollo Client that contains loading, error, and data properties
- * you can use to render your UI.
+ * To run a mutation, you first call `useVotePostMutation` within a React component and pass it any options that fit your needs.
+ * When your component renders, `useVotePostMutation` returns a tuple that includes:
+ * - A mutate function that you can call at any time to execute the mutation
+ * - An object with fields that represent the current status of the mutation's execution
  *
- * @param baseOptions options that will be passed into the query, supported options are listed on: https://www.apollographql.com/docs/react/api/react-hooks/#options;
+ * @param baseOptions options that will be passed into the mutation, supported options are listed on: https://www.apollographql.com/docs/react/api/react-hooks/#options-2;
  *
  * @example
- * const { data, loading, error } = useGetPublicFeedReachsQuery({
+ * const [votePostMutation, { data, loading, error }] = useVotePostMutation({
  *   variables: {
  *      postId: // value for 'postId'
+ *      direction: // value for 'direction'
  *   },
  * });
  */
-export function useGetPublicFeedReachsQuery(
-	baseOptions: Apollo.QueryHookOptions<
-		GetPublicFeedReachsQuery,
-		GetPublicFeedReachsQueryVariables
-	>
-) {
-	const options = { ...defaultOptions, ...baseOptions }
-	return Apollo.useQuery<
-		GetPublicFeedReachsQuery,
-		GetPublicFeedReachsQueryVariables
-	>(GetPublicFeedReachsDocument, options)
-}
-export function useGetPublicFeedReachsLazyQuery(
-	baseOptions?: Apollo.LazyQueryHookOptions<
-		GetPublicFeedReachsQuery,
-		GetPublicFeedReachsQueryVariables
+export function useVotePostMutation(
+	baseOptions?: Apollo.MutationHookOptions<
+		VotePostMutation,
+		VotePostMutationVariables
 	>
 ) {
 	const options = { ...defaultOptions, ...baseOptions }
-	return Apollo.useLazyQuery<
-		GetPublicFeedReachsQuery,
-		GetPublicFeedReachsQueryVariables
-	>(GetPublicFeedReachsDocument, options)
+	return Apollo.useMutation<VotePostMutation, VotePostMutationVariables>(
+		VotePostDocument,
+		options
+	)
 }
-export type GetPublicFeedReachsQueryHookResult = ReturnType<
-	typeof useGetPublicFeedReachsQuery
->
-export type GetPublicFeedReachsLazyQueryHookResult = ReturnType<
-	typeof useGetPublicFeedReachsLazyQuery
->
-export type GetPublicFeedReachsQueryResult = Apollo.QueryResult<
-	GetPublicFeedReachsQuery,
-	GetPublicFeedReachsQueryVariables
+export type VotePostMutationHookResult = ReturnType<typeof useVotePostMutation>
+export type VotePostMutationResult = Apollo.MutationResult<VotePostMutation>
+export type VotePostMutationOptions = Apollo.BaseMutationOptions<
+	VotePostMutation,
+	VotePostMutationVariables
 >
-export const GetPostVotesDocument = gql`
-	query getPostVotes($postId: String!) {
-		post(postId: $postId) {
-			upvoter {
-				id
-				username
+export const GetCommentsDocument = gql`
+	query GetComments($postId: String!, $first: Int, $after: String) {
+		comments(postId: $postId, first: $first, after: $after) {
+			totalCount
+			edges {
+				cursor
+				node {
+					id
+					text
+					created_at
+					edited_at
+					depth
+					parent {
+						id
+					}
+					author {
+						id
+						email
+						username
+						avatar_url
+					}
+				}
 			}
-			downvoter {
-				id
-				username
+			pageInfo {
+				hasNextPage
+				endCursor
 			}
 		}
 	}
 `
 
 /**
- * __useGetPostVotesQuery__
+ * __useGetCommentsQuery__
  *
- * To run a query within a React component, call `useGetPostVotesQuery` and pass it any options that fit your needs.
- * When your component renders, `useGetPostVotesQuery` returns an object from Apollo Client that contains loading, error, and data properties
+ * To run a query within a React component, call `useGetCommentsQuery` and pass it any options that fit your needs.
+ * When your component renders, `useGetCommentsQuery` returns an object from Apollo Client that contains loading, error, and data properties
  * you can use to render your UI.
  *
  * @param baseOptions options that will be passed into the query, supported options are listed on: https://www.apollographql.com/docs/react/api/react-hooks/#options;
  *
  * @example
- * const { data, loading, error } = useGetPostVotesQuery({
+ * const { data, loading, error } = useGetCommentsQuery({
  *   variables: {
  *      postId: // value for 'postId'
+ *      first: // value for 'first'
+ *      after: // value for 'after'
  *   },
  * });
  */
-export function useGetPostVotesQuery(
+export function useGetCommentsQuery(
 	baseOptions: Apollo.QueryHookOptions<
-		GetPostVotesQuery,
-		GetPostVotesQueryVariables
+		GetCommentsQuery,
+		GetCommentsQueryVariables
 	>
 ) {
 	const options = { ...defaultOptions, ...baseOptions }
-	return Apollo.useQuery<GetPostVotesQuery, GetPostVotesQueryVariables>(
-		GetPostVotesDocument,
+	return Apollo.useQuery<GetCommentsQuery, GetCommentsQueryVariables>(
+		GetCommentsDocument,
 		options
 	)
 }
-export function useGetPostVotesLazyQuery(
+export function useGetCommentsLazyQuery(
 	baseOptions?: Apollo.LazyQueryHookOptions<
-		GetPostVotesQuery,
-		GetPostVotesQueryVariables
+		GetCommentsQuery,
+		GetCommentsQueryVariables
 	>
 ) {
 	const options = { ...defaultOptions, ...baseOptions }
-	return Apollo.useLazyQuery<GetPostVotesQuery, GetPostVotesQueryVariables>(
-		GetPostVotesDocument,
+	return Apollo.useLazyQuery<GetCommentsQuery, GetCommentsQueryVariables>(
+		GetCommentsDocument,
 		options
 	)
 }
-export type GetPostVotesQueryHookResult = ReturnType<
-	typeof useGetPostVotesQuery
->
-export type GetPostVotesLazyQueryHookResult = ReturnType<
-	typeof useGetPostVotesLazyQuery
+export type GetCommentsQueryHookResult = ReturnType<typeof useGetCommentsQuery>
+export type GetCommentsLazyQueryHookResult = ReturnType<
+	typeof useGetCommentsLazyQuery
 >
-export type GetPostVotesQueryResult = Apollo.QueryResult<
-	GetPostVotesQuery,
-	GetPostVotesQueryVariables
+export type GetCommentsQueryResult = Apollo.QueryResult<
+	GetCommentsQuery,
+	GetCommentsQueryVariables
 >
 export const GetPublicFeedsDocument = gql`
-	query getPublicFeeds {
-		posts {
-			id
-			caption
-			type
-			created_at
-			author {
-				id
-				username
-				avatar_url
-				badges {
+	query getPublicFeeds(
+		$first: Int
+		$after: String
+		$sort: FeedSort
+		$window: TopWindow
+	) {
+		posts(first: $first, after: $after, sort: $sort, window: $window) {
+			edges {
+				cursor
+				node {
 					id
-					label
-					variant
-					color
-					background
-					border
+					caption
+					type
+					created_at
+					edited
+					pinned_at
+					repost
+					upvoteCount
+					downvoteCount
+					reachCount
+					commentCount
+					repostCount
+					myVote
+					isBookmarked
+					myReaction
+					reactionCounts {
+						emoji
+						count
+					}
+					author {
+						id
+						username
+						avatar_url
+						badges {
+							id
+							label
+							variant
+							color
+							background
+							border
+						}
+					}
+					original {
+						id
+						caption
+						created_at
+						author {
+							id
+							username
+							avatar_url
+						}
+					}
+					media {
+						id
+						type
+						uri
+						medium_uri
+						alt
+						width
+						height
+					}
 				}
 			}
-			attachments {
-				id
-				type
-				uri
+			pageInfo {
+				hasNextPage
+				endCursor
 			}
 		}
 	}
@@ -1248,6 +1997,10 @@ export const GetPublicFeedsDocument = gql`
  * @example
  * const { data, loading, error } = useGetPublicFeedsQuery({
  *   variables: {
+ *      first: // value for 'first'
+ *      after: // value for 'after'
+ *      sort: // value for 'sort'
+ *      window: // value for 'window'
  *   },
  * });
  */
@@ -1285,6 +2038,239 @@ export type GetPublicFeedsQueryResult = Apollo.QueryResult<
 	GetPublicFeedsQuery,
 	GetPublicFeedsQueryVariables
 >
+export const GetReactionEmojisDocument = gql`
+	query getReactionEmojis {
+		reactionEmojis
+	}
+`
+
+/**
+ * __useGetReactionEmojisQuery__
+ *
+ * To run a query within a React component, call `useGetReactionEmojisQuery` and pass it any options that fit your needs.
+ * When your component renders, `useGetReactionEmojisQuery` returns an object from Apollo Client that contains loading, error, and data properties
+ * you can use to render your UI.
+ *
+ * @param baseOptions options that will be passed into the query, supported options are listed on: https://www.apollographql.com/docs/react/api/react-hooks/#options;
+ *
+ * @example
+ * const { data, loading, error } = useGetReactionEmojisQuery({
+ *   variables: {
+ *   },
+ * });
+ */
+export function useGetReactionEmojisQuery(
+	baseOptions?: Apollo.QueryHookOptions<
+		GetReactionEmojisQuery,
+		GetReactionEmojisQueryVariables
+	>
+) {
+	const options = { ...defaultOptions, ...baseOptions }
+	return Apollo.useQuery<
+		GetReactionEmojisQuery,
+		GetReactionEmojisQueryVariables
+	>(GetReactionEmojisDocument, options)
+}
+export function useGetReactionEmojisLazyQuery(
+	baseOptions?: Apollo.LazyQueryHookOptions<
+		GetReactionEmojisQuery,
+		GetReactionEmojisQueryVariables
+	>
+) {
+	const options = { ...defaultOptions, ...baseOptions }
+	return Apollo.useLazyQuery<
+		GetReactionEmojisQuery,
+		GetReactionEmojisQueryVariables
+	>(GetReactionEmojisDocument, options)
+}
+export type GetReactionEmojisQueryHookResult = ReturnType<
+	typeof useGetReactionEmojisQuery
+>
+export type GetReactionEmojisLazyQueryHookResult = ReturnType<
+	typeof useGetReactionEmojisLazyQuery
+>
+export type GetReactionEmojisQueryResult = Apollo.QueryResult<
+	GetReactionEmojisQuery,
+	GetReactionEmojisQueryVariables
+>
+export const GetRelationshipFeedsDocument = gql`
+	query getRelationshipFeeds($first: Int, $after: String) {
+		relationshipFeed(first: $first, after: $after) {
+			edges {
+				cursor
+				node {
+					id
+					caption
+					type
+					created_at
+					edited
+					pinned_at
+					repost
+					upvoteCount
+					downvoteCount
+					reachCount
+					commentCount
+					repostCount
+					myVote
+					isBookmarked
+					myReaction
+					reactionCounts {
+						emoji
+						count
+					}
+					author {
+						id
+						username
+						avatar_url
+						badges {
+							id
+							label
+							variant
+							color
+							background
+							border
+						}
+					}
+					original {
+						id
+						caption
+						created_at
+						author {
+							id
+							username
+							avatar_url
+						}
+					}
+					media {
+						id
+						type
+						uri
+						medium_uri
+						alt
+						width
+						height
+					}
+				}
+			}
+			pageInfo {
+				hasNextPage
+				endCursor
+			}
+		}
+	}
+`
+
+/**
+ * __useGetRelationshipFeedsQuery__
+ *
+ * To run a query within a React component, call `useGetRelationshipFeedsQuery` and pass it any options that fit your needs.
+ * When your component renders, `useGetRelationshipFeedsQuery` returns an object from Apollo Client that contains loading, error, and data properties
+ * you can use to render your UI.
+ *
+ * @param baseOptions options that will be passed into the query, supported options are listed on: https://www.apollographql.com/docs/react/api/react-hooks/#options;
+ *
+ * @example
+ * const { data, loading, error } = useGetRelationshipFeedsQuery({
+ *   variables: {
+ *      first: // value for 'first'
+ *      after: // value for 'after'
+ *   },
+ * });
+ */
+export function useGetRelationshipFeedsQuery(
+	baseOptions?: Apollo.QueryHookOptions<
+		GetRelationshipFeedsQuery,
+		GetRelationshipFeedsQueryVariables
+	>
+) {
+	const options = { ...defaultOptions, ...baseOptions }
+	return Apollo.useQuery<
+		GetRelationshipFeedsQuery,
+		GetRelationshipFeedsQueryVariables
+	>(GetRelationshipFeedsDocument, options)
+}
+export function useGetRelationshipFeedsLazyQuery(
+	baseOptions?: Apollo.LazyQueryHookOptions<
+		GetRelationshipFeedsQuery,
+		GetRelationshipFeedsQueryVariables
+	>
+) {
+	const options = { ...defaultOptions, ...baseOptions }
+	return Apollo.useLazyQuery<
+		GetRelationshipFeedsQuery,
+		GetRelationshipFeedsQueryVariables
+	>(GetRelationshipFeedsDocument, options)
+}
+export type GetRelationshipFeedsQueryHookResult = ReturnType<
+	typeof useGetRelationshipFeedsQuery
+>
+export type GetRelationshipFeedsLazyQueryHookResult = ReturnType<
+	typeof useGetRelationshipFeedsLazyQuery
+>
+export type GetRelationshipFeedsQueryResult = Apollo.QueryResult<
+	GetRelationshipFeedsQuery,
+	GetRelationshipFeedsQueryVariables
+>
+export const GetTrendingTagsDocument = gql`
+	query GetTrendingTags($limit: Int) {
+		trendingTags(limit: $limit) {
+			id
+			name
+			postCount
+		}
+	}
+`
+
+/**
+ * __useGetTrendingTagsQuery__
+ *
+ * To run a query within a React component, call `useGetTrendingTagsQuery` and pass it any options that fit your needs.
+ * When your component renders, `useGetTrendingTagsQuery` returns an object from Apollo Client that contains loading, error, and data properties
+ * you can use to render your UI.
+ *
+ * @param baseOptions options that will be passed into the query, supported options are listed on: https://www.apollographql.com/docs/react/api/react-hooks/#options;
+ *
+ * @example
+ * const { data, loading, error } = useGetTrendingTagsQuery({
+ *   variables: {
+ *      limit: // value for 'limit'
+ *   },
+ * });
+ */
+export function useGetTrendingTagsQuery(
+	baseOptions?: Apollo.QueryHookOptions<
+		GetTrendingTagsQuery,
+		GetTrendingTagsQueryVariables
+	>
+) {
+	const options = { ...defaultOptions, ...baseOptions }
+	return Apollo.useQuery<GetTrendingTagsQuery, GetTrendingTagsQueryVariables>(
+		GetTrendingTagsDocument,
+		options
+	)
+}
+export function useGetTrendingTagsLazyQuery(
+	baseOptions?: Apollo.LazyQueryHookOptions<
+		GetTrendingTagsQuery,
+		GetTrendingTagsQueryVariables
+	>
+) {
+	const options = { ...defaultOptions, ...baseOptions }
+	return Apollo.useLazyQuery<
+		GetTrendingTagsQuery,
+		GetTrendingTagsQueryVariables
+	>(GetTrendingTagsDocument, options)
+}
+export type GetTrendingTagsQueryHookResult = ReturnType<
+	typeof useGetTrendingTagsQuery
+>
+export type GetTrendingTagsLazyQueryHookResult = ReturnType<
+	typeof useGetTrendingTagsLazyQuery
+>
+export type GetTrendingTagsQueryResult = Apollo.QueryResult<
+	GetTrendingTagsQuery,
+	GetTrendingTagsQueryVariables
+>
 export const GetUserBadgeDocument = gql`
 	query GetUserBadge($username: String!) {
 		user(username: $username) {
@@ -1354,10 +2340,13 @@ export const CommentsSubscriptionDocument = gql`
 	subscription CommentsSubscription($postId: String!) {
 		commentsSubscription(postId: $postId) {
 			postId
+			parentId
 			comment {
 				id
 				text
 				created_at
+				edited_at
+				depth
 				author {
 					id
 					username
@@ -1403,50 +2392,50 @@ export type CommentsSubscriptionSubscriptionHookResult = ReturnType<
 >
 export type CommentsSubscriptionSubscriptionResult =
 	Apollo.SubscriptionResult<CommentsSubscriptionSubscription>
-export const DownvoteDocument = gql`
-	subscription downvote($postId: String!) {
-		downvoteSubscription(postId: $postId) {
-			downvotes
-			downvoters {
-				id
+export const ReactionDocument = gql`
+	subscription reaction($postId: String!) {
+		reactionSubscription(postId: $postId) {
+			reactions {
+				emoji
+				count
 			}
 		}
 	}
 `
 
 /**
- * __useDownvoteSubscription__
+ * __useReactionSubscription__
  *
- * To run a query within a React component, call `useDownvoteSubscription` and pass it any options that fit your needs.
- * When your component renders, `useDownvoteSubscription` returns an object from Apollo Client that contains loading, error, and data properties
+ * To run a query within a React component, call `useReactionSubscription` and pass it any options that fit your needs.
+ * When your component renders, `useReactionSubscription` returns an object from Apollo Client that contains loading, error, and data properties
  * you can use to render your UI.
  *
  * @param baseOptions options that will be passed into the subscription, supported options are listed on: https://www.apollographql.com/docs/react/api/react-hooks/#options;
  *
  * @example
- * const { data, loading, error } = useDownvoteSubscription({
+ * const { data, loading, error } = useReactionSubscription({
  *   variables: {
  *      postId: // value for 'postId'
  *   },
  * });
  */
-export function useDownvoteSubscription(
+export function useReactionSubscription(
 	baseOptions: Apollo.SubscriptionHookOptions<
-		DownvoteSubscription,
-		DownvoteSubscriptionVariables
+		ReactionSubscription,
+		ReactionSubscriptionVariables
 	>
 ) {
 	const options = { ...defaultOptions, ...baseOptions }
 	return Apollo.useSubscription<
-		DownvoteSubscription,
-		DownvoteSubscriptionVariables
-	>(DownvoteDocument, options)
+		ReactionSubscription,
+		ReactionSubscriptionVariables
+	>(ReactionDocument, options)
 }
-export type DownvoteSubscriptionHookResult = ReturnType<
-	typeof useDownvoteSubscription
+export type ReactionSubscriptionHookResult = ReturnType<
+	typeof useReactionSubscription
 >
-export type DownvoteSubscriptionResult =
-	Apollo.SubscriptionResult<DownvoteSubscription>
+export type ReactionSubscriptionResult =
+	Apollo.SubscriptionResult<ReactionSubscription>
 export const TotalCommentsSubscriptionDocument = gql`
 	subscription TotalCommentsSubscription($postId: String!) {
 		commentsSubscription(postId: $postId) {
@@ -1489,47 +2478,42 @@ export type TotalCommentsSubscriptionSubscriptionHookResult = ReturnType<
 >
 export type TotalCommentsSubscriptionSubscriptionResult =
 	Apollo.SubscriptionResult<TotalCommentsSubscriptionSubscription>
-export const UpvoteDocument = gql`
-	subscription upvote($postId: String!) {
-		upvoteSubscription(postId: $postId) {
+export const VoteDocument = gql`
+	subscription vote($postId: String!) {
+		voteSubscription(postId: $postId) {
 			upvotes
-			upvoters {
-				id
-			}
+			downvotes
 		}
 	}
 `
 
 /**
- * __useUpvoteSubscription__
+ * __useVoteSubscription__
  *
- * To run a query within a React component, call `useUpvoteSubscription` and pass it any options that fit your needs.
- * When your component renders, `useUpvoteSubscription` returns an object from Apollo Client that contains loading, error, and data properties
+ * To run a query within a React component, call `useVoteSubscription` and pass it any options that fit your needs.
+ * When your component renders, `useVoteSubscription` returns an object from Apollo Client that contains loading, error, and data properties
  * you can use to render your UI.
  *
  * @param baseOptions options that will be passed into the subscription, supported options are listed on: https://www.apollographql.com/docs/react/api/react-hooks/#options;
  *
  * @example
- * const { data, loading, error } = useUpvoteSubscription({
+ * const { data, loading, error } = useVoteSubscription({
  *   variables: {
  *      postId: // value for 'postId'
  *   },
  * });
  */
-export function useUpvoteSubscription(
+export function useVoteSubscription(
 	baseOptions: Apollo.SubscriptionHookOptions<
-		UpvoteSubscription,
-		UpvoteSubscriptionVariables
+		VoteSubscription,
+		VoteSubscriptionVariables
 	>
 ) {
 	const options = { ...defaultOptions, ...baseOptions }
-	return Apollo.useSubscription<
-		UpvoteSubscription,
-		UpvoteSubscriptionVariables
-	>(UpvoteDocument, options)
+	return Apollo.useSubscription<VoteSubscription, VoteSubscriptionVariables>(
+		VoteDocument,
+		options
+	)
 }
-export type UpvoteSubscriptionHookResult = ReturnType<
-	typeof useUpvoteSubscription
->
-export type UpvoteSubscriptionResult =
-	Apollo.SubscriptionResult<UpvoteSubscription>
+export type VoteSubscriptionHookResult = ReturnType<typeof useVoteSubscription>
+export type VoteSubscriptionResult = Apollo.SubscriptionResult<VoteSubscription>
@@ -6,7 +6,10 @@ import {
 	split,
 } from '@apollo/client'
 import { WebSocketLink } from '@apollo/client/link/ws'
-import { getMainDefinition } from '@apollo/client/utilities'
+import {
+	getMainDefinition,
+	relayStylePagination,
+} from '@apollo/client/utilities'
 import { NextPageContext } from 'next'
 
 export function initializeApollo(ctx: NextPageContext | null) {
@@ -51,6 +54,17 @@ export function initializeApollo(ctx: NextPageContext | null) {
 	return new ApolloClient({
 		ssrMode: typeof window === 'undefined',
 		link: link,
-		cache: new InMemoryCache(),
+		cache: new InMemoryCache({
+			typePolicies: {
+				Query: {
+					fields: {
+						// merge pages of cursor-paginated feeds, each ranking on its own
+						posts: relayStylePagination(['sort', 'window']),
+						relationshipFeed: relayStylePagination(),
+						comments: relayStylePagination(['postId', 'order']),
+					},
+				},
+			},
+		}),
 	})
 }
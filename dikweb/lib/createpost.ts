@@ -1,4 +1,4 @@
-import axios from 'axios'
+import axiosConfig from '../utils/axios'
 import { MutationFunctionOptions } from '@apollo/client'
 import { Maybe } from 'graphql/jsutils/Maybe'
 import {
@@ -51,21 +51,16 @@ export default async function CreatePost(props: Props) {
 		 * for now, it is only for image
 		 * future works will add new attachments/media :)
 		 *
-		 * @first upload to cloudinary
-		 * @second get url from cloudinary
+		 * @first upload to backend storage
+		 * @second get uri of the uploaded file
 		 * @final fire everything to backend
 		 */
 		const media = new FormData()
 		media.append('file', props.rawImage)
-		media.append('upload_preset', 'dikenang-posts-media')
-		media.append('cloud_name', 'dikenang')
 
 		try {
-			// Upload To Cloudinary Storage
-			const requestToCloudinary = await axios.post(
-				'https://api.cloudinary.com/v1_1/dikenang/image/upload',
-				media
-			)
+			// Upload to backend, file is validated there
+			const requestToUpload = await axiosConfig.post('uploads', media)
 
 			const { data } = await props.useHook({
 				variables: {
@@ -74,8 +69,13 @@ export default async function CreatePost(props: Props) {
 						type: props.postType,
 					},
 					createAttachmentInput: {
-						type: 'image',
-						uri: [requestToCloudinary.data.secure_url],
+						media: [
+							{
+								type: requestToUpload.data.type,
+								uri: requestToUpload.data.uri,
+								mime: requestToUpload.data.mime,
+							},
+						],
 					},
 				},
 			})
@@ -1,5 +1,5 @@
 module.exports = {
 	images: {
-		domains: ['res.cloudinary.com'],
+		domains: ['res.cloudinary.com', 'localhost'],
 	},
 }
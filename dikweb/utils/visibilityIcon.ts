@@ -0,0 +1,21 @@
+import PublicIcon from '@material-ui/icons/Public'
+import LinkIcon from '@material-ui/icons/Link'
+import LockIcon from '@material-ui/icons/Lock'
+import PersonIcon from '@material-ui/icons/Person'
+
+/**
+ * Icon of each post visibility,
+ * private is the fallback so unknown visibility never looks public
+ */
+export default function visibilityIcon(type?: string | null) {
+	switch (type) {
+		case 'public':
+			return PublicIcon
+		case 'unlisted':
+			return LinkIcon
+		case 'only_me':
+			return PersonIcon
+		default:
+			return LockIcon
+	}
+}